@@ -0,0 +1,221 @@
+// Local stand-in for the Allium Explorer API, for offline development and demos.
+//
+// Implements the endpoints src/lib/allium.ts calls:
+//   POST /api/v1/explorer/queries/:id/run-async   → { run_id }
+//   GET  /api/v1/explorer/query-runs/:id/status   → { status }
+//   GET  /api/v1/explorer/query-runs/:id/results  → fixture body ({ data: [...] })
+//   POST /api/v1/explorer/queries                 → { query_id } (ad-hoc SQL)
+//   POST /api/v1/developer/wallet/transactions    → { items, cursor } (Developer API)
+//
+// Results come from fixtures/<queryId>.json. Ad-hoc queries use
+// fixtures/adhoc-<title>.json, where <title> is the query title without its
+// trailing timestamp (e.g. adhoc-entity-lookup.json), else fixtures/adhoc.json.
+// The wallet query's fixture is filtered to its start_date/end_date window (by
+// FIRST_SEEN) and cut to its limit, as the saved query does.
+// Wallet transactions page through fixtures/wallet-transactions.json for any
+// wallet, with "$WALLET" in the fixture standing for the requested address;
+// the cursor is the offset of the next item.
+//
+// Usage:
+//   npm run mock:allium -- --port=4010 --latency=1500 --failure=none
+//   ALLIUM_API_BASE=http://localhost:4010/api/v1/explorer ALLIUM_API_KEY=mock npm run dev
+//
+// Options (flag or env var):
+//   --port       MOCK_ALLIUM_PORT          listen port (default 4010)
+//   --latency    MOCK_ALLIUM_LATENCY_MS    time a run spends queued/running before success (default 1500)
+//   --failure    MOCK_ALLIUM_FAILURE       none | trigger | query | results | timeout | flaky (default none)
+//   --fail-rate  MOCK_ALLIUM_FAIL_RATE     probability a run fails in flaky mode (default 0.3)
+//   --fixtures   MOCK_ALLIUM_FIXTURES      fixture directory (default ./fixtures next to this file)
+//
+// Failure modes:
+//   trigger  run-async answers 500
+//   query    runs finish with status "failed"
+//   results  runs succeed but the results endpoint answers 500
+//   timeout  runs stay "running" forever
+//   flaky    each run independently fails (status "failed") with --fail-rate probability
+//
+// A single request can override the failure mode with an X-Mock-Failure header.
+
+import { createServer } from "node:http";
+import { readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const API_PREFIX = "/api/v1/explorer";
+const DEVELOPER_PREFIX = "/api/v1/developer";
+const FAILURE_MODES = ["none", "trigger", "query", "results", "timeout", "flaky"];
+
+function option(flag, envVar, fallback) {
+  const arg = process.argv.find((a) => a.startsWith(`--${flag}=`));
+  if (arg) return arg.slice(flag.length + 3);
+  return process.env[envVar] ?? fallback;
+}
+
+const config = {
+  port: Number(option("port", "MOCK_ALLIUM_PORT", "4010")),
+  latencyMs: Number(option("latency", "MOCK_ALLIUM_LATENCY_MS", "1500")),
+  failure: option("failure", "MOCK_ALLIUM_FAILURE", "none"),
+  failRate: Number(option("fail-rate", "MOCK_ALLIUM_FAIL_RATE", "0.3")),
+  fixturesDir: option("fixtures", "MOCK_ALLIUM_FIXTURES", join(dirname(fileURLToPath(import.meta.url)), "fixtures")),
+};
+
+if (!FAILURE_MODES.includes(config.failure)) {
+  console.error(`[mock-allium] Unknown failure mode "${config.failure}" (expected ${FAILURE_MODES.join(", ")})`);
+  process.exit(1);
+}
+
+// run_id → { queryId, parameters, startedAt, failure, willFail }
+const runs = new Map();
+// ad-hoc query_id → { sql, fixture }
+const adHocQueries = new Map();
+let nextId = 1;
+
+// Saved wallet query (WALLET_QUERY_ID in src/lib/wallet.ts)
+const WALLET_QUERY_ID = "uOYFdeodat5P0qaLVW2t";
+
+function json(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+}
+
+async function loadFixture(queryId) {
+  const adHoc = adHocQueries.get(queryId);
+  if (!adHoc) return readFixture(queryId);
+  return (await readFixture(adHoc.fixture)) ?? readFixture("adhoc");
+}
+
+async function readFixture(name) {
+  try {
+    return JSON.parse(await readFile(join(config.fixturesDir, `${name}.json`), "utf8"));
+  } catch (err) {
+    if (err.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+function applyWalletParameters(fixture, parameters) {
+  if (!Array.isArray(fixture?.data)) return fixture;
+  const start = parameters.start_date ?? "";
+  const end = parameters.end_date ?? "9999";
+  const limit = Number(parameters.limit) || fixture.data.length;
+  const data = fixture.data.filter((row) => !row.FIRST_SEEN || (row.FIRST_SEEN >= start && row.FIRST_SEEN < end));
+  return { ...fixture, data: data.slice(0, limit) };
+}
+
+function runStatus(run) {
+  const elapsed = Date.now() - run.startedAt;
+  if (run.failure === "timeout") return elapsed < config.latencyMs / 3 ? "queued" : "running";
+  if (elapsed < config.latencyMs / 3) return "queued";
+  if (elapsed < config.latencyMs) return "running";
+  return run.willFail ? "failed" : "success";
+}
+
+async function handleWalletTransactions(req, res, url, failure) {
+  const body = await readBody(req);
+  const wallet = Array.isArray(body) ? body[0] : null;
+  if (!wallet?.chain || !wallet?.address) return json(res, 400, { error: "Expected [{ chain, address }]" });
+  if (failure === "trigger" || failure === "results") return json(res, 500, { error: `Mock failure: ${failure}` });
+
+  const fixture = await readFixture("wallet-transactions");
+  const items = Array.isArray(fixture?.items) ? fixture.items : [];
+  const limit = Math.max(Number(url.searchParams.get("limit")) || 25, 1);
+  const offset = Number(url.searchParams.get("cursor")) || 0;
+  const next = offset + limit;
+  console.log(`[mock-allium] wallet transactions ${wallet.chain}:${wallet.address} offset ${offset}`);
+  return json(res, 200, {
+    items: items
+      .slice(offset, next)
+      .map((item) => JSON.parse(JSON.stringify({ ...item, chain: wallet.chain }).replaceAll("$WALLET", wallet.address))),
+    cursor: next < items.length ? String(next) : null,
+  });
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+  const isDeveloper = url.pathname.startsWith(DEVELOPER_PREFIX);
+  const prefix = isDeveloper ? DEVELOPER_PREFIX : API_PREFIX;
+  const path = url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length) : null;
+  if (path === null) return json(res, 404, { error: "Not found" });
+
+  if (!req.headers["x-api-key"]) return json(res, 401, { error: "Missing X-API-KEY header" });
+
+  const failure = String(req.headers["x-mock-failure"] ?? config.failure);
+  let match;
+
+  if (isDeveloper) {
+    if (req.method === "POST" && path === "/wallet/transactions") {
+      return handleWalletTransactions(req, res, url, failure);
+    }
+    return json(res, 404, { error: `No mock for ${req.method} ${url.pathname}` });
+  }
+
+  if (req.method === "POST" && path === "/queries") {
+    const body = await readBody(req);
+    const queryId = `adhoc-${nextId++}`;
+    const title = String(body?.title ?? "");
+    adHocQueries.set(queryId, { sql: body?.config?.sql ?? "", fixture: `adhoc-${title.replace(/-\d+$/, "")}` });
+    console.log(`[mock-allium] ad-hoc query ${queryId} created (${body?.title ?? "untitled"})`);
+    return json(res, 200, { query_id: queryId });
+  }
+
+  if (req.method === "POST" && (match = path.match(/^\/queries\/([^/]+)\/run-async$/))) {
+    const queryId = decodeURIComponent(match[1]);
+    const body = await readBody(req);
+    if (failure === "trigger") return json(res, 500, { error: "Mock failure: trigger" });
+    const runId = `run-${nextId++}`;
+    runs.set(runId, {
+      queryId,
+      parameters: body?.parameters ?? {},
+      startedAt: Date.now(),
+      failure,
+      willFail: failure === "query" || (failure === "flaky" && Math.random() < config.failRate),
+    });
+    console.log(`[mock-allium] ${queryId} → ${runId} ${JSON.stringify(body?.parameters ?? {})}`);
+    return json(res, 200, { run_id: runId });
+  }
+
+  if (req.method === "GET" && (match = path.match(/^\/query-runs\/([^/]+)\/status$/))) {
+    const run = runs.get(decodeURIComponent(match[1]));
+    if (!run) return json(res, 404, { error: "Unknown run" });
+    return json(res, 200, { status: runStatus(run) });
+  }
+
+  if (req.method === "GET" && (match = path.match(/^\/query-runs\/([^/]+)\/results$/))) {
+    const run = runs.get(decodeURIComponent(match[1]));
+    if (!run) return json(res, 404, { error: "Unknown run" });
+    if (runStatus(run) !== "success") return json(res, 409, { error: `Run is ${runStatus(run)}` });
+    if (failure === "results" || run.failure === "results") return json(res, 500, { error: "Mock failure: results" });
+    const fixture = await loadFixture(run.queryId);
+    if (!fixture) {
+      console.warn(`[mock-allium] No fixture for ${run.queryId}, returning empty result`);
+      return json(res, 200, { data: [] });
+    }
+    return json(res, 200, run.queryId === WALLET_QUERY_ID ? applyWalletParameters(fixture, run.parameters) : fixture);
+  }
+
+  return json(res, 404, { error: `No mock for ${req.method} ${url.pathname}` });
+}
+
+createServer((req, res) => {
+  handle(req, res).catch((err) => {
+    console.error("[mock-allium] Error:", err);
+    json(res, 500, { error: err instanceof Error ? err.message : "Mock server error" });
+  });
+}).listen(config.port, () => {
+  console.log(
+    `[mock-allium] Listening on http://localhost:${config.port}${API_PREFIX} ` +
+      `(latency ${config.latencyMs}ms, failure ${config.failure}, fixtures ${config.fixturesDir})`
+  );
+});
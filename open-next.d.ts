@@ -0,0 +1,9 @@
+// Types for the Worker handler generated by `opennextjs-cloudflare build`,
+// imported by worker.ts. Ambient declarations can't name a relative path, so
+// this matches it by suffix.
+declare module "*/.open-next/worker.js" {
+  const handler: {
+    fetch(request: Request, env: unknown, ctx: { waitUntil(promise: Promise<unknown>): void }): Promise<Response>;
+  };
+  export default handler;
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runQueryAndWait } from "@/lib/allium";
-import { cfCacheMatch, cfCachePut, dedup, cacheKey, snapToHour, ttlForRange } from "@/lib/cache";
+import { submitQueryJob } from "@/lib/jobs";
+import { BRIDGE_MAX_WAIT_MS, BRIDGE_QUERY_ID } from "@/lib/queries";
+import { normalizeBridges } from "@/lib/rows";
+import { cfCacheRevalidate, cfCachePut, dedup, cacheKey, snapToHour, ttlForRange, rangeCacheUrl, CACHE_STATUS_HEADER } from "@/lib/cache";
 
 export const dynamic = "force-dynamic";
 
-const BRIDGE_QUERY_ID = "i812m0VJTKobVxsYvdHB";
-
 export async function GET(request: NextRequest) {
   const apiKey = process.env.ALLIUM_API_KEY;
 
@@ -32,28 +33,53 @@ export async function GET(request: NextRequest) {
     end_date: snapToHour(endDate || defaultEnd),
   };
 
-  const cacheUrl = `https://cache.internal/api/bridges?start_date=${params.start_date}&end_date=${params.end_date}`;
-
-  const cached = await cfCacheMatch(cacheUrl);
-  if (cached) {
-    console.log(`[bridges] CF cache hit`);
-    return NextResponse.json(cached);
-  }
+  const cacheUrl = rangeCacheUrl("bridges", params);
 
+  const asyncJob = searchParams.get("async") === "1";
   const key = cacheKey(BRIDGE_QUERY_ID, params);
   const ttl = ttlForRange(params.start_date, params.end_date);
   const ttlSec = Math.round(ttl / 1000);
+  const fetchBridges = async () => normalizeBridges(await runQueryAndWait(BRIDGE_QUERY_ID, apiKey, BRIDGE_MAX_WAIT_MS, params));
+
+  const cached = await cfCacheRevalidate(cacheUrl, key, ttlSec, fetchBridges);
+  if (cached) {
+    console.log(`[bridges] CF cache hit (${cached.status})`);
+    const headers = { [CACHE_STATUS_HEADER]: cached.status };
+    if (asyncJob) {
+      return NextResponse.json({ jobId: null, status: "success", elapsedMs: 0, result: cached.data }, { headers });
+    }
+    return NextResponse.json(cached.data, { headers });
+  }
+
+  // Async mode: trigger the run and hand back a job ID to poll at /api/jobs/:id
+  if (asyncJob) {
+    try {
+      const job = await submitQueryJob({
+        queryId: BRIDGE_QUERY_ID,
+        apiKey,
+        params,
+        schema: "bridges",
+        key,
+        cacheUrl,
+        ttlSec,
+        maxWaitMs: BRIDGE_MAX_WAIT_MS,
+      });
+      return NextResponse.json(job, { status: 202, headers: { [CACHE_STATUS_HEADER]: "miss" } });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      return NextResponse.json({ error: message }, { status: 500 });
+    }
+  }
 
   try {
-    const result = await dedup(key, () =>
-      runQueryAndWait(BRIDGE_QUERY_ID, apiKey, 30000, params)
-    );
+    const result = await dedup(key, fetchBridges);
 
     await cfCachePut(cacheUrl, result, ttlSec);
 
     return NextResponse.json(result, {
       headers: {
         "Cache-Control": `public, s-maxage=${ttlSec}, stale-while-revalidate=${ttlSec * 2}`,
+        [CACHE_STATUS_HEADER]: "miss",
       },
     });
   } catch (err) {
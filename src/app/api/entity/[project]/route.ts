@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cfCacheRevalidate, cfCachePut, dedup, CACHE_STATUS_HEADER } from "@/lib/cache";
+import { entityProfileCacheUrl, fetchEntityProfile, normalizeProject, ENTITY_TTL_SEC } from "@/lib/entitylabels";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/entity/:project
+ *
+ * Every address Allium labels with this project (e.g. "binance"), across
+ * chains. 404 when the project has no labeled addresses.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ project: string }> }
+) {
+  const apiKey = process.env.ALLIUM_API_KEY;
+  if (!apiKey) {
+    return NextResponse.json({ error: "Missing ALLIUM_API_KEY" }, { status: 500 });
+  }
+
+  const { project: rawProject } = await params;
+  const project = normalizeProject(rawProject);
+  if (!project) {
+    return NextResponse.json({ error: `Invalid project "${rawProject}"` }, { status: 400 });
+  }
+
+  const cacheUrl = entityProfileCacheUrl(project);
+  const dataKey = `entity-profile:${project}`;
+  const fetchProfile = () => fetchEntityProfile(project, apiKey);
+
+  const cached = await cfCacheRevalidate(cacheUrl, dataKey, ENTITY_TTL_SEC, fetchProfile);
+  if (cached) {
+    console.log(`[entity] CF cache hit (${cached.status})`);
+    return NextResponse.json(cached.data, {
+      headers: {
+        "Cache-Control": "public, s-maxage=86400, stale-while-revalidate=86400",
+        [CACHE_STATUS_HEADER]: cached.status,
+      },
+    });
+  }
+
+  try {
+    const response = await dedup(dataKey, fetchProfile);
+    if (response.addresses.length === 0) {
+      return NextResponse.json({ error: `No known addresses for "${project}"` }, { status: 404 });
+    }
+    await cfCachePut(cacheUrl, response, ENTITY_TTL_SEC);
+
+    return NextResponse.json(response, {
+      headers: {
+        "Cache-Control": "public, s-maxage=86400, stale-while-revalidate=86400",
+        [CACHE_STATUS_HEADER]: "miss",
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error("[entity] Error:", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
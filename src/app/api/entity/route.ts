@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cfCacheRevalidate, cfCachePut, dedup, CACHE_STATUS_HEADER } from "@/lib/cache";
+import { CHAINS, normalizeAddress } from "@/lib/chains";
+import { entityCacheUrl, fetchEntityLabel, ENTITY_TTL_SEC } from "@/lib/entitylabels";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/entity?address=&chain=
+ *
+ * The entity label (name, category, project) on any address, or
+ * `entity: null` when Allium has none.
+ */
+export async function GET(request: NextRequest) {
+  const apiKey = process.env.ALLIUM_API_KEY;
+  if (!apiKey) {
+    return NextResponse.json({ error: "Missing ALLIUM_API_KEY" }, { status: 500 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const rawAddress = searchParams.get("address");
+  const chain = (searchParams.get("chain") || "ethereum").toLowerCase();
+
+  if (!rawAddress) {
+    return NextResponse.json({ error: "Missing address parameter" }, { status: 400 });
+  }
+
+  const chainInfo = CHAINS[chain];
+  if (!chainInfo) {
+    return NextResponse.json({ error: `Unknown chain "${chain}"` }, { status: 400 });
+  }
+  const address = normalizeAddress(chain, rawAddress);
+  if (!address) {
+    return NextResponse.json(
+      { error: `Not a valid ${chainInfo.label} address (expected ${chainInfo.address.description})` },
+      { status: 400 }
+    );
+  }
+
+  const cacheUrl = entityCacheUrl(address, chain);
+  const dataKey = `entity:${chain}:${address}`;
+  const fetchLabel = () => fetchEntityLabel(address, chain, apiKey);
+
+  const cached = await cfCacheRevalidate(cacheUrl, dataKey, ENTITY_TTL_SEC, fetchLabel);
+  if (cached) {
+    console.log(`[entity] CF cache hit (${cached.status})`);
+    return NextResponse.json(cached.data, {
+      headers: {
+        "Cache-Control": "public, s-maxage=86400, stale-while-revalidate=86400",
+        [CACHE_STATUS_HEADER]: cached.status,
+      },
+    });
+  }
+
+  try {
+    // Unlabeled is an answer too, so it's cached like a label
+    const response = await dedup(dataKey, fetchLabel);
+    await cfCachePut(cacheUrl, response, ENTITY_TTL_SEC);
+
+    return NextResponse.json(response, {
+      headers: {
+        "Cache-Control": "public, s-maxage=86400, stale-while-revalidate=86400",
+        [CACHE_STATUS_HEADER]: "miss",
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error("[entity] Error:", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
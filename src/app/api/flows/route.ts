@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runQueryAndWait } from "@/lib/allium";
-import { cfCacheMatch, cfCachePut, dedup, cacheKey, snapToHour, ttlForRange } from "@/lib/cache";
+import { submitQueryJob } from "@/lib/jobs";
+import { FLOWS_MAX_WAIT_MS, FLOWS_QUERY_ID } from "@/lib/queries";
+import { normalizeFlows } from "@/lib/rows";
+import { cfCacheRevalidate, cfCachePut, dedup, cacheKey, snapToHour, ttlForRange, rangeCacheUrl, CACHE_STATUS_HEADER } from "@/lib/cache";
 
 export const dynamic = "force-dynamic";
 
-const FLOWS_QUERY_ID = "Gfa6Z0NU15RsYA4Hp3vB";
-
 export async function GET(request: NextRequest) {
   const apiKey = process.env.ALLIUM_API_KEY;
 
@@ -34,24 +35,50 @@ export async function GET(request: NextRequest) {
   };
 
   // Build a canonical cache URL from snapped params (ensures stable key)
-  const cacheUrl = `https://cache.internal/api/flows?start_date=${params.start_date}&end_date=${params.end_date}`;
+  const cacheUrl = rangeCacheUrl("flows", params);
 
-  // 1. Check CF edge cache
-  const cached = await cfCacheMatch(cacheUrl);
-  if (cached) {
-    console.log(`[flows] CF cache hit`);
-    return NextResponse.json(cached);
-  }
+  const asyncJob = searchParams.get("async") === "1";
 
-  // 2. Dedup + fetch
   const key = cacheKey(FLOWS_QUERY_ID, params);
   const ttl = ttlForRange(params.start_date, params.end_date);
   const ttlSec = Math.round(ttl / 1000);
+  const fetchFlows = async () => normalizeFlows(await runQueryAndWait(FLOWS_QUERY_ID, apiKey, FLOWS_MAX_WAIT_MS, params));
+
+  // 1. Check CF edge cache — stale entries are served while refreshing in the background
+  const cached = await cfCacheRevalidate(cacheUrl, key, ttlSec, fetchFlows);
+  if (cached) {
+    console.log(`[flows] CF cache hit (${cached.status})`);
+    const headers = { [CACHE_STATUS_HEADER]: cached.status };
+    if (asyncJob) {
+      return NextResponse.json({ jobId: null, status: "success", elapsedMs: 0, result: cached.data }, { headers });
+    }
+    return NextResponse.json(cached.data, { headers });
+  }
+
+  // 2. Dedup + fetch
+
+  // Async mode: trigger the run and hand back a job ID to poll at /api/jobs/:id
+  if (asyncJob) {
+    try {
+      const job = await submitQueryJob({
+        queryId: FLOWS_QUERY_ID,
+        apiKey,
+        params,
+        schema: "flows",
+        key,
+        cacheUrl,
+        ttlSec,
+        maxWaitMs: FLOWS_MAX_WAIT_MS,
+      });
+      return NextResponse.json(job, { status: 202, headers: { [CACHE_STATUS_HEADER]: "miss" } });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      return NextResponse.json({ error: message }, { status: 500 });
+    }
+  }
 
   try {
-    const result = await dedup(key, () =>
-      runQueryAndWait(FLOWS_QUERY_ID, apiKey, 300000, params)
-    );
+    const result = await dedup(key, fetchFlows);
 
     // 3. Store in CF edge cache
     await cfCachePut(cacheUrl, result, ttlSec);
@@ -59,6 +86,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(result, {
       headers: {
         "Cache-Control": `public, s-maxage=${ttlSec}, stale-while-revalidate=${ttlSec * 2}`,
+        [CACHE_STATUS_HEADER]: "miss",
       },
     });
   } catch (err) {
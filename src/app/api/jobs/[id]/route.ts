@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getQueryJob } from "@/lib/jobs";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Status of an async query job started by `/api/flows?async=1` or
+ * `/api/bridges?async=1`. Includes the result once the Allium run succeeds.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const apiKey = process.env.ALLIUM_API_KEY;
+  if (!apiKey) {
+    return NextResponse.json({ error: "Missing ALLIUM_API_KEY" }, { status: 500 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const job = await getQueryJob(id, apiKey);
+    if (!job) {
+      return NextResponse.json({ error: "Unknown or expired job" }, { status: 404 });
+    }
+    return NextResponse.json(job, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
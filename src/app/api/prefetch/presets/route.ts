@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runQueryAndWait } from "@/lib/allium";
+import { cfCacheMatch, cfCachePut, dedup, cacheKey, snapToHour, ttlForRange, rangeCacheUrl } from "@/lib/cache";
+import { QUICK_PRESETS, presetRange } from "@/lib/presets";
+import { BRIDGE_MAX_WAIT_MS, BRIDGE_QUERY_ID, FLOWS_MAX_WAIT_MS, FLOWS_QUERY_ID } from "@/lib/queries";
+import { normalizeBridges, normalizeFlows } from "@/lib/rows";
+
+export const dynamic = "force-dynamic";
+
+const DATASETS = [
+  { route: "flows", queryId: FLOWS_QUERY_ID, maxWaitMs: FLOWS_MAX_WAIT_MS, normalize: normalizeFlows },
+  { route: "bridges", queryId: BRIDGE_QUERY_ID, maxWaitMs: BRIDGE_MAX_WAIT_MS, normalize: normalizeBridges },
+] as const;
+
+/**
+ * Warm the cache for every Sidebar preset (1h … 30d) of flows and bridges.
+ * Called hourly by the Worker's scheduled handler (see worker.ts); ranges and
+ * cache URLs are built exactly as the client and the routes build them, so a
+ * preset click in the same hour is always a cache hit.
+ *
+ * Requests must carry CRON_SECRET as a bearer token; without it configured
+ * the endpoint refuses every request rather than running for anyone.
+ */
+export async function GET(request: NextRequest) {
+  const apiKey = process.env.ALLIUM_API_KEY;
+  if (!apiKey) {
+    return NextResponse.json({ error: "Missing ALLIUM_API_KEY" }, { status: 500 });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Missing CRON_SECRET" }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const now = new Date();
+  const jobs = DATASETS.flatMap(({ route, queryId, maxWaitMs, normalize }) =>
+    QUICK_PRESETS.map(async (preset) => {
+      const range = presetRange(preset.hours, now);
+      const params = {
+        start_date: snapToHour(range.startDate),
+        end_date: snapToHour(range.endDate),
+      };
+      const cacheUrl = rangeCacheUrl(route, params);
+      const label = `${route} ${preset.label}`;
+
+      if (await cfCacheMatch(cacheUrl)) return `${label} (cached)`;
+      const ttlSec = Math.round(ttlForRange(params.start_date, params.end_date) / 1000);
+      const result = await dedup(cacheKey(queryId, params), async () =>
+        normalize(await runQueryAndWait(queryId, apiKey, maxWaitMs, params))
+      );
+      await cfCachePut(cacheUrl, result, ttlSec);
+      return label;
+    })
+  );
+
+  const results = await Promise.allSettled(jobs);
+  const summary = results.map((r) => ({
+    status: r.status,
+    result: r.status === "fulfilled" ? r.value : String(r.reason),
+  }));
+  console.log(`[prefetch] Presets: ${summary.map((s) => `${s.result} ${s.status}`).join(", ")}`);
+
+  return NextResponse.json({ prefetched: summary });
+}
@@ -1,13 +1,12 @@
 import { NextResponse } from "next/server";
 import { runQueryAndWait } from "@/lib/allium";
-import { cfCacheMatch, cfCachePut, dedup, cacheKey, snapToHour, ttlForRange } from "@/lib/cache";
+import { cfCacheMatch, cfCachePut, dedup, cacheKey, snapToHour, ttlForRange, rangeCacheUrl } from "@/lib/cache";
+import { BRIDGE_MAX_WAIT_MS, BRIDGE_QUERY_ID, FLOWS_MAX_WAIT_MS, FLOWS_QUERY_ID } from "@/lib/queries";
+import { normalizeBridges, normalizeFlows } from "@/lib/rows";
+import { DEFAULT_WALLET_FILTERS, fetchWalletData, walletCacheUrl, walletDataKey, WALLET_TTL_SEC } from "@/lib/wallet";
 
 export const dynamic = "force-dynamic";
 
-const FLOWS_QUERY_ID = "Gfa6Z0NU15RsYA4Hp3vB";
-const BRIDGE_QUERY_ID = "i812m0VJTKobVxsYvdHB";
-const WALLET_QUERY_ID = "uOYFdeodat5P0qaLVW2t";
-
 const DEFAULT_WALLET = "0xdbf5e9c5206d0db70a90108bf936da60221dc080";
 
 /**
@@ -30,7 +29,7 @@ export async function GET() {
     start_date: snapToHour(flowsStart.toISOString().replace("T", " ").slice(0, 19)),
     end_date: snapToHour(endSnapped.toISOString().replace("T", " ").slice(0, 19)),
   };
-  const flowsCacheUrl = `https://cache.internal/api/flows?start_date=${flowsParams.start_date}&end_date=${flowsParams.end_date}`;
+  const flowsCacheUrl = rangeCacheUrl("flows", flowsParams);
   const flowsKey = cacheKey(FLOWS_QUERY_ID, flowsParams);
   const flowsTtl = ttlForRange(flowsParams.start_date, flowsParams.end_date);
   const flowsTtlSec = Math.round(flowsTtl / 1000);
@@ -41,45 +40,39 @@ export async function GET() {
     start_date: snapToHour(bridgesStart.toISOString().replace("T", " ").slice(0, 19)),
     end_date: snapToHour(endSnapped.toISOString().replace("T", " ").slice(0, 19)),
   };
-  const bridgesCacheUrl = `https://cache.internal/api/bridges?start_date=${bridgesParams.start_date}&end_date=${bridgesParams.end_date}`;
+  const bridgesCacheUrl = rangeCacheUrl("bridges", bridgesParams);
   const bridgesKey = cacheKey(BRIDGE_QUERY_ID, bridgesParams);
   const bridgesTtl = ttlForRange(bridgesParams.start_date, bridgesParams.end_date);
   const bridgesTtlSec = Math.round(bridgesTtl / 1000);
 
   // Default wallet
-  const walletCacheUrl = `https://cache.internal/api/wallet?address=${DEFAULT_WALLET}&chain=ethereum`;
-  const walletKey = `wallet:${DEFAULT_WALLET}:ethereum`;
+  const walletUrl = walletCacheUrl(DEFAULT_WALLET, "ethereum", DEFAULT_WALLET_FILTERS);
+  const walletKey = walletDataKey(DEFAULT_WALLET, "ethereum", DEFAULT_WALLET_FILTERS);
 
   // Only fetch if not already in CF cache
   const jobs = [
     (async () => {
       if (await cfCacheMatch(flowsCacheUrl)) return "flows (cached)";
-      const result = await dedup(flowsKey, () =>
-        runQueryAndWait(FLOWS_QUERY_ID, apiKey, 300000, flowsParams)
+      const result = await dedup(flowsKey, async () =>
+        normalizeFlows(await runQueryAndWait(FLOWS_QUERY_ID, apiKey, FLOWS_MAX_WAIT_MS, flowsParams))
       );
       await cfCachePut(flowsCacheUrl, result, flowsTtlSec);
       return "flows";
     })(),
     (async () => {
       if (await cfCacheMatch(bridgesCacheUrl)) return "bridges (cached)";
-      const result = await dedup(bridgesKey, () =>
-        runQueryAndWait(BRIDGE_QUERY_ID, apiKey, 30000, bridgesParams)
+      const result = await dedup(bridgesKey, async () =>
+        normalizeBridges(await runQueryAndWait(BRIDGE_QUERY_ID, apiKey, BRIDGE_MAX_WAIT_MS, bridgesParams))
       );
       await cfCachePut(bridgesCacheUrl, result, bridgesTtlSec);
       return "bridges";
     })(),
     (async () => {
-      if (await cfCacheMatch(walletCacheUrl)) return "wallet (cached)";
-      const result = await dedup(walletKey, () =>
-        runQueryAndWait(WALLET_QUERY_ID, apiKey, 60000, {
-          wallet_address: DEFAULT_WALLET,
-          chain: "ethereum",
-        })
-      );
-      // Note: wallet route processes raw result into WalletData.
-      // Here we cache the raw Allium result; the wallet route will
-      // still need to process it. For the wallet, the route itself
-      // caches the processed result separately.
+      if (await cfCacheMatch(walletUrl)) return "wallet (cached)";
+      const data = await dedup(walletKey, () => fetchWalletData(DEFAULT_WALLET, "ethereum", apiKey, DEFAULT_WALLET_FILTERS));
+      // Same rule as /api/wallet: an empty result isn't worth caching
+      if (data.counterparties.length === 0) return "wallet (empty)";
+      await cfCachePut(walletUrl, data, WALLET_TTL_SEC);
       return "wallet";
     })(),
   ];
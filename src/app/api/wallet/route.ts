@@ -1,18 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { runQueryAndWait } from "@/lib/allium";
-import { cfCacheMatch, cfCachePut, dedup } from "@/lib/cache";
-import type {
-  EntityLabel,
-  EnrichedCounterparty,
-  WalletData,
-} from "@/lib/types";
+import { cfCacheRevalidate, cfCachePut, dedup, CACHE_STATUS_HEADER } from "@/lib/cache";
+import { ALL_EVM, chainAddressFormat, chainLabel, normalizeAddress } from "@/lib/chains";
+import {
+  fetchAllEvmWalletData,
+  fetchWalletData,
+  parseWalletDateBound,
+  walletCacheUrl,
+  walletDataKey,
+  WALLET_DEFAULT_LIMIT,
+  WALLET_MAX_LIMIT,
+  WALLET_TTL_SEC,
+} from "@/lib/wallet";
+import type { WalletData, WalletFilters } from "@/lib/types";
 
 export const dynamic = "force-dynamic";
 
-// Pre-saved Allium query: joins wallet transactions with entity labels
-// Parameters: {{wallet_address}}, {{chain}}
-const WALLET_QUERY_ID = "uOYFdeodat5P0qaLVW2t";
-
 export async function GET(request: NextRequest) {
   const apiKey = process.env.ALLIUM_API_KEY;
   if (!apiKey) {
@@ -20,120 +22,84 @@ export async function GET(request: NextRequest) {
   }
 
   const { searchParams } = request.nextUrl;
-  const address = searchParams.get("address");
-  const chain = searchParams.get("chain") || "ethereum";
+  const rawAddress = searchParams.get("address");
+  const chain = (searchParams.get("chain") || "ethereum").toLowerCase();
 
-  if (!address) {
+  if (!rawAddress) {
     return NextResponse.json({ error: "Missing address parameter" }, { status: 400 });
   }
 
-  const cacheUrl = `https://cache.internal/api/wallet?address=${address.toLowerCase()}&chain=${chain}`;
-
-  // Check CF edge cache for the fully processed response
-  const cached = await cfCacheMatch(cacheUrl);
-  if (cached) {
-    console.log(`[wallet] CF cache hit`);
-    return NextResponse.json(cached, {
-      headers: { "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=7200" },
-    });
+  const addressFormat = chainAddressFormat(chain);
+  if (!addressFormat) {
+    return NextResponse.json({ error: `Unknown chain "${chain}"` }, { status: 400 });
   }
-
-  try {
-    console.log(`[wallet] Querying labeled counterparties for ${address} on ${chain}...`);
-    const walletKey = `wallet:${address.toLowerCase()}:${chain}`;
-    const result = await dedup(walletKey, () =>
-      runQueryAndWait(WALLET_QUERY_ID, apiKey, 60000, {
-        wallet_address: address.toLowerCase(),
-        chain,
-      })
+  const address = normalizeAddress(chain, rawAddress);
+  if (!address) {
+    return NextResponse.json(
+      { error: `Not a valid ${chainLabel(chain)} address (expected ${addressFormat.description})` },
+      { status: 400 }
     );
+  }
 
-    const rows = result?.data || result || [];
-    console.log(`[wallet] Got ${Array.isArray(rows) ? rows.length : 0} rows`);
-
-    if (!Array.isArray(rows) || rows.length === 0) {
-      return NextResponse.json({
-        address,
-        chain,
-        transactions: [],
-        counterparties: [],
-      });
+  // Snapped to the hour like flows, so nearby windows share a cache entry
+  const dates: (string | null)[] = [];
+  for (const [param, bound] of [["start_date", "start"], ["end_date", "end"]] as const) {
+    const value = searchParams.get(param);
+    if (!value) {
+      dates.push(null);
+      continue;
     }
-
-    // Aggregate rows into counterparties (same address may appear as both sent/received)
-    const cpMap = new Map<
-      string,
-      {
-        entity: EntityLabel;
-        sent: number;
-        received: number;
-        tokens: Set<string>;
-        firstSeen: string | undefined;
-      }
-    >();
-
-    for (const row of rows) {
-      const addr = (row.COUNTERPARTY_ADDRESS || row.counterparty_address || "").toLowerCase();
-      const direction = row.DIRECTION || row.direction || "";
-      const txCount = Number(row.TX_COUNT || row.tx_count || 0);
-      const category = row.CATEGORY || row.category || "unknown";
-      const project = row.PROJECT || row.project || "";
-      const name = row.NAME || row.name || "";
-      const firstSeen = row.FIRST_SEEN || row.first_seen || undefined;
-
-      // Skip self-references
-      if (addr === address.toLowerCase()) continue;
-
-      const existing = cpMap.get(addr) || {
-        entity: { chain, address: addr, category, project, name },
-        sent: 0,
-        received: 0,
-        tokens: new Set<string>(),
-        firstSeen: undefined as string | undefined,
-      };
-
-      if (direction === "sent") {
-        existing.sent += txCount;
-      } else {
-        existing.received += txCount;
-      }
-      existing.tokens.add(category);
-
-      // Track earliest firstSeen across sent/received rows for the same address
-      if (firstSeen && (!existing.firstSeen || firstSeen < existing.firstSeen)) {
-        existing.firstSeen = firstSeen;
-      }
-
-      cpMap.set(addr, existing);
+    try {
+      dates.push(parseWalletDateBound(value, bound));
+    } catch {
+      return NextResponse.json({ error: `Invalid ${param} "${value}"` }, { status: 400 });
     }
+  }
+  const [startDate, endDate] = dates;
+  if (startDate && endDate && startDate >= endDate) {
+    return NextResponse.json({ error: "start_date must be before end_date" }, { status: 400 });
+  }
 
-    const counterparties: EnrichedCounterparty[] = Array.from(cpMap.entries())
-      .map(([addr, data]) => ({
-        address: addr,
-        chain,
-        entity: data.entity,
-        totalSent: data.sent,
-        totalReceived: data.received,
-        transferCount: data.sent + data.received,
-        tokens: Array.from(data.tokens),
-        firstSeen: data.firstSeen,
-      }))
-      .sort((a, b) => b.transferCount - a.transferCount);
-
-    console.log(`[wallet] Returning ${counterparties.length} labeled counterparties`);
+  const limit = Math.min(
+    Math.max(parseInt(searchParams.get("limit") || "", 10) || WALLET_DEFAULT_LIMIT, 1),
+    WALLET_MAX_LIMIT
+  );
+  const filters: WalletFilters = { startDate, endDate, limit };
+
+  const cacheUrl = walletCacheUrl(address, chain, filters);
+  const dataKey = walletDataKey(address, chain, filters);
+  const fetchWallet = () =>
+    chain === ALL_EVM
+      ? fetchAllEvmWalletData(address, apiKey, filters)
+      : fetchWalletData(address, chain, apiKey, filters);
+
+  // Empty results are never cached, whether fetched on a miss or by a stale
+  // entry's background refresh
+  const isCacheable = (data: WalletData) => data.counterparties.length > 0;
+
+  // Check CF edge cache for the fully processed response (stale → background refresh)
+  const cached = await cfCacheRevalidate(cacheUrl, dataKey, WALLET_TTL_SEC, fetchWallet, isCacheable);
+  if (cached) {
+    console.log(`[wallet] CF cache hit (${cached.status})`);
+    return NextResponse.json(cached.data, {
+      headers: {
+        "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=7200",
+        [CACHE_STATUS_HEADER]: cached.status,
+      },
+    });
+  }
 
-    const response: WalletData = {
-      address,
-      chain,
-      transactions: [],
-      counterparties,
-    };
+  try {
+    const response = await dedup(dataKey, fetchWallet);
 
-    await cfCachePut(cacheUrl, response, 3600);
+    if (isCacheable(response)) {
+      await cfCachePut(cacheUrl, response, WALLET_TTL_SEC);
+    }
 
     return NextResponse.json(response, {
       headers: {
         "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=7200",
+        [CACHE_STATUS_HEADER]: "miss",
       },
     });
   } catch (err) {
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cfCacheMatch, cfCachePut, dedup, CACHE_STATUS_HEADER } from "@/lib/cache";
+import { CHAINS, normalizeAddress } from "@/lib/chains";
+import {
+  fetchWalletTransactions,
+  parseTxDateBound,
+  walletTxCacheUrl,
+  WALLET_TX_MAX_PAGE_SIZE,
+  WALLET_TX_PAGE_SIZE,
+  WALLET_TX_TTL_SEC,
+} from "@/lib/wallettx";
+import type { WalletTxFilters } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/wallet/transactions?address=&chain=&limit=&cursor=&token=&direction=&start=&end=
+ *
+ * One page of a wallet's transactions, newest first, with asset transfers.
+ * Pass the returned `cursor` back to read the next page.
+ *
+ * `start` and `end` are UTC timestamps, both inclusive like /api/wallet's
+ * start_date and end_date: a transaction at exactly `end` is returned. A bare
+ * date as `end` includes that whole day.
+ */
+export async function GET(request: NextRequest) {
+  const apiKey = process.env.ALLIUM_API_KEY;
+  if (!apiKey) {
+    return NextResponse.json({ error: "Missing ALLIUM_API_KEY" }, { status: 500 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const rawAddress = searchParams.get("address");
+  const chain = (searchParams.get("chain") || "ethereum").toLowerCase();
+
+  if (!rawAddress) {
+    return NextResponse.json({ error: "Missing address parameter" }, { status: 400 });
+  }
+
+  const chainInfo = CHAINS[chain];
+  if (!chainInfo) {
+    return NextResponse.json({ error: `Unknown chain "${chain}"` }, { status: 400 });
+  }
+  const address = normalizeAddress(chain, rawAddress);
+  if (!address) {
+    return NextResponse.json(
+      { error: `Not a valid ${chainInfo.label} address (expected ${chainInfo.address.description})` },
+      { status: 400 }
+    );
+  }
+
+  const limit = Math.min(
+    Math.max(parseInt(searchParams.get("limit") || "", 10) || WALLET_TX_PAGE_SIZE, 1),
+    WALLET_TX_MAX_PAGE_SIZE
+  );
+  const cursor = searchParams.get("cursor") || null;
+
+  const filters: WalletTxFilters = {};
+  const token = searchParams.get("token");
+  if (token) filters.token = token;
+
+  const direction = searchParams.get("direction");
+  if (direction) {
+    if (direction !== "sent" && direction !== "received") {
+      return NextResponse.json({ error: `direction must be "sent" or "received"` }, { status: 400 });
+    }
+    filters.direction = direction;
+  }
+
+  for (const [param, field] of [["start", "startDate"], ["end", "endDate"]] as const) {
+    const value = searchParams.get(param);
+    if (!value) continue;
+    try {
+      filters[field] = parseTxDateBound(value, param);
+    } catch {
+      return NextResponse.json({ error: `Invalid ${param} date "${value}"` }, { status: 400 });
+    }
+  }
+
+  const cacheUrl = walletTxCacheUrl(address, chain, limit, cursor, filters);
+  const cached = await cfCacheMatch(cacheUrl);
+  if (cached) {
+    console.log("[wallet-tx] CF cache hit");
+    return NextResponse.json(cached, {
+      headers: {
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        [CACHE_STATUS_HEADER]: "fresh",
+      },
+    });
+  }
+
+  try {
+    const page = await dedup(cacheUrl, () =>
+      fetchWalletTransactions(address, chain, apiKey, { limit, cursor, filters })
+    );
+
+    if (page.items.length > 0) {
+      await cfCachePut(cacheUrl, page, WALLET_TX_TTL_SEC);
+    }
+
+    return NextResponse.json(page, {
+      headers: {
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        [CACHE_STATUS_HEADER]: "miss",
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error("[wallet-tx] Error:", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,54 +1,68 @@
 "use client";
 
-import { useEffect, useState, useCallback, useRef } from "react";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import dynamic from "next/dynamic";
 import Sidebar from "@/components/Sidebar";
-import { COUNTRY_COORDS } from "@/lib/countries";
-import { CHAIN_COORDS } from "@/lib/chains";
-import { resolveCounterpartyPosition, CATEGORY_COLORS } from "@/lib/entities";
-import type { ArcData, StablecoinFlow, WalletData } from "@/lib/types";
+import { AddressLink, TxLink } from "@/components/AddressLink";
+import { resolveCountry } from "@/lib/countries";
+import { canonicalCountry, isSameCountry } from "@/lib/countrymap";
+import { computeNetFlows } from "@/lib/netflow";
+import { mergeArcs } from "@/lib/livearcs";
+import { presetRange, WALLET_LIMITS } from "@/lib/presets";
+import { ALL_EVM, CHAINS } from "@/lib/chains";
+import { tokenColor } from "@/lib/tokens";
+import { buildWalletGraph, nodeKey, collapseHop, type WalletHop } from "@/lib/walletgraph";
+import type {
+  ArcData,
+  ArcMode,
+  BridgeFlow,
+  GlobeColorMode,
+  QueryJobStatus,
+  RowsResponse,
+  StablecoinFlow,
+  UnmappedFlows,
+  WalletData,
+} from "@/lib/types";
 
 const Globe = dynamic(() => import("@/components/Globe"), { ssr: false });
 
-const TOKEN_COLORS: Record<string, string> = {
-  USDC: "#7a8fa3",
-  USDT: "#7a9e8f",
-  DAI: "#b89e6e",
-  BUSD: "#b8a36e",
-  PYUSD: "#8393a8",
-  RLUSD: "#c5bfb5",
-  XUSD: "#9a8aad",
-  USDS: "#8a8aad",
-  USDe: "#8a9e8f",
-  WETH: "#627EEA",
-  WBTC: "#F7931A",
-  ETH: "#627EEA",
-};
-
 export interface DateRange {
   startDate: string; // ISO timestamp string e.g. "2025-01-01 00:00:00"
   endDate: string;
 }
 
-function flowsToArcs(flows: StablecoinFlow[]): ArcData[] {
+/**
+ * Resolve each flow's countries against the registry and build its arc.
+ * Flows with a country that doesn't resolve can't be placed on the globe;
+ * they are tallied in `unmapped` instead of vanishing silently.
+ */
+function flowsToArcs(flows: StablecoinFlow[]): { arcs: ArcData[]; unmapped: UnmappedFlows } {
   const maxUsd = Math.max(...flows.map((f) => f.total_usd), 1);
 
-  return flows
-    .filter((f) => {
-      const from = COUNTRY_COORDS[f.from_country];
-      const to = COUNTRY_COORDS[f.to_country];
-      return from && to;
-    })
-    .sort((a, b) => {
+  const unmapped: UnmappedFlows = { corridors: 0, totalUsd: 0, countries: [] };
+  const unmappedUsd = new Map<string, number>();
+  const resolved = flows.flatMap((f) => {
+    const from = resolveCountry(f.from_country);
+    const to = resolveCountry(f.to_country);
+    if (from && to) return [{ f, from, to }];
+    unmapped.corridors++;
+    unmapped.totalUsd += f.total_usd;
+    for (const [name, country] of [[f.from_country, from], [f.to_country, to]] as const) {
+      if (!country) unmappedUsd.set(name, (unmappedUsd.get(name) ?? 0) + f.total_usd);
+    }
+    return [];
+  });
+  unmapped.countries = [...unmappedUsd.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+
+  const arcs = resolved
+    .sort(({ f: a }, { f: b }) => {
       // Sort by last_seen descending (newest first); fall back to volume
       if (a.last_seen && b.last_seen) return b.last_seen.localeCompare(a.last_seen);
       return b.total_usd - a.total_usd;
     })
-    .map((f) => {
-      const from = COUNTRY_COORDS[f.from_country];
-      const to = COUNTRY_COORDS[f.to_country];
+    .map(({ f, from, to }) => {
       const symbol = f.token_symbol.toUpperCase();
-      const color = TOKEN_COLORS[symbol] || "#ffffff";
+      const color = tokenColor(symbol);
       const normalizedUsd = f.total_usd / maxUsd;
       const stroke = 0.3 + normalizedUsd * 3;
 
@@ -59,111 +73,379 @@ function flowsToArcs(flows: StablecoinFlow[]): ArcData[] {
         endLng: to.lng,
         color,
         stroke,
-        label: `${f.from_country} → ${f.to_country}: $${(f.total_usd / 1e6).toFixed(1)}M ${f.token_symbol}`,
+        label: `${from.name} → ${to.name}: $${(f.total_usd / 1e6).toFixed(1)}M ${f.token_symbol}`,
         totalUsd: f.total_usd,
         tokenSymbol: f.token_symbol,
-        fromCountry: f.from_country,
-        toCountry: f.to_country,
+        fromCountry: from.name,
+        toCountry: to.name,
         transferCount: f.transfer_count,
         dashOffset: Math.random(),
         lastSeen: f.last_seen || undefined,
       };
     });
-}
-
-function walletDataToArcs(data: WalletData): ArcData[] {
-  const chainInfo = CHAIN_COORDS[data.chain.toLowerCase()];
-  if (!chainInfo) return [];
 
-  const walletLat = chainInfo.lat;
-  const walletLng = chainInfo.lng;
+  return { arcs, unmapped };
+}
 
-  const maxTransfers = Math.max(
-    ...data.counterparties.map((c) => c.transferCount),
-    1
-  );
+function bridgesToArcs(flows: BridgeFlow[]): ArcData[] {
+  const maxUsd = Math.max(...flows.map((f) => f.total_usd), 1);
 
-  const unsorted = data.counterparties
-    .map((cp) => {
-      const pos = resolveCounterpartyPosition(cp.address, cp.chain, cp.entity);
-      const category = cp.entity?.category?.toLowerCase() ?? "unknown";
-      const color = CATEGORY_COLORS[category] ?? CATEGORY_COLORS.unknown;
-      const normalized = cp.transferCount / maxTransfers;
-      const stroke = 0.5 + normalized * 2.5;
-      const totalValue = cp.totalSent + cp.totalReceived;
-      const entityName = cp.entity?.name || `${cp.address.slice(0, 6)}...${cp.address.slice(-4)}`;
-      const isSend = cp.totalSent > cp.totalReceived;
+  return flows
+    .filter((f) => {
+      const from = CHAINS[f.source_chain];
+      const to = CHAINS[f.destination_chain];
+      return from && to && f.source_chain !== f.destination_chain;
+    })
+    .sort((a, b) => b.total_usd - a.total_usd)
+    .map((f) => {
+      const from = CHAINS[f.source_chain];
+      const to = CHAINS[f.destination_chain];
+      const normalizedUsd = f.total_usd / maxUsd;
+      const stroke = 0.3 + normalizedUsd * 3;
 
       return {
-        startLat: isSend ? walletLat : pos.lat,
-        startLng: isSend ? walletLng : pos.lng,
-        endLat: isSend ? pos.lat : walletLat,
-        endLng: isSend ? pos.lng : walletLng,
-        color,
+        startLat: from.lat,
+        startLng: from.lng,
+        endLat: to.lat,
+        endLng: to.lng,
+        color: from.color,
         stroke,
-        label: `${isSend ? "→" : "←"} ${entityName}: ${cp.transferCount} transfers (${cp.tokens.join(", ")})`,
-        totalUsd: totalValue,
-        tokenSymbol: cp.tokens[0] || "ETH",
-        fromCountry: isSend ? data.address.slice(0, 8) : pos.label,
-        toCountry: isSend ? pos.label : data.address.slice(0, 8),
-        transferCount: cp.transferCount,
+        label: `${from.label} → ${to.label}: $${(f.total_usd / 1e6).toFixed(1)}M ${f.token_symbol}`,
+        totalUsd: f.total_usd,
+        tokenSymbol: f.token_symbol,
+        fromCountry: from.label,
+        toCountry: to.label,
+        transferCount: f.transfer_count,
         dashOffset: Math.random(),
-        firstSeen: cp.firstSeen,
       };
-    })
-    .slice(0, 150);
-
-  // Sort by firstSeen ascending (undefined goes last)
-  return unsorted.sort((a, b) => {
-    if (!a.firstSeen && !b.firstSeen) return 0;
-    if (!a.firstSeen) return 1;
-    if (!b.firstSeen) return -1;
-    return a.firstSeen.localeCompare(b.firstSeen);
-  });
+    });
 }
 
-function makeDefaultStablecoinDateRange(): DateRange {
-  // Snap to current hour boundary so cache key stays stable
-  const now = new Date();
-  const end = new Date(Math.floor(now.getTime() / (3600 * 1000)) * 3600 * 1000);
-  const start = new Date(end.getTime() - 24 * 3600 * 1000);
-  return {
-    startDate: start.toISOString().replace("T", " ").slice(0, 19),
-    endDate: end.toISOString().replace("T", " ").slice(0, 19),
+// ── Async query jobs ──
+
+const JOB_POLL_MS = 2000;
+
+// Typical Allium run times, used to pace the loader while a run is in progress
+const EXPECTED_FLOWS_MS = 35000;
+const EXPECTED_BRIDGES_MS = 10000;
+
+async function readJobResponse(res: Response): Promise<QueryJobStatus> {
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+  return body as QueryJobStatus;
+}
+
+/**
+ * Start a query via the route's async mode and poll /api/jobs/:id until it
+ * finishes, reporting each status along the way. Resolves with the rows the
+ * route already validated and normalized. Aborting `signal` stops the polling.
+ */
+async function fetchQueryJob<T>(
+  url: string,
+  onProgress?: (job: QueryJobStatus) => void,
+  signal?: AbortSignal
+): Promise<RowsResponse<T>> {
+  let job = await readJobResponse(await fetch(`${url}&async=1`, { signal }));
+  while (job.status !== "success") {
+    if (job.status === "failed" || job.status === "canceled" || !job.jobId) {
+      throw new Error(job.error || `Query ${job.status}`);
+    }
+    onProgress?.(job);
+    await new Promise((r) => setTimeout(r, JOB_POLL_MS));
+    signal?.throwIfAborted();
+    job = await readJobResponse(await fetch(`/api/jobs/${encodeURIComponent(job.jobId)}`, { signal }));
+  }
+  onProgress?.(job);
+  return (job.result as RowsResponse<T> | undefined) ?? { data: [], rejected: 0 };
+}
+
+/**
+ * Abort the request `ref` tracks, if any, and track a new one in its place.
+ * Callers drop whatever an aborted request resolves or throws, so a slower
+ * earlier response never lands over a newer selection.
+ */
+function replaceRequest(ref: { current: AbortController | null }): AbortSignal {
+  ref.current?.abort();
+  ref.current = new AbortController();
+  return ref.current.signal;
+}
+
+/**
+ * Map a job status onto 0–1 loader progress. Allium only reports stages, so
+ * the running stage eases toward 95% over the query's typical duration.
+ */
+function jobProgress(job: QueryJobStatus | null, expectedMs: number): number | null {
+  if (!job) return null;
+  switch (job.status) {
+    case "success":
+      return 1;
+    case "created":
+    case "queued":
+      return 0.1;
+    case "running":
+      return 0.15 + 0.8 * (1 - Math.exp(-job.elapsedMs / expectedMs));
+    default:
+      return null;
+  }
+}
+
+export type ActiveView = "stablecoins" | "bridges" | "wallet";
+
+export interface WalletQuery {
+  address: string;
+  chain: string;
+  range: DateRange | null; // null for the wallet's whole history
+  limit: number;
+}
+
+const DEFAULT_WALLET_QUERY: WalletQuery = {
+  address: "0xdbf5e9c5206d0db70a90108bf936da60221dc080",
+  chain: "ethereum",
+  range: null,
+  limit: 50,
+};
+
+function walletApiUrl(query: WalletQuery): string {
+  const params = new URLSearchParams({ address: query.address, chain: query.chain, limit: String(query.limit) });
+  if (query.range) {
+    params.set("start_date", query.range.startDate);
+    params.set("end_date", query.range.endDate);
+  }
+  return `/api/wallet?${params}`;
+}
+
+const DEFAULT_STABLECOIN_HOURS = 24;
+const DEFAULT_BRIDGE_HOURS = 1;
+
+// Live windows roll a little after each hour boundary so the new hour has landed
+const LIVE_REFRESH_GRACE_MS = 60 * 1000;
+// A failed live refresh is retried this long after it fails, until one succeeds
+const LIVE_REFRESH_RETRY_MS = 60 * 1000;
+
+// ── URL query string sync ──
+//
+// ?view=stablecoins|bridges|wallet
+// &start=2025-01-01T00:00:00Z&end=…   fixed stablecoin range (omitted while live)
+// &hours=168                          live stablecoin window other than the 24h default
+// &country=Brazil                     stablecoin country filter
+// &bridge_start=…&bridge_end=…        fixed bridge range (omitted while live)
+// &bridge_hours=24                    live bridge window other than the 1h default
+// &address=0x…&chain=base             searched wallet (omitted for the default wallet)
+// &wallet_start=…&wallet_end=…        wallet time window (omitted for all time)
+// &wallet_limit=100                   wallet counterparty limit other than the default
+
+const URL_VIEWS: ActiveView[] = ["stablecoins", "bridges", "wallet"];
+
+interface UrlState {
+  view: ActiveView;
+  range: DateRange;
+  isLive: boolean;
+  country: string | null;
+  bridgeRange: DateRange;
+  bridgeIsLive: boolean;
+  wallet: WalletQuery;
+}
+
+function fromUrlDate(value: string | null): string | null {
+  if (!value) return null;
+  const normalized = /[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : value.replace(" ", "T") + "Z";
+  const ms = new Date(normalized).getTime();
+  if (Number.isNaN(ms)) return null;
+  return new Date(ms).toISOString().replace("T", " ").slice(0, 19);
+}
+
+function toUrlDate(value: string): string {
+  return value.replace(" ", "T") + "Z";
+}
+
+function rangeHours(range: DateRange): number {
+  const startMs = new Date(toUrlDate(range.startDate)).getTime();
+  const endMs = new Date(toUrlDate(range.endDate)).getTime();
+  return Math.round((endMs - startMs) / (3600 * 1000));
+}
+
+// A fixed range from `<prefix>start`/`<prefix>end`, else a live `<prefix>hours` window
+function readUrlRange(params: URLSearchParams, prefix: string, defaultHours: number): { range: DateRange; isLive: boolean } {
+  const start = fromUrlDate(params.get(`${prefix}start`));
+  const end = fromUrlDate(params.get(`${prefix}end`));
+  if (start && end && start < end) return { range: { startDate: start, endDate: end }, isLive: false };
+  const hours = Number(params.get(`${prefix}hours`));
+  return { range: presetRange(Number.isFinite(hours) && hours > 0 ? hours : defaultHours), isLive: true };
+}
+
+function writeUrlRange(
+  params: URLSearchParams,
+  prefix: string,
+  defaultHours: number,
+  range: DateRange,
+  isLive: boolean
+): void {
+  if (!isLive) {
+    params.set(`${prefix}start`, toUrlDate(range.startDate));
+    params.set(`${prefix}end`, toUrlDate(range.endDate));
+  } else {
+    const hours = rangeHours(range);
+    if (hours !== defaultHours) params.set(`${prefix}hours`, String(hours));
+  }
+}
+
+function isSameUrlRange(a: { range: DateRange; isLive: boolean }, b: { range: DateRange; isLive: boolean }): boolean {
+  return a.isLive
+    ? b.isLive && rangeHours(a.range) === rangeHours(b.range)
+    : !b.isLive && a.range.startDate === b.range.startDate && a.range.endDate === b.range.endDate;
+}
+
+function readUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+
+  const viewParam = params.get("view") as ActiveView | null;
+  const view = viewParam && URL_VIEWS.includes(viewParam) ? viewParam : "stablecoins";
+
+  const { range, isLive } = readUrlRange(params, "", DEFAULT_STABLECOIN_HOURS);
+  const countryParam = params.get("country")?.trim();
+  const country = countryParam ? canonicalCountry(countryParam) : null;
+  const bridge = readUrlRange(params, "bridge_", DEFAULT_BRIDGE_HOURS);
+
+  const address = params.get("address")?.trim();
+  const chainParam = params.get("chain")?.toLowerCase();
+  const chain = chainParam && (CHAINS[chainParam] || chainParam === ALL_EVM) ? chainParam : DEFAULT_WALLET_QUERY.chain;
+  const walletStart = fromUrlDate(params.get("wallet_start"));
+  const walletEnd = fromUrlDate(params.get("wallet_end"));
+  const walletLimit = Number(params.get("wallet_limit"));
+  const wallet: WalletQuery = {
+    ...(address ? { address, chain } : DEFAULT_WALLET_QUERY),
+    range: walletStart && walletEnd && walletStart < walletEnd ? { startDate: walletStart, endDate: walletEnd } : null,
+    limit: WALLET_LIMITS.includes(walletLimit) ? walletLimit : DEFAULT_WALLET_QUERY.limit,
   };
+
+  return { view, range, isLive, country, bridgeRange: bridge.range, bridgeIsLive: bridge.isLive, wallet };
 }
 
-export type ActiveView = "stablecoins" | "wallet";
+function buildUrlSearch(state: Omit<UrlState, "view"> & { view?: ActiveView }): string {
+  const params = new URLSearchParams();
+  if (state.view) params.set("view", state.view);
+  writeUrlRange(params, "", DEFAULT_STABLECOIN_HOURS, state.range, state.isLive);
+  if (state.country) params.set("country", state.country);
+  writeUrlRange(params, "bridge_", DEFAULT_BRIDGE_HOURS, state.bridgeRange, state.bridgeIsLive);
+  if (!isSameWallet(state.wallet, DEFAULT_WALLET_QUERY)) {
+    params.set("address", state.wallet.address);
+    params.set("chain", state.wallet.chain);
+  }
+  if (state.wallet.range) {
+    params.set("wallet_start", toUrlDate(state.wallet.range.startDate));
+    params.set("wallet_end", toUrlDate(state.wallet.range.endDate));
+  }
+  if (state.wallet.limit !== DEFAULT_WALLET_QUERY.limit) params.set("wallet_limit", String(state.wallet.limit));
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+function isSameWallet(a: WalletQuery, b: WalletQuery): boolean {
+  return a.chain === b.chain && a.address.toLowerCase() === b.address.toLowerCase();
+}
+
+function isSameWalletQuery(a: WalletQuery, b: WalletQuery): boolean {
+  return (
+    isSameWallet(a, b) &&
+    a.limit === b.limit &&
+    a.range?.startDate === b.range?.startDate &&
+    a.range?.endDate === b.range?.endDate
+  );
+}
+
+// How wallet counterparties are drawn and counted: one node per address, or one per labeled project
+export type WalletGrouping = "address" | "entity";
 
 export default function Home() {
   const [stablecoinArcs, setStablecoinArcs] = useState<ArcData[]>([]);
+  const [bridgeArcs, setBridgeArcs] = useState<ArcData[]>([]);
   const [walletArcs, setWalletArcs] = useState<ArcData[]>([]);
   const [activeView, setActiveView] = useState<ActiveView>("stablecoins");
   const [stablecoinLoading, setStablecoinLoading] = useState(true);
+  const [bridgeLoading, setBridgeLoading] = useState(true);
   const [walletLoading, setWalletLoading] = useState(false);
   const [stablecoinError, setStablecoinError] = useState<string | null>(null);
+  const [bridgeError, setBridgeError] = useState<string | null>(null);
+  const [stablecoinJob, setStablecoinJob] = useState<QueryJobStatus | null>(null);
+  const [bridgeJob, setBridgeJob] = useState<QueryJobStatus | null>(null);
   const [walletError, setWalletError] = useState<string | null>(null);
-  const [walletData, setWalletData] = useState<WalletData | null>(null);
+  const [walletHops, setWalletHops] = useState<WalletHop[]>([]);
+  const [walletExpanding, setWalletExpanding] = useState<string | null>(null);
+  // Bumped per searched wallet and per restart; expansions keep it so the Globe merges them in
+  const [walletRun, setWalletRun] = useState(0);
+  const [walletQuery, setWalletQuery] = useState<WalletQuery>(DEFAULT_WALLET_QUERY);
+  const walletQueryRef = useRef(walletQuery);
+  walletQueryRef.current = walletQuery;
   const [, setHoveredArc] = useState<ArcData | null>(null);
+  const [selectedArc, setSelectedArc] = useState<ArcData | null>(null);
+  const [countryFilter, setCountryFilter] = useState<string | null>(null);
+  const [colorMode, setColorMode] = useState<GlobeColorMode>("token");
+  const [arcMode, setArcMode] = useState<ArcMode>("stream");
+  const [walletGrouping, setWalletGrouping] = useState<WalletGrouping>("address");
   const [spawnIndex, setSpawnIndex] = useState(0);
   const [timelinePlaying, setTimelinePlaying] = useState(true);
   const [timelineProgress, setTimelineProgress] = useState<{ index: number; total: number }>({ index: 0, total: 0 });
   const [timelineSpeed, setTimelineSpeed] = useState<1 | 2 | 5>(1);
   const [seekTo, setSeekTo] = useState<number | null>(null);
   const walletArcsRef = useRef<ArcData[]>([]);
+  const walletHopsRef = useRef<WalletHop[]>([]);
+  // The in-flight request of each kind, null once it settles (see replaceRequest)
+  const flowsRequestRef = useRef<AbortController | null>(null);
+  const bridgesRequestRef = useRef<AbortController | null>(null);
+  const walletRequestRef = useRef<AbortController | null>(null);
+  // In-flight expansions by node key; a new search or a collapse aborts the ones it orphans
+  const expandRequestsRef = useRef(new Map<string, AbortController>());
 
   // Date range state
-  const [stablecoinDateRange, setStablecoinDateRange] = useState<DateRange>(makeDefaultStablecoinDateRange);
+  const [stablecoinDateRange, setStablecoinDateRange] = useState<DateRange>(() => presetRange(DEFAULT_STABLECOIN_HOURS));
   const [stablecoinIsLive, setStablecoinIsLive] = useState(true);
+  const [stablecoinUpdatedAt, setStablecoinUpdatedAt] = useState<number | null>(null);
+  // Last failed live refresh; a new object per failure so each one schedules a retry
+  const [stablecoinRefreshFailure, setStablecoinRefreshFailure] = useState<{ error: string } | null>(null);
+  const [stablecoinUnmapped, setStablecoinUnmapped] = useState<UnmappedFlows | null>(null);
+  const [bridgeDateRange, setBridgeDateRange] = useState<DateRange>(() => presetRange(DEFAULT_BRIDGE_HOURS));
+  const [bridgeIsLive, setBridgeIsLive] = useState(true);
 
   const handleArcHover = useCallback((arc: ArcData | null) => {
     setHoveredArc(arc);
   }, []);
 
+  const handleArcSelect = useCallback((arc: ArcData | null) => {
+    setSelectedArc(arc);
+  }, []);
+
+  const handleCountrySelect = useCallback((country: string) => {
+    setCountryFilter((prev) => (prev && isSameCountry(prev, country) ? null : country));
+  }, []);
+
+  const handleClearCountryFilter = useCallback(() => {
+    setCountryFilter(null);
+  }, []);
+
+  const handleColorModeChange = useCallback((mode: GlobeColorMode) => {
+    setColorMode(mode);
+  }, []);
+
+  const handleArcModeChange = useCallback((mode: ArcMode) => {
+    setArcMode(mode);
+  }, []);
+
+  // Regrouping redraws the whole graph, so the timeline starts over
+  const handleWalletGroupingChange = useCallback((grouping: WalletGrouping) => {
+    setWalletGrouping(grouping);
+    setWalletRun((run) => run + 1);
+    setTimelinePlaying(true);
+  }, []);
+
   const handleViewChange = useCallback((view: ActiveView) => {
     setActiveView(view);
   }, []);
 
+  // A pinned corridor only makes sense within the view it was picked from
+  useEffect(() => {
+    setSelectedArc(null);
+  }, [activeView]);
+
   const handleSpawnProgress = useCallback((index: number, total: number) => {
     setSpawnIndex(index);
     setTimelineProgress({ index, total });
@@ -177,6 +459,7 @@ export default function Home() {
     // Briefly clear arcs to trigger Globe reset, then restore
     const saved = walletArcsRef.current;
     setWalletArcs([]);
+    setWalletRun((run) => run + 1);
     setTimelinePlaying(true);
     setTimelineProgress({ index: 0, total: saved.length });
     requestAnimationFrame(() => {
@@ -196,63 +479,178 @@ export default function Home() {
     requestAnimationFrame(() => setSeekTo(null));
   }, []);
 
-  const fetchWallet = useCallback(async (address: string, chain: string) => {
+  // Without `filters` the new wallet keeps the current time window and limit
+  const fetchWallet = useCallback(async (
+    address: string,
+    chain: string,
+    filters?: Pick<WalletQuery, "range" | "limit">
+  ) => {
+    const { range, limit } = filters ?? walletQueryRef.current;
+    const query: WalletQuery = { address, chain, range, limit };
+    setWalletQuery(query);
     setWalletLoading(true);
     setWalletError(null);
-    setWalletData(null);
-    setWalletArcs([]);
+    setWalletHops([]);
+    setWalletExpanding(null);
     setTimelinePlaying(true);
     setTimelineProgress({ index: 0, total: 0 });
     setTimelineSpeed(1);
 
+    const signal = replaceRequest(walletRequestRef);
+    for (const expansion of expandRequestsRef.current.values()) expansion.abort();
+    expandRequestsRef.current.clear();
     try {
-      const res = await fetch(
-        `/api/wallet?address=${encodeURIComponent(address)}&chain=${encodeURIComponent(chain)}&limit=50`
-      );
+      const res = await fetch(walletApiUrl(query), { signal });
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
         throw new Error(body.error || `HTTP ${res.status}`);
       }
       const data: WalletData = await res.json();
-      setWalletData(data);
-      const arcs = walletDataToArcs(data);
-      walletArcsRef.current = arcs;
-      setWalletArcs(arcs);
+      if (signal.aborted) return;
+      setWalletHops([{ data, depth: 0, parent: null }]);
+      setWalletRun((run) => run + 1);
     } catch (err) {
+      if (signal.aborted) return;
       setWalletError(err instanceof Error ? err.message : "Failed to load wallet data");
     } finally {
-      setWalletLoading(false);
+      if (!signal.aborted) {
+        setWalletLoading(false);
+        walletRequestRef.current = null;
+      }
     }
   }, []);
 
-  // Fetch stablecoin data
-  const fetchFlows = useCallback(async (dateRange?: DateRange) => {
-    const range = dateRange || stablecoinDateRange;
+  // Expand a counterparty into its own counterparty set, adding a hop to the
+  // graph without resetting what's already on the globe
+  const expandWallet = useCallback(async (address: string, chain: string) => {
+    const key = nodeKey(address, chain);
+    const hops = walletHopsRef.current;
+    const expansions = expandRequestsRef.current;
+    if (hops.length === 0 || expansions.has(key) || hops.some((h) => nodeKey(h.data.address, h.data.chain) === key)) {
+      return;
+    }
+    const controller = new AbortController();
+    const { signal } = controller;
+    expansions.set(key, controller);
+
+    setWalletExpanding(key);
+    setWalletError(null);
     try {
-      setStablecoinLoading(true);
-      const url = `/api/flows?start_date=${encodeURIComponent(range.startDate)}&end_date=${encodeURIComponent(range.endDate)}`;
-      const res = await fetch(url);
+      // Expansions share the searched wallet's time window and limit
+      const { range, limit } = walletQueryRef.current;
+      const res = await fetch(walletApiUrl({ address, chain, range, limit }), { signal });
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
         throw new Error(body.error || `HTTP ${res.status}`);
       }
-      const result = await res.json();
-      const flows: StablecoinFlow[] = (result.data || []).map(
-        (row: Record<string, unknown>) => ({
-          from_country: row.FROM_COUNTRY || row.from_country,
-          to_country: row.TO_COUNTRY || row.to_country,
-          token_symbol: row.TOKEN_SYMBOL || row.token_symbol,
-          transfer_count: Number(row.TRANSFER_COUNT || row.transfer_count || 0),
-          total_usd: Number(row.TOTAL_USD || row.total_usd || 0),
-          last_seen: String(row.LAST_SEEN || row.last_seen || ""),
-        })
-      );
-      setStablecoinArcs(flowsToArcs(flows));
+      const data: WalletData = await res.json();
+      if (signal.aborted) return;
+      // Attached by the key it was requested for, whatever else landed meanwhile
+      setWalletHops((prev) => {
+        if (prev.length === 0 || prev.some((h) => nodeKey(h.data.address, h.data.chain) === key)) return prev;
+        const parent = prev.find((h) => h.data.counterparties.some((cp) => nodeKey(cp.address, cp.chain) === key));
+        return [
+          ...prev,
+          {
+            data,
+            depth: parent ? parent.depth + 1 : 1,
+            parent: parent ? nodeKey(parent.data.address, parent.data.chain) : null,
+          },
+        ];
+      });
+      setTimelinePlaying(true);
+    } catch (err) {
+      if (signal.aborted) return;
+      setWalletError(err instanceof Error ? err.message : "Failed to expand wallet");
+    } finally {
+      if (expansions.get(key) === controller) expansions.delete(key);
+      if (!expansions.has(key)) setWalletExpanding((current) => (current === key ? null : current));
+    }
+  }, []);
+
+  const handleWalletCollapse = useCallback((key: string) => {
+    setWalletHops((prev) => collapseHop(prev, key));
+    // An expansion of a node no remaining hop lists would land detached from the graph
+    const remaining = collapseHop(walletHopsRef.current, key);
+    for (const [pending, controller] of expandRequestsRef.current) {
+      if (!remaining.some((h) => h.data.counterparties.some((cp) => nodeKey(cp.address, cp.chain) === pending))) {
+        controller.abort();
+        expandRequestsRef.current.delete(pending);
+      }
+    }
+  }, []);
+
+  // Rebuild the graph whenever a hop is added or collapsed, or the grouping changes
+  const walletGraph = useMemo(
+    () => buildWalletGraph(walletHops, { byEntity: walletGrouping === "entity" }),
+    [walletHops, walletGrouping]
+  );
+  useEffect(() => {
+    walletHopsRef.current = walletHops;
+    walletArcsRef.current = walletGraph.arcs;
+    setWalletArcs(walletGraph.arcs);
+  }, [walletHops, walletGraph]);
+
+  const walletData = walletHops[0]?.data ?? null;
+
+  const handleWalletFiltersChange = useCallback((range: DateRange | null, limit: number) => {
+    const { address, chain } = walletQueryRef.current;
+    fetchWallet(address, chain, { range, limit });
+  }, [fetchWallet]);
+
+  // "Search this wallet" from the selected-arc card
+  const handleSelectedArcSearch = useCallback((address: string, chain: string) => {
+    setSelectedArc(null);
+    fetchWallet(address, chain);
+  }, [fetchWallet]);
+
+  // Most recently spawned stablecoin arc; live refreshes insert new corridors after it
+  const streamAnchorRef = useRef<ArcData | null>(null);
+
+  // Fetch stablecoin data. `merge` is the live-mode refresh: no loading state,
+  // and new corridors join the running stream rather than replacing it.
+  const fetchFlows = useCallback(async (dateRange?: DateRange, { merge: mergeRequested = false } = {}) => {
+    const range = dateRange || stablecoinDateRange;
+    // A refresh that lands while a full load is still running replaces that
+    // load, loader and all, rather than leaving it loading forever
+    const merge = mergeRequested && !flowsRequestRef.current;
+    const signal = replaceRequest(flowsRequestRef);
+    try {
+      if (!merge) {
+        setStablecoinLoading(true);
+        setStablecoinRefreshFailure(null);
+      }
+      const url = `/api/flows?start_date=${encodeURIComponent(range.startDate)}&end_date=${encodeURIComponent(range.endDate)}`;
+      const { data: flows } = await fetchQueryJob<StablecoinFlow>(url, merge ? undefined : setStablecoinJob, signal);
+      if (signal.aborted) return;
+      const { arcs, unmapped } = flowsToArcs(flows);
+      setStablecoinUnmapped(unmapped);
+      if (merge) {
+        setStablecoinArcs((prev) => mergeArcs(prev, arcs, streamAnchorRef.current));
+      } else {
+        setStablecoinArcs(arcs);
+      }
+      setStablecoinUpdatedAt(Date.now());
       setStablecoinError(null);
+      setStablecoinRefreshFailure(null);
     } catch (err) {
-      setStablecoinError(err instanceof Error ? err.message : "Failed to load stablecoin data");
+      if (signal.aborted) return;
+      const message = err instanceof Error ? err.message : "Failed to load stablecoin data";
+      // A failed background refresh keeps the current window on screen, says
+      // so beside "last updated" and is retried shortly
+      if (merge) {
+        setStablecoinRefreshFailure({ error: message });
+      } else {
+        setStablecoinError(message);
+      }
     } finally {
-      setStablecoinLoading(false);
+      if (!signal.aborted) {
+        flowsRequestRef.current = null;
+        if (!merge) {
+          setStablecoinLoading(false);
+          setStablecoinJob(null);
+        }
+      }
     }
   }, [stablecoinDateRange]);
 
@@ -264,23 +662,168 @@ export default function Home() {
     fetchFlows(range);
   }, [fetchFlows]);
 
-  // Fetch stablecoin and default wallet data on mount
+  // Live mode: roll the window forward on each hour boundary and merge the refetch
+  useEffect(() => {
+    if (!stablecoinIsLive) return;
+    const hours = rangeHours(stablecoinDateRange);
+    const nextHourMs = new Date(toUrlDate(stablecoinDateRange.endDate)).getTime() + 3600 * 1000;
+    const timer = setTimeout(() => {
+      const range = presetRange(hours);
+      setStablecoinDateRange(range);
+      fetchFlows(range, { merge: true });
+    }, Math.max(nextHourMs - Date.now(), 0) + LIVE_REFRESH_GRACE_MS);
+    return () => clearTimeout(timer);
+  }, [stablecoinIsLive, stablecoinDateRange, fetchFlows]);
+
+  // Live mode: retry a failed refresh of the current window
+  useEffect(() => {
+    if (!stablecoinIsLive || !stablecoinRefreshFailure) return;
+    const timer = setTimeout(() => fetchFlows(undefined, { merge: true }), LIVE_REFRESH_RETRY_MS);
+    return () => clearTimeout(timer);
+  }, [stablecoinIsLive, stablecoinRefreshFailure, fetchFlows]);
+
+  // Fetch bridge corridor data
+  const fetchBridges = useCallback(async (dateRange?: DateRange) => {
+    const range = dateRange || bridgeDateRange;
+    const signal = replaceRequest(bridgesRequestRef);
+    try {
+      setBridgeLoading(true);
+      const url = `/api/bridges?start_date=${encodeURIComponent(range.startDate)}&end_date=${encodeURIComponent(range.endDate)}`;
+      const { data: flows } = await fetchQueryJob<BridgeFlow>(url, setBridgeJob, signal);
+      if (signal.aborted) return;
+      setBridgeArcs(bridgesToArcs(flows));
+      setBridgeError(null);
+    } catch (err) {
+      if (signal.aborted) return;
+      setBridgeError(err instanceof Error ? err.message : "Failed to load bridge data");
+    } finally {
+      if (!signal.aborted) {
+        setBridgeLoading(false);
+        setBridgeJob(null);
+        bridgesRequestRef.current = null;
+      }
+    }
+  }, [bridgeDateRange]);
+
+  // Handle bridge date range change
+  const handleBridgeDateRangeChange = useCallback((range: DateRange, isLive: boolean) => {
+    setBridgeDateRange(range);
+    setBridgeIsLive(isLive);
+    setBridgeLoading(true);
+    fetchBridges(range);
+  }, [fetchBridges]);
+
+  // Mirror view, stablecoin range and country filter, bridge range and wallet
+  // into the query string. Data changes push a history entry; view changes
+  // (which also fire while scrolling the sidebar) only replace the current one.
+  const urlReadyRef = useRef(false);
+  useEffect(() => {
+    if (!urlReadyRef.current) return;
+    const state = {
+      view: activeView,
+      range: stablecoinDateRange,
+      isLive: stablecoinIsLive,
+      country: countryFilter,
+      bridgeRange: bridgeDateRange,
+      bridgeIsLive,
+      wallet: walletQuery,
+    };
+    const nextSearch = buildUrlSearch(state);
+    const current = window.location.search;
+    if (nextSearch === current) return;
+    const currentState = readUrlState(current);
+    const dataChanged = buildUrlSearch({ ...state, view: undefined }) !== buildUrlSearch({ ...currentState, view: undefined });
+    const url = window.location.pathname + nextSearch + window.location.hash;
+    if (dataChanged) {
+      window.history.pushState(null, "", url);
+    } else {
+      window.history.replaceState(null, "", url);
+    }
+  }, [activeView, stablecoinDateRange, stablecoinIsLive, countryFilter, bridgeDateRange, bridgeIsLive, walletQuery]);
+
+  // Back/forward: re-apply whatever the URL now says
+  const stablecoinRangeRef = useRef({ range: stablecoinDateRange, isLive: stablecoinIsLive });
+  stablecoinRangeRef.current = { range: stablecoinDateRange, isLive: stablecoinIsLive };
+  const bridgeRangeRef = useRef({ range: bridgeDateRange, isLive: bridgeIsLive });
+  bridgeRangeRef.current = { range: bridgeDateRange, isLive: bridgeIsLive };
+  useEffect(() => {
+    const onPopState = () => {
+      const url = readUrlState(window.location.search);
+      setActiveView(url.view);
+      if (!isSameUrlRange(url, stablecoinRangeRef.current)) {
+        handleStablecoinDateRangeChange(url.range, url.isLive);
+      }
+      setCountryFilter(url.country);
+      const bridge = { range: url.bridgeRange, isLive: url.bridgeIsLive };
+      if (!isSameUrlRange(bridge, bridgeRangeRef.current)) {
+        handleBridgeDateRangeChange(bridge.range, bridge.isLive);
+      }
+      if (!isSameWalletQuery(url.wallet, walletQueryRef.current)) {
+        fetchWallet(url.wallet.address, url.wallet.chain, url.wallet);
+      }
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [handleStablecoinDateRangeChange, handleBridgeDateRangeChange, fetchWallet]);
+
+  // Fetch stablecoin, bridge and wallet data on mount, honouring any shared URL
   useEffect(() => {
     // Fire-and-forget: warm server cache for default queries
     fetch("/api/prefetch").catch(() => {});
-    fetchFlows();
-    fetchWallet("0xdbf5e9c5206d0db70a90108bf936da60221dc080", "ethereum");
+    const url = readUrlState(window.location.search);
+    setActiveView(url.view);
+    setStablecoinDateRange(url.range);
+    setStablecoinIsLive(url.isLive);
+    setCountryFilter(url.country);
+    setBridgeDateRange(url.bridgeRange);
+    setBridgeIsLive(url.bridgeIsLive);
+    fetchFlows(url.range);
+    fetchBridges(url.bridgeRange);
+    fetchWallet(url.wallet.address, url.wallet.chain, url.wallet);
+    urlReadyRef.current = true;
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Memoized so the Globe only resets when the filter or data actually change
+  const filteredStablecoinArcs = useMemo(() => {
+    if (!countryFilter) return stablecoinArcs;
+    return stablecoinArcs.filter(
+      (a) => isSameCountry(a.fromCountry, countryFilter) || isSameCountry(a.toCountry, countryFilter)
+    );
+  }, [stablecoinArcs, countryFilter]);
+
+  // Net flows use the unfiltered range so a country filter doesn't skew the scale
+  const netFlows = useMemo(() => computeNetFlows(stablecoinArcs), [stablecoinArcs]);
+
   const activeArcs =
     activeView === "stablecoins"
-      ? stablecoinArcs
-      : walletArcs;
+      ? filteredStablecoinArcs
+      : activeView === "bridges"
+        ? bridgeArcs
+        : walletArcs;
+
+  streamAnchorRef.current = activeView === "stablecoins" ? (activeArcs[spawnIndex - 1] ?? null) : null;
+
+  // Live refreshes keep the same key so the Globe merges instead of resetting
+  const stablecoinDataKey = [
+    "stablecoins",
+    stablecoinIsLive
+      ? `live:${rangeHours(stablecoinDateRange)}`
+      : `${stablecoinDateRange.startDate}|${stablecoinDateRange.endDate}`,
+    countryFilter ?? "",
+  ].join(":");
 
   const isLoading =
     activeView === "stablecoins"
       ? stablecoinLoading
-      : walletLoading;
+      : activeView === "bridges"
+        ? bridgeLoading
+        : walletLoading;
+
+  // Wallet lookups don't go through the job API, so they have no progress to show
+  const activeJob = activeView === "stablecoins" ? stablecoinJob : activeView === "bridges" ? bridgeJob : null;
+  const loadProgress = isLoading
+    ? jobProgress(activeJob, activeView === "stablecoins" ? EXPECTED_FLOWS_MS : EXPECTED_BRIDGES_MS)
+    : null;
 
   const derivedSpawnInterval = Math.round(400 / timelineSpeed);
 
@@ -296,20 +839,90 @@ export default function Home() {
         <Globe
           arcs={activeArcs}
           onArcHover={handleArcHover}
+          onArcSelect={handleArcSelect}
           loop={activeView !== "wallet"}
           paused={activeView === "wallet" ? !timelinePlaying : false}
           spawnInterval={activeView === "wallet" ? derivedSpawnInterval : 400}
           onSpawnProgress={handleSpawnProgress}
           seekTo={activeView === "wallet" ? seekTo : null}
+          selectedCountry={activeView === "stablecoins" ? countryFilter : null}
+          onCountrySelect={activeView === "stablecoins" ? handleCountrySelect : undefined}
+          selectedArc={selectedArc}
+          colorMode={activeView === "stablecoins" ? colorMode : "token"}
+          netFlows={netFlows}
+          arcMode={activeView === "stablecoins" ? arcMode : "stream"}
+          dataKey={
+            activeView === "stablecoins"
+              ? stablecoinDataKey
+              : activeView === "wallet" && walletData
+                ? `wallet:${nodeKey(walletData.address, walletData.chain)}:${walletRun}`
+                : undefined
+          }
+          loadProgress={loadProgress}
         />
 
+        {/* Selected wallet arc: explorer links for its endpoints */}
+        {activeView === "wallet" && selectedArc?.chain && (selectedArc.fromAddress || selectedArc.toAddress) && (
+          <div className="absolute bottom-6 left-5 z-10 max-w-[320px] px-3 py-2.5 rounded-md bg-[#f5f0e8]/95 border border-stone-300/60 shadow-sm">
+            <div className="flex items-start justify-between gap-3">
+              <div className="text-[11px] text-stone-700 truncate">{selectedArc.label}</div>
+              <button
+                onClick={() => handleArcSelect(null)}
+                className="text-stone-400 hover:text-stone-700 text-[12px] leading-none"
+                title="Close"
+              >
+                ×
+              </button>
+            </div>
+            <div className="mt-1.5 space-y-0.5">
+              {selectedArc.fromAddress && (
+                <div className="flex items-center gap-2 text-[10px] text-stone-400">
+                  <span className="w-6">From</span>
+                  <AddressLink
+                    address={selectedArc.fromAddress}
+                    chain={selectedArc.chain}
+                    onSearch={handleSelectedArcSearch}
+                    onExpand={expandWallet}
+                    className="text-[11px] text-stone-600"
+                  />
+                </div>
+              )}
+              {selectedArc.toAddress && (
+                <div className="flex items-center gap-2 text-[10px] text-stone-400">
+                  <span className="w-6">To</span>
+                  <AddressLink
+                    address={selectedArc.toAddress}
+                    chain={selectedArc.chain}
+                    onSearch={handleSelectedArcSearch}
+                    onExpand={expandWallet}
+                    className="text-[11px] text-stone-600"
+                  />
+                </div>
+              )}
+              {selectedArc.txHash && (
+                <div className="flex items-center gap-2 text-[10px] text-stone-400">
+                  <span className="w-6">Tx</span>
+                  <TxLink hash={selectedArc.txHash} chain={selectedArc.chain} className="text-[11px] text-stone-600" />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Loading text (no blur — onion shells provide visual loading state) */}
         {isLoading && (
           <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-10">
             <div className="text-stone-400 text-sm">
               {activeView === "stablecoins"
                 ? "Unpeeling stablecoin flows..."
-                : "Unpeeling wallet transactions..."}
+                : activeView === "bridges"
+                  ? "Unpeeling bridge flows..."
+                  : "Unpeeling wallet transactions..."}
+              {activeJob && activeJob.status !== "success" && (
+                <span className="text-stone-400/70">
+                  {" "}· {activeJob.status} {Math.round(activeJob.elapsedMs / 1000)}s
+                </span>
+              )}
             </div>
           </div>
         )}
@@ -319,14 +932,23 @@ export default function Home() {
       <Sidebar
         activeView={activeView}
         onViewChange={handleViewChange}
-        stablecoinArcs={stablecoinArcs}
+        stablecoinArcs={filteredStablecoinArcs}
+        bridgeArcs={bridgeArcs}
         walletArcs={walletArcs}
         stablecoinLoading={stablecoinLoading}
+        bridgeLoading={bridgeLoading}
         walletLoading={walletLoading}
         stablecoinError={stablecoinError}
+        bridgeError={bridgeError}
         walletError={walletError}
         walletData={walletData}
+        walletHops={walletHops}
+        walletExpanding={walletExpanding}
         onWalletSearch={fetchWallet}
+        onWalletFiltersChange={handleWalletFiltersChange}
+        onWalletExpand={expandWallet}
+        onWalletCollapse={handleWalletCollapse}
+        walletQuery={walletQuery}
         walletTimeline={{
           playing: timelinePlaying,
           progress: timelineProgress,
@@ -338,8 +960,24 @@ export default function Home() {
         onTimelineSeek={handleTimelineSeek}
         stablecoinDateRange={stablecoinDateRange}
         stablecoinIsLive={stablecoinIsLive}
+        stablecoinUpdatedAt={stablecoinUpdatedAt}
+        stablecoinRefreshError={stablecoinRefreshFailure?.error ?? null}
+        stablecoinUnmapped={stablecoinUnmapped}
         onStablecoinDateRangeChange={handleStablecoinDateRangeChange}
+        bridgeDateRange={bridgeDateRange}
+        bridgeIsLive={bridgeIsLive}
+        onBridgeDateRangeChange={handleBridgeDateRangeChange}
         spawnIndex={spawnIndex}
+        selectedArc={selectedArc}
+        onArcSelect={handleArcSelect}
+        countryFilter={countryFilter}
+        onClearCountryFilter={handleClearCountryFilter}
+        colorMode={colorMode}
+        onColorModeChange={handleColorModeChange}
+        arcMode={arcMode}
+        onArcModeChange={handleArcModeChange}
+        walletGrouping={walletGrouping}
+        onWalletGroupingChange={handleWalletGroupingChange}
       />
     </div>
   );
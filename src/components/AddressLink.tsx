@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { CHAINS, explorerAddressUrl, explorerTxUrl, shortAddress } from "@/lib/chains";
+
+const ACTION_BUTTON =
+  "w-5 h-5 flex items-center justify-center rounded hover:bg-stone-200/60 text-stone-400 hover:text-stone-700 transition-colors shrink-0";
+
+function CopyButton({ value, title }: { value: string; title: string }) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1200);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigator.clipboard?.writeText(value).then(
+      () => setCopied(true),
+      () => {}
+    );
+  };
+
+  return (
+    <button type="button" onClick={handleCopy} className={ACTION_BUTTON} title={copied ? "Copied" : title}>
+      {copied ? (
+        <svg width="10" height="10" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.8" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M2 7.5l3 3 7-7" />
+        </svg>
+      ) : (
+        <svg width="10" height="10" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round">
+          <rect x="4.5" y="4.5" width="8" height="8" rx="1.5" />
+          <path d="M9.5 4.5V3a1.5 1.5 0 0 0-1.5-1.5H3A1.5 1.5 0 0 0 1.5 3v5A1.5 1.5 0 0 0 3 9.5h1.5" />
+        </svg>
+      )}
+    </button>
+  );
+}
+
+function ExplorerIcon() {
+  return (
+    <svg className="shrink-0" width="10" height="10" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M8 1.5h4.5V6" />
+      <path d="M12.5 1.5L6.5 7.5" />
+      <path d="M11 8.5v3a1 1 0 0 1-1 1H2.5a1 1 0 0 1-1-1V4a1 1 0 0 1 1-1h3" />
+    </svg>
+  );
+}
+
+/**
+ * An address with its actions: open in the chain's block explorer, copy,
+ * (when `onSearch` is given) load it as the explored wallet, and (when
+ * `onExpand` is given) add its counterparties to the wallet graph.
+ */
+export function AddressLink({
+  address,
+  chain,
+  onSearch,
+  onExpand,
+  className = "text-[10px] text-stone-400",
+}: {
+  address: string;
+  chain: string;
+  onSearch?: (address: string, chain: string) => void;
+  onExpand?: (address: string, chain: string) => void;
+  className?: string;
+}) {
+  const url = explorerAddressUrl(chain, address);
+  const explorerName = CHAINS[chain.toLowerCase()]?.label ?? chain;
+
+  return (
+    <span className={`inline-flex items-center gap-0.5 min-w-0 ${className}`}>
+      {url ? (
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="inline-flex items-center gap-1 min-w-0 hover:text-stone-700"
+          title={`View ${address} on the ${explorerName} explorer`}
+        >
+          <span className="font-mono truncate hover:underline">{shortAddress(address)}</span>
+          <ExplorerIcon />
+        </a>
+      ) : (
+        <span className="font-mono truncate" title={address}>
+          {shortAddress(address)}
+        </span>
+      )}
+      <CopyButton value={address} title="Copy address" />
+      {onSearch && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onSearch(address, chain);
+          }}
+          className={ACTION_BUTTON}
+          title="Search this wallet"
+        >
+          <svg width="10" height="10" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round">
+            <circle cx="6" cy="6" r="4.25" />
+            <path d="M9.25 9.25L12.5 12.5" />
+          </svg>
+        </button>
+      )}
+      {onExpand && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onExpand(address, chain);
+          }}
+          className={ACTION_BUTTON}
+          title="Expand this wallet's counterparties"
+        >
+          <svg width="10" height="10" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round">
+            <circle cx="3" cy="7" r="1.75" />
+            <circle cx="11" cy="3" r="1.75" />
+            <circle cx="11" cy="11" r="1.75" />
+            <path d="M4.6 6.2L9.4 3.8M4.6 7.8L9.4 10.2" />
+          </svg>
+        </button>
+      )}
+    </span>
+  );
+}
+
+/** A transaction hash linking to the chain's explorer, with a copy action. */
+export function TxLink({
+  hash,
+  chain,
+  className = "text-[10px] text-stone-400",
+}: {
+  hash: string;
+  chain: string;
+  className?: string;
+}) {
+  const url = explorerTxUrl(chain, hash);
+
+  return (
+    <span className={`inline-flex items-center gap-0.5 min-w-0 ${className}`}>
+      {url ? (
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="inline-flex items-center gap-1 min-w-0 hover:text-stone-700"
+          title={`View transaction ${hash}`}
+        >
+          <span className="font-mono truncate hover:underline">{shortAddress(hash)}</span>
+          <ExplorerIcon />
+        </a>
+      ) : (
+        <span className="font-mono truncate" title={hash}>
+          {shortAddress(hash)}
+        </span>
+      )}
+      <CopyButton value={hash} title="Copy transaction hash" />
+    </span>
+  );
+}
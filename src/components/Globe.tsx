@@ -1,10 +1,13 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import type * as THREE_NS from "three";
-import type { ArcData } from "@/lib/types";
-import { COUNTRY_FLAGS } from "@/lib/countries";
-import { WORLD_MAP } from "@/lib/worldmap";
+import type { ArcData, ArcMode, GlobeColorMode } from "@/lib/types";
+import { shortAddress } from "@/lib/chains";
+import { countryFlag } from "@/lib/countries";
+import { countryAt, isLand, isSameCountry } from "@/lib/countrymap";
+import { arcKey, OVERVIEW_MAX_ARCS } from "@/lib/livearcs";
+import { NETFLOW_COLORS, maxAbsNetFlow, netFlowColor } from "@/lib/netflow";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type GlobeInstance = any;
@@ -69,31 +72,57 @@ interface DotPosition {
   x: number;
   y: number;
   z: number;
+  country: string | null; // registry country name, resolved for land dots only
 }
 
 interface GlobeProps {
   arcs: ArcData[];
   onArcHover?: (arc: ArcData | null) => void;
+  onArcSelect?: (arc: ArcData | null) => void;
   loop?: boolean;
   paused?: boolean;
   spawnInterval?: number;
   onSpawnProgress?: (index: number, total: number) => void;
   seekTo?: number | null;
+  selectedCountry?: string | null;
+  onCountrySelect?: (country: string) => void;
+  // Pinned corridor: drawn in full and emphasized until deselected, in either arc mode
+  selectedArc?: ArcData | null;
+  colorMode?: GlobeColorMode;
+  netFlows?: Record<string, number>;
+  arcMode?: ArcMode;
+  // Identifies the dataset behind `arcs`. When set and unchanged, new arcs are
+  // merged into the running stream instead of replaying the onion reset.
+  dataKey?: string;
+  // 0–1 progress of the query behind the loading onion; null while unknown
+  loadProgress?: number | null;
 }
 
 // ── Custom Arc Types ──
 interface LiveArc {
-  mesh: THREE_NS.Mesh;
-  material: THREE_NS.MeshBasicMaterial;
+  slot: number; // instance index in the shared ArcBatch, -1 once removed
+  controlPoints: ArcControlPoints;
   allPoints: THREE_NS.Vector3[];
   growDuration: number;
   retreatDuration: number;
+  birth: number; // arc clock time at spawn (seconds)
+  width: number; // thickness multiplier (1 in stream mode, scaled by ArcData.stroke in overview)
   age: number;
   destinationPoint: THREE_NS.Vector3;
   impactCreated: boolean;
   impactEffect: ImpactEffect | null;
   color: THREE_NS.Color;
   arcData: ArcData;
+  visibleStart: number; // index range of allPoints currently drawn (for picking)
+  visibleEnd: number;
+  bounds: THREE_NS.Sphere; // encloses the whole arc plus ARC_PICK_TOLERANCE, to skip far arcs when picking
+}
+
+interface GlobeTooltip {
+  arc: ArcData | null;
+  country: string | null;
+  x: number;
+  y: number;
 }
 
 interface ImpactEffect {
@@ -153,6 +182,7 @@ const DOT_SIZE = 0.5;
 const LIFT = 1.005;
 const DEG2RAD = Math.PI / 180;
 const BASE_COLOR: [number, number, number] = [0.45, 0.35, 0.25];
+const SELECTED_COUNTRY_COLOR: [number, number, number] = [0.18, 0.13, 0.08];
 
 // ── Arc Constants (scaled from Ron's radius=11) ──
 const S = GLOBE_RADIUS / 11; // scale factor
@@ -161,12 +191,25 @@ const ARC_GROW_DURATION = 1.3;
 const ARC_RETREAT_DURATION = 2.8;
 const ARC_POINTS = 80;
 const ARC_SPAWN_INTERVAL = 400;
-const MAX_CONCURRENT_ARCS = 15;
+const MAX_CONCURRENT_ARCS = 4096; // instance capacity of the shared arc mesh
 const BULLSEYE_SIZE = 0.10 * S;
 const BULLSEYE_RING_SIZE = 0.2 * S;
 const IMPACT_MAX_RADIUS = 0.05; // fraction of GLOBE_RADIUS
 const ARC_RADIAL_SEGMENTS = 6;
-const ARC_TUBE_SEGMENTS = 18;
+const ARC_TUBE_SEGMENTS = ARC_POINTS;
+const ARC_CYCLE_TICKS = 150; // loop mode: spawn enough per tick to cycle all arcs in ~this many ticks
+const MAX_IMPACT_LABELS = 24; // floating "+$X" sprites alive at once
+const MAX_CONCURRENT_IMPACTS = 256; // ring/bullseye meshes alive at once; later impacts only glow
+const KACHING_MIN_GAP_MS = 90;
+const LOAD_CRACK_DEG = 18; // how far a shell's halves open as its share of query progress completes
+const OVERVIEW_OPACITY = 0.45; // overview arcs overlap heavily under additive blending
+const OVERVIEW_WIDTH_SCALE = 0.6; // ArcData.stroke (~0.3–3.3) → thickness multiplier
+const BUNDLE_CELL_DEG = 20; // endpoints within the same cell pair share a bundle
+const BUNDLE_STRENGTH = 0.8; // 0 = independent arcs, 1 = bundle members share control points
+const SELECTED_ARC_WIDTH = 2; // thickness multiplier of the pinned arc
+const SELECTED_DIM = 0.35; // opacity factor for every other arc while one is pinned
+const ARC_PICK_TOLERANCE = 0.12 * S; // world units around the tube centerline
+const CLICK_MAX_DRAG_PX = 4;
 
 // ── Helpers ──
 
@@ -186,19 +229,12 @@ function generateFibonacciSphere(n: number): DotPosition[] {
       x: r * Math.sin(p) * Math.cos(t),
       y: r * Math.cos(p),
       z: r * Math.sin(p) * Math.sin(t),
+      country: null,
     });
   }
   return positions;
 }
 
-function isLand(lat: number, lng: number): boolean {
-  const rows = WORLD_MAP.length;
-  const cols = WORLD_MAP[0].length;
-  const latIdx = Math.min(rows - 1, Math.max(0, Math.floor(((90 - lat) * rows) / 180)));
-  const lngIdx = Math.min(cols - 1, Math.max(0, Math.floor(((lng + 180) * cols) / 360)));
-  return WORLD_MAP[latIdx][lngIdx] === "1";
-}
-
 function hexToRgb(hex: string): [number, number, number] {
   const h = hex.replace("#", "");
   return [
@@ -217,6 +253,15 @@ function angularDistance(lat1: number, lng1: number, lat2: number, lng2: number)
   return (2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))) / DEG2RAD;
 }
 
+/** Inverse of latLngToVec3 */
+function vec3ToLatLng(v: THREE_NS.Vector3): { lat: number; lng: number } {
+  const r = v.length();
+  const lat = 90 - Math.acos(v.y / r) / DEG2RAD;
+  let lng = 90 - Math.atan2(v.z, v.x) / DEG2RAD;
+  if (lng > 180) lng -= 360;
+  return { lat, lng };
+}
+
 /** Convert lat/lng to THREE.Vector3 matching three-globe's polar2Cartesian */
 function latLngToVec3(THREE: ThreeModule, lat: number, lng: number, r: number = GLOBE_RADIUS): THREE_NS.Vector3 {
   const phi = ((90 - lat) * Math.PI) / 180;
@@ -230,18 +275,33 @@ function latLngToVec3(THREE: ThreeModule, lat: number, lng: number, r: number =
 
 // ── Arc Path Generation (Ron's cubic Bezier approach) ──
 
-function createArcPath(
+/** Cubic Bezier control points [start, cp1, cp2, end] for an arc between two surface points */
+function createArcControlPoints(
   THREE: ThreeModule,
   startPos: THREE_NS.Vector3,
   endPos: THREE_NS.Vector3
-): THREE_NS.Vector3[] {
+): ArcControlPoints {
   const midPoint = startPos.clone().add(endPos).multiplyScalar(0.5);
   const distance = startPos.distanceTo(endPos);
   midPoint.normalize().multiplyScalar(GLOBE_RADIUS + distance * 1.8);
 
   const adjustStart = startPos.clone().normalize().multiplyScalar(GLOBE_RADIUS * 0.997);
   const adjustEnd = endPos.clone().normalize().multiplyScalar(GLOBE_RADIUS * 0.997);
+  const cp1 = new THREE.Vector3().lerpVectors(adjustStart, midPoint, 0.25);
+  const cp2 = new THREE.Vector3().lerpVectors(midPoint, adjustEnd, 0.75);
+  return [adjustStart, cp1, cp2, adjustEnd];
+}
 
+/** Picking bounds: a Bezier stays inside its control points' hull, so their sphere encloses the arc */
+function createArcBounds(THREE: ThreeModule, controlPoints: ArcControlPoints): THREE_NS.Sphere {
+  const sphere = new THREE.Sphere().setFromPoints(controlPoints);
+  sphere.radius += ARC_PICK_TOLERANCE;
+  return sphere;
+}
+
+/** Sampled arc centerline — the same curve the arc shader draws, kept on the CPU for picking */
+function createArcPath(THREE: ThreeModule, controlPoints: ArcControlPoints): THREE_NS.Vector3[] {
+  const [adjustStart, cp1, cp2, adjustEnd] = controlPoints;
   const allPoints: THREE_NS.Vector3[] = [];
   for (let i = 0; i <= ARC_POINTS; i++) {
     let t: number;
@@ -258,8 +318,6 @@ function createArcPath(
     } else if (i === ARC_POINTS) {
       point.copy(adjustEnd);
     } else {
-      const cp1 = new THREE.Vector3().lerpVectors(adjustStart, midPoint, 0.25);
-      const cp2 = new THREE.Vector3().lerpVectors(midPoint, adjustEnd, 0.75);
       const u = 1 - t;
       point.x = u * u * u * adjustStart.x + 3 * u * u * t * cp1.x + 3 * u * t * t * cp2.x + t * t * t * adjustEnd.x;
       point.y = u * u * u * adjustStart.y + 3 * u * u * t * cp1.y + 3 * u * t * t * cp2.y + t * t * t * adjustEnd.y;
@@ -270,6 +328,255 @@ function createArcPath(
   return allPoints;
 }
 
+// ── Instanced arc renderer ──
+//
+// Every live arc is one instance of a shared tube template. The template only
+// stores (u, angle) per vertex; the vertex shader evaluates the arc's Bezier
+// at u, builds a frame around the tangent and extrudes the tube. Grow/retreat
+// are derived from the uTime uniform and each instance's birth/durations, so
+// nothing is rebuilt per frame and thousands of arcs cost one draw call.
+
+const ARC_VERTEX_SHADER = /* glsl */ `
+  uniform float uTime;
+  uniform float uThickness;
+  uniform float uOpacity;
+  attribute vec3 iP0;
+  attribute vec3 iP1;
+  attribute vec3 iP2;
+  attribute vec3 iP3;
+  attribute vec3 iColor;
+  attribute vec3 iTiming; // birth, growDuration, retreatDuration
+  attribute float iWidth;
+  varying vec3 vColor;
+  varying float vOpacity;
+
+  const float PI_F = 3.141592653589793;
+
+  vec3 bezier(float t) {
+    float u = 1.0 - t;
+    return u * u * u * iP0 + 3.0 * u * u * t * iP1 + 3.0 * u * t * t * iP2 + t * t * t * iP3;
+  }
+
+  vec3 bezierTangent(float t) {
+    float u = 1.0 - t;
+    return 3.0 * u * u * (iP1 - iP0) + 6.0 * u * t * (iP2 - iP1) + 3.0 * t * t * (iP3 - iP2);
+  }
+
+  void main() {
+    float age = uTime - iTiming.x;
+    float head = 1.0;
+    float tail = 0.0;
+    float thickness = uThickness * iWidth;
+    float opacity = 0.7 * uOpacity;
+
+    if (age < iTiming.y) {
+      // Growth: easeInOutQuad
+      float gp = max(age, 0.0) / iTiming.y;
+      head = gp < 0.5 ? 2.0 * gp * gp : -1.0 + (4.0 - 2.0 * gp) * gp;
+    } else {
+      // Retreat: smooth hermite with a slow start
+      float rp = min((age - iTiming.y) / iTiming.z, 1.0);
+      rp = rp * rp * (3.0 - 2.0 * rp);
+      if (rp < 0.2) rp = rp * rp * 5.0;
+      tail = rp;
+      thickness *= 1.0 - rp * 0.3;
+      opacity *= rp >= 1.0 ? 0.0 : 1.0 - rp * 0.5;
+    }
+
+    // Vertices outside [tail, head] collapse onto the visible end caps
+    float s = clamp(position.x, tail, head);
+    float t = (sin((s - 0.5) * PI_F) + 1.0) / 2.0;
+    vec3 center = bezier(t);
+    // Guard degenerate frames (domestic flows where start == end)
+    vec3 d = bezierTangent(t);
+    vec3 tangent = dot(d, d) > 1e-8 ? normalize(d) : vec3(0.0, 1.0, 0.0);
+    vec3 c = cross(tangent, normalize(center));
+    vec3 n = dot(c, c) > 1e-8 ? normalize(c) : vec3(1.0, 0.0, 0.0);
+    vec3 b = cross(n, tangent);
+    vec3 p = center + thickness * (cos(position.y) * n + sin(position.y) * b);
+
+    vColor = iColor;
+    vOpacity = opacity;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(p, 1.0);
+  }
+`;
+
+const ARC_FRAGMENT_SHADER = /* glsl */ `
+  varying vec3 vColor;
+  varying float vOpacity;
+
+  void main() {
+    if (vOpacity <= 0.0) discard;
+    gl_FragColor = vec4(vColor, vOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+interface ArcBatch {
+  mesh: THREE_NS.Mesh;
+  material: THREE_NS.ShaderMaterial;
+  geometry: THREE_NS.InstancedBufferGeometry;
+  capacity: number;
+  owners: LiveArc[]; // owners[slot] is the arc drawn by that instance
+}
+
+function createArcBatch(T: ThreeModule, capacity: number, opacity = 1): ArcBatch {
+  // Tube template: (ARC_TUBE_SEGMENTS + 1) rings of (ARC_RADIAL_SEGMENTS + 1) vertices
+  const ringSize = ARC_RADIAL_SEGMENTS + 1;
+  const template = new Float32Array((ARC_TUBE_SEGMENTS + 1) * ringSize * 3);
+  for (let i = 0; i <= ARC_TUBE_SEGMENTS; i++) {
+    for (let j = 0; j <= ARC_RADIAL_SEGMENTS; j++) {
+      const v = (i * ringSize + j) * 3;
+      template[v] = i / ARC_TUBE_SEGMENTS;
+      template[v + 1] = (j / ARC_RADIAL_SEGMENTS) * Math.PI * 2;
+    }
+  }
+  const indices: number[] = [];
+  for (let i = 0; i < ARC_TUBE_SEGMENTS; i++) {
+    for (let j = 0; j < ARC_RADIAL_SEGMENTS; j++) {
+      const a = i * ringSize + j;
+      const b = (i + 1) * ringSize + j;
+      indices.push(a, b, a + 1, b, b + 1, a + 1);
+    }
+  }
+
+  const geometry = new T.InstancedBufferGeometry();
+  geometry.setAttribute("position", new T.Float32BufferAttribute(template, 3));
+  geometry.setIndex(indices);
+  for (const name of ["iP0", "iP1", "iP2", "iP3", "iColor", "iTiming"]) {
+    const attr = new T.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+    attr.setUsage(T.DynamicDrawUsage);
+    geometry.setAttribute(name, attr);
+  }
+  const widthAttr = new T.InstancedBufferAttribute(new Float32Array(capacity), 1);
+  widthAttr.setUsage(T.DynamicDrawUsage);
+  geometry.setAttribute("iWidth", widthAttr);
+  geometry.instanceCount = 0;
+
+  const material = new T.ShaderMaterial({
+    uniforms: {
+      uTime: { value: 0 },
+      uThickness: { value: ARC_THICKNESS },
+      uOpacity: { value: opacity },
+    },
+    vertexShader: ARC_VERTEX_SHADER,
+    fragmentShader: ARC_FRAGMENT_SHADER,
+    transparent: true,
+    depthWrite: false,
+    blending: T.AdditiveBlending,
+    toneMapped: false,
+  });
+
+  const mesh = new T.Mesh(geometry, material);
+  // Vertex positions are computed in the shader, so the template's bounds are meaningless
+  mesh.frustumCulled = false;
+
+  return { mesh, material, geometry, capacity, owners: [] };
+}
+
+function writeArcInstance(batch: ArcBatch, slot: number, arc: LiveArc) {
+  const g = batch.geometry;
+  const [p0, p1, p2, p3] = arc.controlPoints;
+  (g.getAttribute("iP0") as THREE_NS.InstancedBufferAttribute).setXYZ(slot, p0.x, p0.y, p0.z);
+  (g.getAttribute("iP1") as THREE_NS.InstancedBufferAttribute).setXYZ(slot, p1.x, p1.y, p1.z);
+  (g.getAttribute("iP2") as THREE_NS.InstancedBufferAttribute).setXYZ(slot, p2.x, p2.y, p2.z);
+  (g.getAttribute("iP3") as THREE_NS.InstancedBufferAttribute).setXYZ(slot, p3.x, p3.y, p3.z);
+  (g.getAttribute("iColor") as THREE_NS.InstancedBufferAttribute).setXYZ(slot, arc.color.r, arc.color.g, arc.color.b);
+  (g.getAttribute("iTiming") as THREE_NS.InstancedBufferAttribute).setXYZ(slot, arc.birth, arc.growDuration, arc.retreatDuration);
+  (g.getAttribute("iWidth") as THREE_NS.InstancedBufferAttribute).setX(slot, arc.width);
+  for (const name of ["iP0", "iP1", "iP2", "iP3", "iColor", "iTiming", "iWidth"]) {
+    g.getAttribute(name).needsUpdate = true;
+  }
+}
+
+/** Append an arc to the batch. Returns false when the batch is full. */
+function addArcInstance(batch: ArcBatch, arc: LiveArc): boolean {
+  const slot = batch.owners.length;
+  if (slot >= batch.capacity) return false;
+  arc.slot = slot;
+  batch.owners.push(arc);
+  writeArcInstance(batch, slot, arc);
+  batch.geometry.instanceCount = batch.owners.length;
+  return true;
+}
+
+/** Remove an arc by moving the last instance into its slot, keeping instances dense. */
+function removeArcInstance(batch: ArcBatch, arc: LiveArc) {
+  const slot = arc.slot;
+  const last = batch.owners.pop();
+  if (last && last !== arc) {
+    batch.owners[slot] = last;
+    last.slot = slot;
+    writeArcInstance(batch, slot, last);
+  }
+  arc.slot = -1;
+  batch.geometry.instanceCount = batch.owners.length;
+}
+
+function clearArcInstances(batch: ArcBatch) {
+  for (const arc of batch.owners) arc.slot = -1;
+  batch.owners = [];
+  batch.geometry.instanceCount = 0;
+}
+
+// ── Edge bundling for the static overview ──
+//
+// Arcs whose endpoints fall in the same (source cell, destination cell) pair
+// form a bundle. Each member's inner control points are pulled toward the
+// bundle's volume-weighted mean, so parallel corridors share one trunk while
+// keeping their exact endpoints.
+
+type ArcControlPoints = [THREE_NS.Vector3, THREE_NS.Vector3, THREE_NS.Vector3, THREE_NS.Vector3];
+
+function bundleCell(lat: number, lng: number): string {
+  return `${Math.round(lat / BUNDLE_CELL_DEG)},${Math.round(lng / BUNDLE_CELL_DEG)}`;
+}
+
+function bundleArcControlPoints(T: ThreeModule, arcs: ArcData[]): ArcControlPoints[] {
+  const controls = arcs.map((a) =>
+    createArcControlPoints(T, latLngToVec3(T, a.startLat, a.startLng), latLngToVec3(T, a.endLat, a.endLng))
+  );
+
+  const bundles = new Map<string, { cp1: THREE_NS.Vector3; cp2: THREE_NS.Vector3; weight: number; members: number[] }>();
+  arcs.forEach((a, i) => {
+    const key = `${bundleCell(a.startLat, a.startLng)}|${bundleCell(a.endLat, a.endLng)}`;
+    const w = Math.max(a.totalUsd, 1);
+    const bundle = bundles.get(key) ?? { cp1: new T.Vector3(), cp2: new T.Vector3(), weight: 0, members: [] };
+    bundle.cp1.addScaledVector(controls[i][1], w);
+    bundle.cp2.addScaledVector(controls[i][2], w);
+    bundle.weight += w;
+    bundle.members.push(i);
+    bundles.set(key, bundle);
+  });
+
+  for (const bundle of bundles.values()) {
+    if (bundle.members.length < 2) continue;
+    bundle.cp1.divideScalar(bundle.weight);
+    bundle.cp2.divideScalar(bundle.weight);
+    for (const i of bundle.members) {
+      controls[i][1].lerp(bundle.cp1, BUNDLE_STRENGTH);
+      controls[i][2].lerp(bundle.cp2, BUNDLE_STRENGTH);
+    }
+  }
+  return controls;
+}
+
+// ── Shared impact geometries (scaled per impact instead of rebuilt per frame) ──
+
+interface ImpactGeometries {
+  ring: THREE_NS.RingGeometry;      // unit radius, 20% border
+  outerRing: THREE_NS.RingGeometry; // unit radius, 15% border
+  centerDot: THREE_NS.CircleGeometry;
+}
+
+function createImpactGeometries(T: ThreeModule): ImpactGeometries {
+  return {
+    ring: new T.RingGeometry(0.8, 1, 24),
+    outerRing: new T.RingGeometry(0.85, 1, 24),
+    centerDot: new T.CircleGeometry(BULLSEYE_SIZE, 24),
+  };
+}
+
 // ── Cash register "ka-ching" sound effect ──
 let audioCtx: AudioContext | null = null;
 let kachingBuffer: AudioBuffer | null = null;
@@ -317,7 +624,13 @@ if (typeof window !== "undefined") {
   prefetchKaching();
 }
 
+let lastKachingAt = 0;
+
 function playKaching(volume: number = 0.15) {
+  // Dense arc batches can land dozens of impacts per second — don't stack them
+  const nowMs = performance.now();
+  if (nowMs - lastKachingAt < KACHING_MIN_GAP_MS) return;
+  lastKachingAt = nowMs;
   const ctx = getAudioCtx();
   if (!kachingBuffer) {
     loadKachingBuffer().then(() => playKaching(volume));
@@ -332,7 +645,12 @@ function playKaching(volume: number = 0.15) {
   source.start(0, 0.2);
 }
 
-export default function Globe({ arcs, onArcHover, loop = true, paused = false, spawnInterval: spawnIntervalMs = 400, onSpawnProgress, seekTo }: GlobeProps) {
+// ── Tooltip endpoint: a short address, or the node's name for a grouped entity end ──
+function TooltipEndpoint({ address, name }: { address?: string; name: string }) {
+  return address ? <span className="font-mono">{shortAddress(address)}</span> : <span>{name}</span>;
+}
+
+export default function Globe({ arcs, onArcHover, onArcSelect, loop = true, paused = false, spawnInterval: spawnIntervalMs = 400, onSpawnProgress, seekTo, selectedCountry = null, onCountrySelect, selectedArc = null, colorMode = "token", netFlows, arcMode = "stream", dataKey, loadProgress = null }: GlobeProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const globeRef = useRef<GlobeInstance>(null);
   const dotMeshRef = useRef<THREE_NS.InstancedMesh | null>(null);
@@ -340,10 +658,23 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
   const threeRef = useRef<ThreeModule | null>(null);
   const globeGroupRef = useRef<THREE_NS.Object3D | null>(null);
   const liveArcsRef = useRef<LiveArc[]>([]);
+  const arcBatchRef = useRef<ArcBatch | null>(null);
+  const overviewBatchRef = useRef<ArcBatch | null>(null);
+  const overviewArcsRef = useRef<LiveArc[]>([]);
+  const selectedBatchRef = useRef<ArcBatch | null>(null);
+  const pinnedArcRef = useRef<LiveArc | null>(null);
+  const selectedArcRef = useRef(selectedArc);
+  selectedArcRef.current = selectedArc;
+  const arcModeRef = useRef(arcMode);
+  arcModeRef.current = arcMode;
+  const arcClockRef = useRef<number>(0);
+  const impactGeoRef = useRef<ImpactGeometries | null>(null);
   const impactEffectsRef = useRef<ImpactEffect[]>([]);
   const animFrameRef = useRef<number>(0);
   const spawnIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const spawnIdxRef = useRef<number>(0);
+  const lastSpawnedRef = useRef<ArcData | null>(null);
+  const dataKeyRef = useRef<string | undefined>(undefined);
   const arcsRef = useRef(arcs);
   arcsRef.current = arcs;
   // Per-dot glow state for impact flash effect
@@ -352,8 +683,27 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
   const dotGlowColorRef = useRef<Float32Array | null>(null);
   // Onion peel loading animation
   const onionLayersRef = useRef<OnionLayer[] | null>(null);
+  const loadProgressRef = useRef(loadProgress);
+  loadProgressRef.current = loadProgress;
+  const shownProgressRef = useRef(0); // eased toward loadProgressRef each frame
   const peelStateRef = useRef<PeelState | null>(null);
   const firstDataArrivalRef = useRef<boolean>(false);
+  // Pointer picking
+  const [tooltip, setTooltip] = useState<GlobeTooltip | null>(null);
+  const tooltipRef = useRef<GlobeTooltip | null>(null); // last value passed to setTooltip
+  const hoveredArcRef = useRef<ArcData | null>(null);
+  const onArcHoverRef = useRef(onArcHover);
+  onArcHoverRef.current = onArcHover;
+  const onArcSelectRef = useRef(onArcSelect);
+  onArcSelectRef.current = onArcSelect;
+  const onCountrySelectRef = useRef(onCountrySelect);
+  onCountrySelectRef.current = onCountrySelect;
+  const selectedCountryRef = useRef(selectedCountry);
+  selectedCountryRef.current = selectedCountry;
+  const colorModeRef = useRef(colorMode);
+  colorModeRef.current = colorMode;
+  const netFlowsRef = useRef(netFlows);
+  netFlowsRef.current = netFlows;
 
   // ── Init globe + dots + animation loop ──
   useEffect(() => {
@@ -412,6 +762,7 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
       // ── Build dot mesh ──
       const allDots = generateFibonacciSphere(DOT_COUNT);
       const landDots = allDots.filter((d) => isLand(d.lat, d.lng));
+      for (const d of landDots) d.country = countryAt(d.lat, d.lng);
       landDotsRef.current = landDots;
       const count = landDots.length;
       console.log(`[Globe] ${allDots.length} total → ${count} land dots`);
@@ -445,6 +796,20 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
       dotMeshRef.current = dotMesh;
       globeGroupRef.current.add(dotMesh);
 
+      // ── Shared arc + impact resources ──
+      const arcBatch = createArcBatch(THREE, MAX_CONCURRENT_ARCS);
+      arcBatchRef.current = arcBatch;
+      globeGroupRef.current.add(arcBatch.mesh);
+      const overviewBatch = createArcBatch(THREE, OVERVIEW_MAX_ARCS, OVERVIEW_OPACITY);
+      overviewBatchRef.current = overviewBatch;
+      globeGroupRef.current.add(overviewBatch.mesh);
+      const selectedBatch = createArcBatch(THREE, 1);
+      selectedBatch.mesh.renderOrder = 1;
+      selectedBatchRef.current = selectedBatch;
+      globeGroupRef.current.add(selectedBatch.mesh);
+      buildSelectedArc();
+      impactGeoRef.current = createImpactGeometries(THREE);
+
       // ── Create onion shell layers ──
       onionLayersRef.current = createOnionLayers(THREE, globeGroupRef.current);
 
@@ -458,6 +823,10 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
         updateDotColors(THREE);
         triggerPeel(300, "open");
         setTimeout(() => {
+          if (arcModeRef.current === "overview") {
+            buildOverview();
+            return;
+          }
           spawnIdxRef.current = 0;
           onSpawnProgress?.(0, currentArcs.length);
           if (!paused) startSpawnInterval();
@@ -493,6 +862,11 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
         const onionLayers = onionLayersRef.current;
         const peelState = peelStateRef.current;
         if (onionLayers && !peelState) {
+          // Query progress loosens the shells outer → inner: each layer owns a
+          // third of the range, cracking its halves open and thinning as it goes
+          const target = loadProgressRef.current ?? 0;
+          shownProgressRef.current += (target - shownProgressRef.current) * Math.min(1, dt * 3);
+          const progress = shownProgressRef.current;
           for (let li = 0; li < onionLayers.length; li++) {
             const layer = onionLayers[li];
             const layerOffset = li * 2.1;
@@ -501,7 +875,16 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
             // Visible spin — each layer slightly faster, alternating direction
             const dir = li % 2 === 0 ? 1 : -1;
             layer.group.rotation.y += dt * dir * (0.4 + li * 0.15);
+
+            const order = onionLayers.length - 1 - li; // outermost first
+            const layerProgress = Math.min(1, Math.max(0, progress * onionLayers.length - order));
+            for (const half of layer.halves) {
+              half.pivot.rotation.x = -(LOAD_CRACK_DEG * DEG2RAD) * layerProgress;
+              half.material.opacity = layer.baseOpacity * (1 - 0.5 * layerProgress);
+            }
           }
+        } else if (!onionLayers) {
+          shownProgressRef.current = 0;
         }
 
         // ── Onion peel animation (open = peel away, close = wrap back) ──
@@ -601,7 +984,14 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
           }
         }
 
-        // Update arcs
+        // Update arcs — geometry is animated on the GPU from the arc clock;
+        // the CPU side only tracks phases for impacts, picking and removal
+        arcClockRef.current += dt;
+        const arcBatch = arcBatchRef.current;
+        if (arcBatch) arcBatch.material.uniforms.uTime.value = arcClockRef.current;
+        let labelCount = 0;
+        for (const fx of impacts) if (fx.textSprite) labelCount++;
+
         for (let i = liveArcs.length - 1; i >= 0; i--) {
           const arc = liveArcs[i];
           arc.age += dt;
@@ -614,11 +1004,16 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
 
             // Trigger impact at 90% growth
             if (gp >= 0.9 && !arc.impactCreated) {
-              const effect = createImpact(T, group, arc.destinationPoint, arc.color);
-              effect.parentArc = arc;
-              impacts.push(effect);
               arc.impactCreated = true;
-              arc.impactEffect = effect;
+              // Past the cap, skip the meshes (and label) but still glow and chime
+              const effect = impacts.length < MAX_CONCURRENT_IMPACTS
+                ? createImpact(T, group, arc.destinationPoint, arc.color)
+                : null;
+              if (effect) {
+                effect.parentArc = arc;
+                impacts.push(effect);
+                arc.impactEffect = effect;
+              }
               // Flash nearby land dots in the arc's token color
               triggerDotGlow(arc.arcData.endLat, arc.arcData.endLng, arc.color);
 
@@ -639,46 +1034,39 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
               }
 
               // Create floating text label at impact point, sized by transaction value
-              const toFlag = COUNTRY_FLAGS[arc.arcData.toCountry] ?? "";
-              const label = `${toFlag} +${formatUsd(arc.arcData.totalUsd)} ${arc.arcData.tokenSymbol}`;
-              // Log-scale sizing: $10K → 1.5x, $100K → 1.95x, $1M → 2.4x, $10M → 2.85x, $100M → 3.3x
-              const usd = Math.max(arc.arcData.totalUsd, 1);
-              const sizeFactor = 1.5 + 0.45 * Math.max(0, Math.log10(usd) - 4);
-              const { sprite, material: spriteMat, texture: spriteTex } = createTextSprite(T, label, arc.color, sizeFactor);
-              const normal = arc.destinationPoint.clone().normalize();
-              sprite.position.copy(arc.destinationPoint).addScaledVector(normal, 0.5 * S);
-              group.add(sprite);
-              effect.textSprite = sprite;
-              effect.textMaterial = spriteMat;
-              effect.textTexture = spriteTex;
+              if (effect && labelCount < MAX_IMPACT_LABELS) {
+                const toFlag = countryFlag(arc.arcData.toCountry);
+                const label = `${toFlag} +${formatUsd(arc.arcData.totalUsd)} ${arc.arcData.tokenSymbol}`;
+                // Log-scale sizing: $10K → 1.5x, $100K → 1.95x, $1M → 2.4x, $10M → 2.85x, $100M → 3.3x
+                const usd = Math.max(arc.arcData.totalUsd, 1);
+                const sizeFactor = 1.5 + 0.45 * Math.max(0, Math.log10(usd) - 4);
+                const { sprite, material: spriteMat, texture: spriteTex } = createTextSprite(T, label, arc.color, sizeFactor);
+                const normal = arc.destinationPoint.clone().normalize();
+                sprite.position.copy(arc.destinationPoint).addScaledVector(normal, 0.5 * S);
+                group.add(sprite);
+                effect.textSprite = sprite;
+                effect.textMaterial = spriteMat;
+                effect.textTexture = spriteTex;
+                labelCount++;
+              }
             }
 
-            const pointCount = Math.max(2, Math.floor(gp * arc.allPoints.length));
-            const currentPoints = arc.allPoints.slice(0, pointCount);
-            rebuildTube(T, group, arc, currentPoints, ARC_THICKNESS, 0.7);
+            arc.visibleStart = 0;
+            arc.visibleEnd = Math.max(2, Math.floor(gp * arc.allPoints.length));
           }
           // ── Retreat phase ──
           else if (arc.age < arc.growDuration + arc.retreatDuration) {
             let rp = (arc.age - arc.growDuration) / arc.retreatDuration;
-            // Smooth hermite
+            // Smooth hermite (mirrors ARC_VERTEX_SHADER)
             rp = rp * rp * (3 - 2 * rp);
             if (rp < 0.2) rp = rp * rp * 5;
 
-            const startIdx = Math.floor(rp * arc.allPoints.length);
-            const currentPoints = arc.allPoints.slice(startIdx);
-
-            if (currentPoints.length < 2) {
-              arc.material.opacity = 0;
-            } else {
-              const thickness = ARC_THICKNESS * (1 - rp * 0.3);
-              rebuildTube(T, group, arc, currentPoints, thickness, 0.7 * (1 - rp * 0.5));
-            }
+            arc.visibleStart = Math.floor(rp * arc.allPoints.length);
+            arc.visibleEnd = arc.allPoints.length;
           }
           // ── Remove ──
           else {
-            group.remove(arc.mesh);
-            arc.mesh.geometry.dispose();
-            arc.material.dispose();
+            if (arcBatch) removeArcInstance(arcBatch, arc);
             // Start fading the bullseye
             if (arc.impactEffect) {
               arc.impactEffect.isFadingOut = true;
@@ -701,13 +1089,10 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
             fx.centerDotMaterial.opacity = 0.85 * (1 - fp);
             if (fp >= 1) {
               group.remove(fx.centerDot);
-              fx.centerDot.geometry.dispose();
               fx.centerDotMaterial.dispose();
               group.remove(fx.ring);
-              fx.ring.geometry.dispose();
               fx.ringMaterial.dispose();
               group.remove(fx.outerRing);
-              fx.outerRing.geometry.dispose();
               fx.outerRingMaterial.dispose();
               if (fx.textSprite) {
                 group.remove(fx.textSprite);
@@ -741,26 +1126,14 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
           if (fx.age < fx.maxLife) {
             const progress = fx.age / fx.maxLife;
 
-            // Expanding inner ring
+            // Expanding inner ring (unit ring geometry with a 20% border)
             const innerR = 0.15 * S + progress * GLOBE_RADIUS * IMPACT_MAX_RADIUS;
-            const border = innerR * 0.2;
-            group.remove(fx.ring);
-            fx.ring.geometry.dispose();
-            fx.ring.geometry = new T.RingGeometry(innerR - border, innerR, 24);
+            fx.ring.scale.setScalar(innerR);
             fx.ringMaterial.opacity = 0.8 * (1 - Math.pow(progress, 1.5));
-            group.add(fx.ring);
-
-            // Expanding outer ring
-            const outerR = innerR * 1.3;
-            const outerBorder = outerR * 0.15;
-            group.remove(fx.outerRing);
-            fx.outerRing.geometry.dispose();
-            fx.outerRing.geometry = new T.RingGeometry(outerR - outerBorder, outerR, 24);
-            fx.outerRingMaterial.opacity = 0.6 * (1 - Math.pow(progress, 2));
-            group.add(fx.outerRing);
 
-            fx.ring.lookAt(new T.Vector3(0, 0, 0));
-            fx.outerRing.lookAt(new T.Vector3(0, 0, 0));
+            // Expanding outer ring (15% border)
+            fx.outerRing.scale.setScalar(innerR * 1.3);
+            fx.outerRingMaterial.opacity = 0.6 * (1 - Math.pow(progress, 2));
           } else if (!fx.isFadingOut) {
             // Expanding rings done — rapid fade then remove rings
             if (fx.ringMaterial.opacity > 0.02) {
@@ -769,10 +1142,8 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
             } else {
               // Remove expanding rings, keep bullseye center dot
               group.remove(fx.ring);
-              fx.ring.geometry.dispose();
               fx.ringMaterial.dispose();
               group.remove(fx.outerRing);
-              fx.outerRing.geometry.dispose();
               fx.outerRingMaterial.dispose();
 
               // Check if parent arc is gone, start fade
@@ -833,11 +1204,16 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
       // Clean up arcs and impacts
       const group = globeGroupRef.current;
       if (group) {
-        for (const arc of liveArcsRef.current) {
-          group.remove(arc.mesh);
-          arc.mesh.geometry.dispose();
-          arc.material.dispose();
+        for (const batch of [arcBatchRef.current, overviewBatchRef.current, selectedBatchRef.current]) {
+          if (!batch) continue;
+          group.remove(batch.mesh);
+          batch.geometry.dispose();
+          batch.material.dispose();
         }
+        arcBatchRef.current = null;
+        overviewBatchRef.current = null;
+        selectedBatchRef.current = null;
+        pinnedArcRef.current = null;
         for (const fx of impactEffectsRef.current) {
           group.remove(fx.ring);
           group.remove(fx.outerRing);
@@ -851,6 +1227,12 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
       }
       liveArcsRef.current = [];
       impactEffectsRef.current = [];
+      if (impactGeoRef.current) {
+        impactGeoRef.current.ring.dispose();
+        impactGeoRef.current.outerRing.dispose();
+        impactGeoRef.current.centerDot.dispose();
+        impactGeoRef.current = null;
+      }
       // Clean up onion shells
       cleanupOnionLayers();
       if (dotMeshRef.current) {
@@ -872,9 +1254,10 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
   function spawnOneArc() {
     const T = threeRef.current;
     const g = globeGroupRef.current;
+    const batch = arcBatchRef.current;
     const currentArcs = arcsRef.current;
-    if (!T || !g || currentArcs.length === 0) return;
-    if (liveArcsRef.current.length >= MAX_CONCURRENT_ARCS) return;
+    if (!T || !g || !batch || currentArcs.length === 0) return;
+    if (batch.owners.length >= batch.capacity) return;
 
     const idx = spawnIdxRef.current;
 
@@ -889,53 +1272,147 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
 
     const arcData = currentArcs[idx % currentArcs.length];
     spawnIdxRef.current = idx + 1;
+    lastSpawnedRef.current = arcData;
 
     // Report progress
     onSpawnProgress?.(Math.min(idx + 1, currentArcs.length), currentArcs.length);
 
     const startPos = latLngToVec3(T, arcData.startLat, arcData.startLng);
     const endPos = latLngToVec3(T, arcData.endLat, arcData.endLng);
-    const allPoints = createArcPath(T, startPos, endPos);
-
-    const color = new T.Color(arcData.color);
-
-    const initialPoints = allPoints.slice(0, 4);
-    const tubePath = new T.CatmullRomCurve3(initialPoints);
-    tubePath.tension = 0.5;
-    const tubeGeo = new T.TubeGeometry(tubePath, 3, ARC_THICKNESS, ARC_RADIAL_SEGMENTS, false);
-
-    const tubeMat = new T.MeshBasicMaterial({
-      color: color,
-      opacity: 0.7,
-      transparent: true,
-      depthWrite: false,
-      blending: T.AdditiveBlending,
-      toneMapped: false,
-    });
-
-    const mesh = new T.Mesh(tubeGeo, tubeMat);
-    g.add(mesh);
+    const controlPoints = createArcControlPoints(T, startPos, endPos);
+    const allPoints = createArcPath(T, controlPoints);
 
     const liveArc: LiveArc = {
-      mesh,
-      material: tubeMat,
+      slot: -1,
+      controlPoints,
       allPoints,
       growDuration: ARC_GROW_DURATION + Math.random() * 0.4,
       retreatDuration: ARC_RETREAT_DURATION + Math.random() * 0.8,
+      birth: arcClockRef.current,
+      width: 1,
       age: 0,
       destinationPoint: endPos.clone(),
       impactCreated: false,
       impactEffect: null,
-      color,
+      color: new T.Color(arcData.color),
       arcData,
+      visibleStart: 0,
+      visibleEnd: 2,
+      bounds: createArcBounds(T, controlPoints),
     };
 
-    liveArcsRef.current.push(liveArc);
+    if (addArcInstance(batch, liveArc)) liveArcsRef.current.push(liveArc);
+  }
+
+  // In loop mode large datasets spawn several arcs per tick so every
+  // corridor comes around within ~ARC_CYCLE_TICKS ticks; the wallet
+  // timeline (non-loop) stays one arc per tick.
+  function spawnTick() {
+    const perTick = loop ? Math.max(1, Math.ceil(arcsRef.current.length / ARC_CYCLE_TICKS)) : 1;
+    for (let k = 0; k < perTick; k++) spawnOneArc();
   }
 
   function startSpawnInterval() {
     if (spawnIntervalRef.current) clearInterval(spawnIntervalRef.current);
-    spawnIntervalRef.current = setInterval(spawnOneArc, spawnIntervalMs);
+    // The static overview draws everything at once — nothing to stream
+    if (arcModeRef.current === "overview") return;
+    spawnIntervalRef.current = setInterval(spawnTick, spawnIntervalMs);
+  }
+
+  // ── Helper: (re)build the static overview batch from the current arcs ──
+  function buildOverview() {
+    const T = threeRef.current;
+    const batch = overviewBatchRef.current;
+    if (!T || !batch) return;
+    clearArcInstances(batch);
+    overviewArcsRef.current = [];
+
+    // Every corridor shapes the bundles; past the batch capacity only the largest are drawn
+    const allArcs = arcsRef.current;
+    const allControls = bundleArcControlPoints(T, allArcs);
+    let drawn = allArcs.map((arcData, i) => ({ arcData, controls: allControls[i] }));
+    if (drawn.length > OVERVIEW_MAX_ARCS) {
+      drawn = drawn.sort((a, b) => b.arcData.totalUsd - a.arcData.totalUsd).slice(0, OVERVIEW_MAX_ARCS);
+    }
+    for (const { arcData, controls } of drawn) {
+      const allPoints = createArcPath(T, controls);
+      // growDuration 0 + uTime fixed at 0 keeps the shader in retreat phase at rp = 0: fully drawn
+      const arc: LiveArc = {
+        slot: -1,
+        controlPoints: controls,
+        allPoints,
+        growDuration: 0,
+        retreatDuration: 1,
+        birth: 0,
+        width: arcData.stroke * OVERVIEW_WIDTH_SCALE,
+        age: 0,
+        destinationPoint: allPoints[allPoints.length - 1],
+        impactCreated: true,
+        impactEffect: null,
+        color: new T.Color(arcData.color),
+        arcData,
+        visibleStart: 0,
+        visibleEnd: allPoints.length,
+        bounds: createArcBounds(T, controls),
+      };
+      if (addArcInstance(batch, arc)) overviewArcsRef.current.push(arc);
+    }
+    onSpawnProgress?.(drawn.length, drawn.length);
+    // The pinned arc follows its bundled path
+    buildSelectedArc();
+  }
+
+  function clearOverview() {
+    if (overviewBatchRef.current) clearArcInstances(overviewBatchRef.current);
+    overviewArcsRef.current = [];
+    buildSelectedArc();
+  }
+
+  // ── Helper: (re)draw the pinned arc on its own batch, dimming the rest ──
+  // It's drawn whole and independent of the stream, so it stays up between
+  // spawns and after a non-loop timeline ends.
+  function buildSelectedArc() {
+    const T = threeRef.current;
+    const batch = selectedBatchRef.current;
+    if (!T || !batch) return;
+    clearArcInstances(batch);
+    pinnedArcRef.current = null;
+
+    const arcData = selectedArcRef.current;
+    const dim = arcData ? SELECTED_DIM : 1;
+    if (arcBatchRef.current) arcBatchRef.current.material.uniforms.uOpacity.value = dim;
+    if (overviewBatchRef.current) overviewBatchRef.current.material.uniforms.uOpacity.value = OVERVIEW_OPACITY * dim;
+    if (!arcData) return;
+
+    const inOverview = overviewArcsRef.current.find((a) => a.arcData === arcData);
+    const controlPoints =
+      inOverview?.controlPoints ??
+      createArcControlPoints(
+        T,
+        latLngToVec3(T, arcData.startLat, arcData.startLng),
+        latLngToVec3(T, arcData.endLat, arcData.endLng)
+      );
+    const allPoints = inOverview?.allPoints ?? createArcPath(T, controlPoints);
+    // Same fixed-uTime trick as the overview: always fully drawn
+    const arc: LiveArc = {
+      slot: -1,
+      controlPoints,
+      allPoints,
+      growDuration: 0,
+      retreatDuration: 1,
+      birth: 0,
+      width: SELECTED_ARC_WIDTH,
+      age: 0,
+      destinationPoint: allPoints[allPoints.length - 1],
+      impactCreated: true,
+      impactEffect: null,
+      color: new T.Color(arcData.color),
+      arcData,
+      visibleStart: 0,
+      visibleEnd: allPoints.length,
+      bounds: inOverview?.bounds ?? createArcBounds(T, controlPoints),
+    };
+    if (addArcInstance(batch, arc)) pinnedArcRef.current = arc;
   }
 
   // Helper to clean up onion layers
@@ -986,11 +1463,7 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
       clearInterval(spawnIntervalRef.current);
       spawnIntervalRef.current = null;
     }
-    for (const arc of liveArcsRef.current) {
-      group.remove(arc.mesh);
-      arc.mesh.geometry.dispose();
-      arc.material.dispose();
-    }
+    if (arcBatchRef.current) clearArcInstances(arcBatchRef.current);
     liveArcsRef.current = [];
     for (const fx of impactEffectsRef.current) {
       group.remove(fx.ring);
@@ -1004,6 +1477,12 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
     }
     impactEffectsRef.current = [];
     spawnIdxRef.current = 0;
+    if (hoveredArcRef.current) {
+      hoveredArcRef.current = null;
+      onArcHoverRef.current?.(null);
+      tooltipRef.current = null;
+      setTooltip(null);
+    }
   }
 
   // Helper to start the open peel + spawn
@@ -1026,7 +1505,28 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
       return;
     }
 
+    const stopSpawning = () => {
+      if (spawnIntervalRef.current) {
+        clearInterval(spawnIntervalRef.current);
+        spawnIntervalRef.current = null;
+      }
+    };
+
     const hadArcs = hadVisibleArcsRef.current;
+    const sameData = dataKey !== undefined && dataKey === dataKeyRef.current;
+    dataKeyRef.current = dataKey;
+
+    if (sameData && hadArcs && arcs.length > 0 && !onionLayersRef.current) {
+      // Refresh of the same dataset — keep streaming from the arc we last
+      // spawned; arcs already in flight finish on their old data.
+      const last = lastSpawnedRef.current;
+      const lastIdx = last ? arcs.findIndex((a) => arcKey(a) === arcKey(last)) : -1;
+      spawnIdxRef.current = lastIdx >= 0 ? lastIdx + 1 : spawnIdxRef.current % arcs.length;
+      onSpawnProgress?.(Math.min(spawnIdxRef.current, arcs.length), arcs.length);
+      updateDotColors(THREE);
+      if (!paused) startSpawnInterval();
+      return stopSpawning;
+    }
 
     if (hadArcs && !onionLayersRef.current) {
       // There were visible arcs and no onion — play close animation first
@@ -1077,12 +1577,7 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
 
     hadVisibleArcsRef.current = arcs.length > 0;
 
-    return () => {
-      if (spawnIntervalRef.current) {
-        clearInterval(spawnIntervalRef.current);
-        spawnIntervalRef.current = null;
-      }
-    };
+    return stopSpawning;
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [arcs]);
 
@@ -1142,11 +1637,7 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
     }
 
     // Remove all live arcs and impacts
-    for (const arc of liveArcsRef.current) {
-      group.remove(arc.mesh);
-      arc.mesh.geometry.dispose();
-      arc.material.dispose();
-    }
+    if (arcBatchRef.current) clearArcInstances(arcBatchRef.current);
     liveArcsRef.current = [];
     for (const fx of impactEffectsRef.current) {
       group.remove(fx.ring);
@@ -1169,6 +1660,137 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [seekTo]);
 
+  // ── Stream / overview mode ──
+  const prevArcModeRef = useRef(arcMode);
+  useEffect(() => {
+    const modeChanged = prevArcModeRef.current !== arcMode;
+    prevArcModeRef.current = arcMode;
+    if (!threeRef.current) return;
+    if (arcMode === "overview") {
+      clearLiveArcs();
+      buildOverview();
+    } else if (modeChanged) {
+      clearOverview();
+      // Resume streaming unless the onion is still waiting for data;
+      // plain arcs changes in stream mode are handled by the arcs effect
+      if (arcs.length > 0 && !paused && !pendingPeelRef.current) {
+        spawnIdxRef.current = 0;
+        onSpawnProgress?.(0, arcs.length);
+        startSpawnInterval();
+      }
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [arcMode, arcs]);
+
+  // ── Pinned selected arc ──
+  useEffect(() => {
+    buildSelectedArc();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedArc]);
+
+  // ── Pointer picking: hover tooltip + click-to-select ──
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    let downX = 0;
+    let downY = 0;
+    // Picking runs at most once per animation frame, for the latest pointer position
+    let pickFrame = 0;
+    let pointerX = 0;
+    let pointerY = 0;
+
+    function setHovered(arc: ArcData | null, x = 0, y = 0, country: string | null = null) {
+      if (el) el.style.cursor = arc || country ? "pointer" : "";
+      const next = arc || country ? { arc, country, x, y } : null;
+      const shown = tooltipRef.current;
+      const unchanged =
+        next === shown ||
+        (next && shown && next.arc === shown.arc && next.country === shown.country && next.x === shown.x && next.y === shown.y);
+      if (!unchanged) {
+        tooltipRef.current = next;
+        setTooltip(next);
+      }
+      if (hoveredArcRef.current !== arc) {
+        hoveredArcRef.current = arc;
+        onArcHoverRef.current?.(arc);
+      }
+    }
+
+    function cancelPick() {
+      cancelAnimationFrame(pickFrame);
+      pickFrame = 0;
+    }
+
+    function pickHovered() {
+      pickFrame = 0;
+      const arc = pickArcAt(pointerX, pointerY);
+      const country = !arc && onCountrySelectRef.current ? pickCountryAt(pointerX, pointerY) : null;
+      setHovered(arc, pointerX, pointerY, country);
+    }
+
+    function handlePointerMove(e: PointerEvent) {
+      if (e.buttons !== 0) {
+        // Dragging the globe — don't pick
+        cancelPick();
+        setHovered(null);
+        return;
+      }
+      const rect = el!.getBoundingClientRect();
+      pointerX = e.clientX - rect.left;
+      pointerY = e.clientY - rect.top;
+      if (!pickFrame) pickFrame = requestAnimationFrame(pickHovered);
+    }
+
+    function handlePointerLeave() {
+      cancelPick();
+      setHovered(null);
+    }
+
+    function handlePointerDown(e: PointerEvent) {
+      downX = e.clientX;
+      downY = e.clientY;
+    }
+
+    function handleClick(e: MouseEvent) {
+      // Ignore clicks that ended a rotate drag
+      if (Math.hypot(e.clientX - downX, e.clientY - downY) > CLICK_MAX_DRAG_PX) return;
+      const rect = el!.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      const arc = pickArcAt(x, y);
+      if (arc) {
+        onArcSelectRef.current?.(arc);
+        return;
+      }
+      const country = onCountrySelectRef.current ? pickCountryAt(x, y) : null;
+      if (country) {
+        onCountrySelectRef.current?.(country);
+      } else {
+        onArcSelectRef.current?.(null);
+      }
+    }
+
+    el.addEventListener("pointermove", handlePointerMove);
+    el.addEventListener("pointerleave", handlePointerLeave);
+    el.addEventListener("pointerdown", handlePointerDown);
+    el.addEventListener("click", handleClick);
+    return () => {
+      cancelPick();
+      el.removeEventListener("pointermove", handlePointerMove);
+      el.removeEventListener("pointerleave", handlePointerLeave);
+      el.removeEventListener("pointerdown", handlePointerDown);
+      el.removeEventListener("click", handleClick);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ── Re-tint dots when the country filter or color mode changes ──
+  useEffect(() => {
+    const THREE = threeRef.current;
+    if (THREE) updateDotColors(THREE);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCountry, colorMode, netFlows]);
+
   // ── Resize ──
   useEffect(() => {
     function handleResize() {
@@ -1182,6 +1804,74 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
     return () => window.removeEventListener("resize", handleResize);
   }, []);
 
+  // ── Helper: raycast live arcs + impact markers at a container-local pixel ──
+  // Impact markers are real meshes and win on a direct hit; arcs live in the
+  // instanced shader, so they're picked against their CPU-side centerline
+  // (the drawn segment range) within ARC_PICK_TOLERANCE.
+  function pickArcAt(x: number, y: number): ArcData | null {
+    const T = threeRef.current;
+    const el = containerRef.current;
+    const camera = globeRef.current?.camera?.() as THREE_NS.Camera | undefined;
+    const pinned = pinnedArcRef.current;
+    const pickable = [...(pinned ? [pinned] : []), ...liveArcsRef.current, ...overviewArcsRef.current];
+    if (!T || !el || !camera || pickable.length === 0) return null;
+
+    const ndc = new T.Vector2((x / el.clientWidth) * 2 - 1, -(y / el.clientHeight) * 2 + 1);
+    const raycaster = new T.Raycaster();
+    raycaster.setFromCamera(ndc, camera);
+    const ray = raycaster.ray;
+
+    // Anything behind the globe surface is occluded
+    const globeHit = ray.intersectSphere(new T.Sphere(new T.Vector3(0, 0, 0), GLOBE_RADIUS * 0.995), new T.Vector3());
+    const maxDist = globeHit ? ray.origin.distanceTo(globeHit) : Infinity;
+
+    const targets: THREE_NS.Object3D[] = [];
+    const owners = new Map<THREE_NS.Object3D, ArcData>();
+    for (const fx of impactEffectsRef.current) {
+      const owner = fx.parentArc?.arcData;
+      if (!owner || fx.isFadingOut) continue;
+      targets.push(fx.centerDot);
+      owners.set(fx.centerDot, owner);
+    }
+    for (const hit of raycaster.intersectObjects(targets, false)) {
+      if (hit.distance > maxDist) break;
+      const owner = owners.get(hit.object);
+      if (owner) return owner;
+    }
+
+    let best: ArcData | null = null;
+    let bestDistSq = ARC_PICK_TOLERANCE * ARC_PICK_TOLERANCE;
+    const onRay = new T.Vector3();
+    for (const arc of pickable) {
+      if (!ray.intersectsSphere(arc.bounds)) continue;
+      const pts = arc.allPoints;
+      for (let i = arc.visibleStart; i < arc.visibleEnd - 1; i++) {
+        const dSq = ray.distanceSqToSegment(pts[i], pts[i + 1], onRay);
+        if (dSq < bestDistSq && ray.origin.distanceTo(onRay) <= maxDist) {
+          bestDistSq = dSq;
+          best = arc.arcData;
+        }
+      }
+    }
+    return best;
+  }
+
+  // ── Helper: resolve the country under a container-local pixel ──
+  function pickCountryAt(x: number, y: number): string | null {
+    const T = threeRef.current;
+    const el = containerRef.current;
+    const camera = globeRef.current?.camera?.() as THREE_NS.Camera | undefined;
+    if (!T || !el || !camera) return null;
+
+    const ndc = new T.Vector2((x / el.clientWidth) * 2 - 1, -(y / el.clientHeight) * 2 + 1);
+    const raycaster = new T.Raycaster();
+    raycaster.setFromCamera(ndc, camera);
+    const hit = raycaster.ray.intersectSphere(new T.Sphere(new T.Vector3(0, 0, 0), GLOBE_RADIUS * LIFT), new T.Vector3());
+    if (!hit) return null;
+    const { lat, lng } = vec3ToLatLng(hit);
+    return countryAt(lat, lng);
+  }
+
   // ── Helper: create onion shell layers around the globe ──
   function createOnionLayers(T: ThreeModule, group: THREE_NS.Object3D): OnionLayer[] {
     const layerConfigs = [
@@ -1281,31 +1971,6 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
     return layers;
   }
 
-  // ── Helper: rebuild tube geometry for an arc ──
-  function rebuildTube(
-    T: ThreeModule,
-    group: THREE_NS.Object3D,
-    arc: LiveArc,
-    points: THREE_NS.Vector3[],
-    thickness: number,
-    opacity: number
-  ) {
-    try {
-      const tubePath = new T.CatmullRomCurve3(points);
-      tubePath.tension = 0.4;
-      const segments = Math.max(5, Math.min(ARC_TUBE_SEGMENTS, Math.ceil(points.length * 0.8)));
-      const newGeo = new T.TubeGeometry(tubePath, segments, thickness, ARC_RADIAL_SEGMENTS, false);
-
-      group.remove(arc.mesh);
-      arc.mesh.geometry.dispose();
-      arc.mesh.geometry = newGeo;
-      arc.material.opacity = opacity;
-      group.add(arc.mesh);
-    } catch {
-      // Skip frame on error
-    }
-  }
-
   // ── Helper: create impact effect at destination ──
   function createImpact(
     T: ThreeModule,
@@ -1321,19 +1986,20 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
       blending: T.AdditiveBlending,
       toneMapped: false,
     } as const;
+    const geos = impactGeoRef.current ?? (impactGeoRef.current = createImpactGeometries(T));
 
     // Inner expanding ring
-    const ringGeo = new T.RingGeometry(BULLSEYE_SIZE * 0.67, BULLSEYE_SIZE, 24);
     const ringMat = new T.MeshBasicMaterial({ ...matProps, color, opacity: 0.95 });
-    const ring = new T.Mesh(ringGeo, ringMat);
+    const ring = new T.Mesh(geos.ring, ringMat);
+    ring.scale.setScalar(BULLSEYE_SIZE);
     ring.position.copy(position);
     ring.lookAt(new T.Vector3(0, 0, 0));
     group.add(ring);
 
     // Outer expanding ring
-    const outerRingGeo = new T.RingGeometry(BULLSEYE_SIZE * 0.67, BULLSEYE_SIZE, 24);
     const outerRingMat = new T.MeshBasicMaterial({ ...matProps, color: lightenedColor, opacity: 0.75 });
-    const outerRing = new T.Mesh(outerRingGeo, outerRingMat);
+    const outerRing = new T.Mesh(geos.outerRing, outerRingMat);
+    outerRing.scale.setScalar(BULLSEYE_SIZE);
     outerRing.position.copy(position);
     const dirToCenter = new T.Vector3(0, 0, 0).sub(position).normalize();
     outerRing.position.add(dirToCenter.multiplyScalar(0.01 * S));
@@ -1341,9 +2007,8 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
     group.add(outerRing);
 
     // Center dot (bullseye)
-    const centerGeo = new T.CircleGeometry(BULLSEYE_SIZE, 24);
     const centerMat = new T.MeshBasicMaterial({ ...matProps, color, opacity: 0.85 });
-    const centerDot = new T.Mesh(centerGeo, centerMat);
+    const centerDot = new T.Mesh(geos.centerDot, centerMat);
     centerDot.position.copy(position);
     const dirFromCenter = position.clone().normalize();
     centerDot.position.add(dirFromCenter.multiplyScalar(0.008 * S));
@@ -1390,7 +2055,7 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
     }
   }
 
-  // ── Helper: update dot base colors from arc endpoints ──
+  // ── Helper: update dot base colors (token tint from arc endpoints, or net-flow choropleth) ──
   function updateDotColors(THREE: ThreeModule) {
     const mesh = dotMeshRef.current;
     const landDots = landDotsRef.current;
@@ -1398,14 +2063,29 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
     if (!mesh || landDots.length === 0) return;
 
     const color = new THREE.Color();
+    const netFlowMode = colorModeRef.current === "netflow" && !!netFlowsRef.current;
+    const nets = netFlowsRef.current ?? {};
+    const maxNet = maxAbsNetFlow(nets);
     const endpoints: { lat: number; lng: number; color: string }[] = [];
-    for (const arc of arcs) {
-      endpoints.push({ lat: arc.startLat, lng: arc.startLng, color: arc.color });
-      endpoints.push({ lat: arc.endLat, lng: arc.endLng, color: arc.color });
+    if (!netFlowMode) {
+      for (const arc of arcs) {
+        endpoints.push({ lat: arc.startLat, lng: arc.startLng, color: arc.color });
+        endpoints.push({ lat: arc.endLat, lng: arc.endLng, color: arc.color });
+      }
     }
 
     for (let i = 0; i < landDots.length; i++) {
       const dot = landDots[i];
+      let r: number, g: number, b: number;
+
+      if (netFlowMode) {
+        // countryAt() reports registry names, the same keys canonicalCountry() gives computeNetFlows()
+        const net = dot.country ? nets[dot.country] : undefined;
+        [r, g, b] = net != null ? netFlowColor(net, maxNet) : BASE_COLOR;
+        applyDotColor(i, dot, r, g, b);
+        continue;
+      }
+
       let minDist = Infinity;
       let nearestColor = "";
       for (const ep of endpoints) {
@@ -1416,7 +2096,6 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
         }
       }
 
-      let r: number, g: number, b: number;
       if (minDist < 4) {
         [r, g, b] = hexToRgb(nearestColor);
       } else if (minDist < 10) {
@@ -1429,8 +2108,21 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
         [r, g, b] = BASE_COLOR;
       }
 
+      applyDotColor(i, dot, r, g, b);
+    }
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+
+    function applyDotColor(i: number, dot: DotPosition, r: number, g: number, b: number) {
+      // Darken the filtered country so its outline reads against the tint
+      const selected = selectedCountryRef.current;
+      if (selected && dot.country && isSameCountry(dot.country, selected)) {
+        r = r * 0.4 + SELECTED_COUNTRY_COLOR[0] * 0.6;
+        g = g * 0.4 + SELECTED_COUNTRY_COLOR[1] * 0.6;
+        b = b * 0.4 + SELECTED_COUNTRY_COLOR[2] * 0.6;
+      }
+
       color.setRGB(r, g, b);
-      mesh.setColorAt(i, color);
+      mesh!.setColorAt(i, color);
       // Store as base color for glow blending
       if (baseColors) {
         baseColors[i * 3] = r;
@@ -1438,12 +2130,8 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
         baseColors[i * 3 + 2] = b;
       }
     }
-    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
   }
 
-  // Suppress unused warning — kept for potential future use
-  void onArcHover;
-
   return (
     <div className="w-full h-full relative">
       <div
@@ -1454,6 +2142,59 @@ export default function Globe({ arcs, onArcHover, loop = true, paused = false, s
         }}
       />
       <div ref={containerRef} className="w-full h-full" />
+      {colorMode === "netflow" && netFlows && (
+        <div className="absolute bottom-6 left-5 z-10 pointer-events-none w-48">
+          <div className="text-[10px] uppercase tracking-widest text-stone-400 font-medium mb-1">
+            Net stablecoin flow
+          </div>
+          <div
+            className="h-1.5 rounded-full"
+            style={{
+              background: `linear-gradient(to right, ${NETFLOW_COLORS.outflow}, ${NETFLOW_COLORS.neutral}, ${NETFLOW_COLORS.inflow})`,
+            }}
+          />
+          <div className="flex justify-between text-[10px] text-stone-500 tabular-nums mt-1">
+            <span>−{formatUsd(maxAbsNetFlow(netFlows))}</span>
+            <span>0</span>
+            <span>+{formatUsd(maxAbsNetFlow(netFlows))}</span>
+          </div>
+          <div className="flex justify-between text-[9px] text-stone-400 mt-0.5">
+            <span>Net outflow</span>
+            <span>Net inflow</span>
+          </div>
+        </div>
+      )}
+      {tooltip && (
+        <div
+          className="absolute z-20 pointer-events-none px-2.5 py-1.5 rounded-md bg-[#f5f0e8]/95 border border-stone-300/60 shadow-sm"
+          style={{ left: tooltip.x + 14, top: tooltip.y + 14 }}
+        >
+          {tooltip.arc ? (
+            <>
+              <div className="text-[11px] text-stone-700 whitespace-nowrap">{tooltip.arc.label}</div>
+              <div className="text-[10px] text-stone-400 tabular-nums whitespace-nowrap">
+                {formatUsd(tooltip.arc.totalUsd)} · {tooltip.arc.transferCount.toLocaleString()} transfers
+              </div>
+              {tooltip.arc.chain && (tooltip.arc.fromAddress || tooltip.arc.toAddress) && (
+                <div className="text-[10px] text-stone-400 whitespace-nowrap">
+                  <TooltipEndpoint address={tooltip.arc.fromAddress} name={tooltip.arc.fromCountry} /> →{" "}
+                  <TooltipEndpoint address={tooltip.arc.toAddress} name={tooltip.arc.toCountry} />
+                  {" "}· Click for explorer links
+                </div>
+              )}
+            </>
+          ) : tooltip.country ? (
+            <>
+              <div className="text-[11px] text-stone-700 whitespace-nowrap">
+                {countryFlag(tooltip.country)} {tooltip.country}
+              </div>
+              <div className="text-[10px] text-stone-400 whitespace-nowrap">
+                {tooltip.country === selectedCountry ? "Click to clear filter" : "Click to filter flows"}
+              </div>
+            </>
+          ) : null}
+        </div>
+      )}
     </div>
   );
 }
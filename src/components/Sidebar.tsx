@@ -1,11 +1,29 @@
 "use client";
 
 import React, { useRef, useEffect, useState, useCallback } from "react";
-import type { ArcData, WalletData } from "@/lib/types";
-import type { ActiveView, DateRange } from "@/app/page";
+import type {
+  ArcData,
+  ArcMode,
+  EntityLabel,
+  EntityLookup,
+  EntityProfile,
+  EnrichedCounterparty,
+  GlobeColorMode,
+  UnmappedFlows,
+  WalletData,
+  WalletTransaction,
+  WalletTransactionsPage,
+  WalletTxDirection,
+} from "@/lib/types";
+import type { ActiveView, DateRange, WalletGrouping, WalletQuery } from "@/app/page";
 import { CATEGORY_COLORS } from "@/lib/entities";
-import { CHAIN_COORDS } from "@/lib/chains";
-import { COUNTRY_FLAGS } from "@/lib/countries";
+import { ALL_EVM, CHAINS, chainAddressFormat, chainLabel, shortAddress, suggestChain } from "@/lib/chains";
+import { countryFlag } from "@/lib/countries";
+import { AddressLink, TxLink } from "@/components/AddressLink";
+import { groupByEntity, nodeKey, type WalletHop } from "@/lib/walletgraph";
+import { tokenColor, UNKNOWN_TOKEN } from "@/lib/tokens";
+import { QUICK_PRESETS, presetRange, WALLET_LIMITS } from "@/lib/presets";
+import { OVERVIEW_MAX_ARCS } from "@/lib/livearcs";
 
 function formatUsd(n: number): string {
   if (n >= 1e9) return `$${(n / 1e9).toFixed(2)}B`;
@@ -20,17 +38,6 @@ export interface WalletTimelineState {
   speed: 1 | 2 | 5;
 }
 
-// ── Quick-select presets ──
-
-type QuickPreset = { label: string; hours: number };
-
-const QUICK_PRESETS: QuickPreset[] = [
-  { label: "1h", hours: 1 },
-  { label: "6h", hours: 6 },
-  { label: "24h", hours: 24 },
-  { label: "7d", hours: 7 * 24 },
-  { label: "30d", hours: 30 * 24 },
-];
 
 function formatRangeLabel(range: DateRange, isLive: boolean): string {
   if (isLive) {
@@ -50,6 +57,10 @@ function formatRangeLabel(range: DateRange, isLive: boolean): string {
   return `${start} — ${end}`;
 }
 
+function formatUpdatedAt(ms: number): string {
+  return new Date(ms).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
 function toDateTimeInputValue(isoish: string): string {
   return isoish.slice(0, 10) + "T" + isoish.slice(11, 16);
 }
@@ -71,33 +82,30 @@ function DateRangePicker({
   isLive,
   loading,
   onChange,
+  allTime = false,
+  onAllTime,
 }: {
   dateRange: DateRange;
   isLive: boolean;
   loading: boolean;
   defaultHours: number;
   onChange: (range: DateRange, isLive: boolean) => void;
+  // Offers an "All" preset that drops the window entirely
+  allTime?: boolean;
+  onAllTime?: () => void;
 }) {
   const [localStart, setLocalStart] = useState(toDateTimeInputValue(dateRange.startDate));
   const [localEnd, setLocalEnd] = useState(toDateTimeInputValue(dateRange.endDate));
 
+  // Follow external range changes too (preset clicks, back/forward, shared URLs)
   useEffect(() => {
-    if (isLive) {
-      setLocalStart(toDateTimeInputValue(dateRange.startDate));
-      setLocalEnd(toDateTimeInputValue(dateRange.endDate));
-    }
-  }, [dateRange, isLive]);
+    setLocalStart(toDateTimeInputValue(dateRange.startDate));
+    setLocalEnd(toDateTimeInputValue(dateRange.endDate));
+  }, [dateRange]);
 
   const handleQuickSelect = (hours: number) => {
-    // Snap to hour (or day for 7d/30d) boundary so cache keys stay stable
-    const now = new Date();
-    const snapMs = hours >= 24 * 7 ? 86400 * 1000 : 3600 * 1000;
-    const end = new Date(Math.floor(now.getTime() / snapMs) * snapMs);
-    const start = new Date(end.getTime() - hours * 3600 * 1000);
-    const range: DateRange = {
-      startDate: start.toISOString().replace("T", " ").slice(0, 19),
-      endDate: end.toISOString().replace("T", " ").slice(0, 19),
-    };
+    // Hour-snapped so the range matches what the scheduled prefetch warmed
+    const range: DateRange = presetRange(hours);
     setLocalStart(toDateTimeInputValue(range.startDate));
     setLocalEnd(toDateTimeInputValue(range.endDate));
     onChange(range, true);
@@ -113,7 +121,7 @@ function DateRangePicker({
   };
 
   const activePresetHours = (() => {
-    if (!isLive) return null;
+    if (!isLive || allTime) return null;
     const startMs = new Date(dateRange.startDate.replace(" ", "T") + "Z").getTime();
     const endMs = new Date(dateRange.endDate.replace(" ", "T") + "Z").getTime();
     const hours = (endMs - startMs) / (1000 * 60 * 60);
@@ -140,6 +148,19 @@ function DateRangePicker({
             {p.label}
           </button>
         ))}
+        {onAllTime && (
+          <button
+            onClick={onAllTime}
+            disabled={loading}
+            className={`px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors ${
+              allTime
+                ? "bg-stone-800 text-white"
+                : "bg-stone-200/50 text-stone-500 hover:bg-stone-300/50 hover:text-stone-700"
+            } disabled:opacity-40`}
+          >
+            All
+          </button>
+        )}
       </div>
 
       <div className="flex items-end gap-1.5">
@@ -177,19 +198,83 @@ function DateRangePicker({
   );
 }
 
+// ── Globe display toggles (arc mode, color mode) ──
+
+const ARC_MODES: { value: ArcMode; label: string }[] = [
+  { value: "stream", label: "Stream" },
+  { value: "overview", label: "Overview" },
+];
+
+const COLOR_MODES: { value: GlobeColorMode; label: string }[] = [
+  { value: "token", label: "Token tint" },
+  { value: "netflow", label: "Net flow" },
+];
+
+const WALLET_GROUPINGS: { value: WalletGrouping; label: string }[] = [
+  { value: "address", label: "Address" },
+  { value: "entity", label: "Entity" },
+];
+
+function GlobeToggle<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+  note,
+}: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  note?: string | null; // shown under the toggle
+}) {
+  return (
+    <div className={`${SECTION_PAD} ${DIVIDER}`}>
+      <div className="flex items-center justify-between">
+        <div className={LABEL}>{label}</div>
+        <div className="flex items-center gap-1">
+          {options.map((m) => (
+            <button
+              key={m.value}
+              onClick={() => onChange(m.value)}
+              className={`px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors ${
+                value === m.value
+                  ? "bg-stone-800 text-white"
+                  : "bg-stone-200/50 text-stone-500 hover:bg-stone-300/50 hover:text-stone-700"
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {note && <div className="text-[10px] text-amber-700 mt-1.5">{note}</div>}
+    </div>
+  );
+}
+
 // ── Stats Panel ──
 
 interface SidebarProps {
   activeView: ActiveView;
   onViewChange: (view: ActiveView) => void;
   stablecoinArcs: ArcData[];
+  bridgeArcs: ArcData[];
   walletArcs: ArcData[];
   stablecoinLoading: boolean;
+  bridgeLoading: boolean;
   walletLoading: boolean;
   stablecoinError: string | null;
+  bridgeError: string | null;
   walletError: string | null;
   walletData: WalletData | null;
+  walletHops: WalletHop[];
+  walletExpanding: string | null;
   onWalletSearch: (address: string, chain: string) => void;
+  onWalletExpand: (address: string, chain: string) => void;
+  onWalletCollapse: (key: string) => void;
+  onWalletFiltersChange: (range: DateRange | null, limit: number) => void;
+  walletQuery: WalletQuery;
   walletTimeline: WalletTimelineState;
   onTimelinePlayPause: () => void;
   onTimelineRestart: () => void;
@@ -197,34 +282,63 @@ interface SidebarProps {
   onTimelineSeek: (index: number) => void;
   stablecoinDateRange: DateRange;
   stablecoinIsLive: boolean;
+  stablecoinUpdatedAt: number | null;
+  stablecoinRefreshError: string | null; // last live refresh failed; it's being retried
+  stablecoinUnmapped: UnmappedFlows | null;
   onStablecoinDateRangeChange: (range: DateRange, isLive: boolean) => void;
+  bridgeDateRange: DateRange;
+  bridgeIsLive: boolean;
+  onBridgeDateRangeChange: (range: DateRange, isLive: boolean) => void;
   spawnIndex: number;
+  selectedArc: ArcData | null;
+  onArcSelect: (arc: ArcData | null) => void;
+  countryFilter: string | null;
+  onClearCountryFilter: () => void;
+  colorMode: GlobeColorMode;
+  onColorModeChange: (mode: GlobeColorMode) => void;
+  arcMode: ArcMode;
+  onArcModeChange: (mode: ArcMode) => void;
+  walletGrouping: WalletGrouping;
+  onWalletGroupingChange: (grouping: WalletGrouping) => void;
+}
+
+function corridorKey(from: string, to: string): string {
+  return `${from}→${to}`;
 }
 
-function StatsPanel({ arcs, loading, error, corridorLabel, spawnIndex }: {
+function StatsPanel({ arcs, loading, error, corridorLabel, spawnIndex, selectedArc, onArcSelect }: {
   arcs: ArcData[];
   loading: boolean;
   error: string | null;
   corridorLabel: string;
   spawnIndex: number;
+  selectedArc: ArcData | null;
+  onArcSelect: (arc: ArcData | null) => void;
 }) {
+  const selectedRowRef = useRef<HTMLDivElement>(null);
   const totalVolume = arcs.reduce((sum, a) => sum + a.totalUsd, 0);
   const totalTransfers = arcs.reduce((sum, a) => sum + a.transferCount, 0);
 
-  const pairMap = new Map<string, { from: string; to: string; usd: number; count: number }>();
+  const pairMap = new Map<string, { key: string; from: string; to: string; usd: number; count: number; arc: ArcData }>();
   for (const arc of arcs) {
-    const key = `${arc.fromCountry}→${arc.toCountry}`;
+    const key = corridorKey(arc.fromCountry, arc.toCountry);
     const existing = pairMap.get(key);
     if (existing) {
       existing.usd += arc.totalUsd;
       existing.count += arc.transferCount;
     } else {
-      pairMap.set(key, { from: arc.fromCountry, to: arc.toCountry, usd: arc.totalUsd, count: arc.transferCount });
+      pairMap.set(key, { key, from: arc.fromCountry, to: arc.toCountry, usd: arc.totalUsd, count: arc.transferCount, arc });
     }
   }
-  const topPairs = Array.from(pairMap.values())
-    .sort((a, b) => b.usd - a.usd)
-    .slice(0, 12);
+  const rankedPairs = Array.from(pairMap.values()).sort((a, b) => b.usd - a.usd);
+  const topPairs = rankedPairs.slice(0, 12).map((pair, i) => ({ pair, rank: i + 1 }));
+
+  // A pinned corridor stays listed even when it's outside the top 12
+  const selectedKey = selectedArc ? corridorKey(selectedArc.fromCountry, selectedArc.toCountry) : null;
+  const selectedRank = selectedKey ? rankedPairs.findIndex((p) => p.key === selectedKey) : -1;
+  if (selectedRank >= topPairs.length) {
+    topPairs.push({ pair: rankedPairs[selectedRank], rank: selectedRank + 1 });
+  }
 
   const tokenMap = new Map<string, { symbol: string; usd: number; color: string }>();
   for (const arc of arcs) {
@@ -238,6 +352,10 @@ function StatsPanel({ arcs, loading, error, corridorLabel, spawnIndex }: {
   const tokens = Array.from(tokenMap.values()).sort((a, b) => b.usd - a.usd);
   const maxTokenUsd = tokens[0]?.usd || 1;
 
+  useEffect(() => {
+    if (selectedKey) selectedRowRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [selectedKey]);
+
   return (
     <>
       {/* Summary stats */}
@@ -301,27 +419,34 @@ function StatsPanel({ arcs, loading, error, corridorLabel, spawnIndex }: {
         )}
 
         <div className="space-y-0.5">
-          {topPairs.map((pair, i) => (
-            <div
-              key={`${pair.from}-${pair.to}`}
-              className="flex items-center gap-2.5 py-1.5 px-1.5 rounded-md hover:bg-stone-200/40 transition-colors"
-            >
-              <span className="text-stone-300 text-[11px] w-4 text-right tabular-nums">
-                {i + 1}
-              </span>
-              <div className="flex-1 min-w-0">
-                <div className="text-[12px] text-stone-700 truncate">
-                  {COUNTRY_FLAGS[pair.from] ?? ""} {pair.from} → {COUNTRY_FLAGS[pair.to] ?? ""} {pair.to}
+          {topPairs.map(({ pair, rank }) => {
+            const isSelected = pair.key === selectedKey;
+            return (
+              <div
+                key={pair.key}
+                ref={isSelected ? selectedRowRef : undefined}
+                onClick={() => onArcSelect(isSelected ? null : pair.arc)}
+                className={`flex items-center gap-2.5 py-1.5 px-1.5 rounded-md cursor-pointer transition-colors ${
+                  isSelected ? "bg-stone-300/50 ring-1 ring-stone-400/60" : "hover:bg-stone-200/40"
+                }`}
+              >
+                <span className="text-stone-300 text-[11px] w-4 text-right tabular-nums">
+                  {rank}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-[12px] text-stone-700 truncate">
+                    {countryFlag(pair.from)} {pair.from} → {countryFlag(pair.to)} {pair.to}
+                  </div>
+                  <div className="text-[10px] text-stone-400">
+                    {pair.count.toLocaleString()} transfers
+                  </div>
                 </div>
-                <div className="text-[10px] text-stone-400">
-                  {pair.count.toLocaleString()} transfers
+                <div className="text-[12px] font-medium text-stone-700 tabular-nums">
+                  {formatUsd(pair.usd)}
                 </div>
               </div>
-              <div className="text-[12px] font-medium text-stone-700 tabular-nums">
-                {formatUsd(pair.usd)}
-              </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
 
@@ -343,7 +468,19 @@ function formatTimeCompact(dateStr: string | undefined): string {
   }
 }
 
-function TransferLog({ arcs, spawnIndex }: { arcs: ArcData[]; spawnIndex: number }) {
+function TransferLog({
+  arcs,
+  spawnIndex,
+  walletAddress,
+  onWalletSearch,
+  onWalletExpand,
+}: {
+  arcs: ArcData[];
+  spawnIndex: number;
+  walletAddress?: string; // wallet arcs: the explored wallet, so rows link its counterparty
+  onWalletSearch?: (address: string, chain: string) => void;
+  onWalletExpand?: (address: string, chain: string) => void;
+}) {
   const shown = Math.min(spawnIndex, arcs.length);
 
   const visible = [];
@@ -358,6 +495,7 @@ function TransferLog({ arcs, spawnIndex }: { arcs: ArcData[]; spawnIndex: number
         <div className="space-y-px">
           {visible.map(({ arc, idx }) => {
             const isNewest = idx === shown - 1;
+            const counterparty = arc.fromAddress === walletAddress ? arc.toAddress : arc.fromAddress;
             return (
               <div
                 key={`${arc.fromCountry}-${arc.toCountry}-${arc.tokenSymbol}-${idx}`}
@@ -371,9 +509,18 @@ function TransferLog({ arcs, spawnIndex }: { arcs: ArcData[]; spawnIndex: number
                 />
                 <div className="flex-1 min-w-0">
                   <div className="text-[11px] text-stone-600 truncate">
-                    {COUNTRY_FLAGS[arc.fromCountry] ?? ""} {arc.fromCountry} → {COUNTRY_FLAGS[arc.toCountry] ?? ""} {arc.toCountry}
+                    {countryFlag(arc.fromCountry)} {arc.fromCountry} → {countryFlag(arc.toCountry)} {arc.toCountry}
                   </div>
+                  {arc.chain && (counterparty || arc.txHash) && (
+                    <div className="flex items-center gap-2 min-w-0">
+                      {counterparty && (
+                        <AddressLink address={counterparty} chain={arc.chain} onSearch={onWalletSearch} onExpand={onWalletExpand} />
+                      )}
+                      {arc.txHash && <TxLink hash={arc.txHash} chain={arc.chain} />}
+                    </div>
+                  )}
                 </div>
+                {arc.hop !== undefined && arc.hop > 1 && <HopBadge hop={arc.hop} />}
                 <div className="text-[10px] text-stone-400 shrink-0">
                   {arc.tokenSymbol}
                 </div>
@@ -544,39 +691,597 @@ function WalletTimeline({
 
 // ── Wallet Panel ──
 
-const CHAIN_OPTIONS = Object.entries(CHAIN_COORDS)
+const CHAIN_OPTIONS = Object.entries(CHAINS)
   .filter(([key]) => !["polygon_zkevm", "plasma"].includes(key))
   .map(([key, info]) => ({ value: key, label: info.label }))
   .sort((a, b) => a.label.localeCompare(b.label));
 
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+function formatAmount(amount: number | string): string {
+  const n = typeof amount === "number" ? amount : Number(amount);
+  if (!Number.isFinite(n)) return String(amount);
+  return n.toLocaleString(undefined, { maximumFractionDigits: n >= 1 ? 2 : 6 });
+}
+
+/** A wallet's individual transactions, paged from /api/wallet/transactions. */
+function TransactionList({
+  address,
+  chains,
+  tokens,
+  onWalletSearch,
+  onWalletExpand,
+}: {
+  address: string;
+  chains: string[]; // several for an "All EVM chains" lookup; the list shows one at a time
+  tokens: string[]; // offered as filters
+  onWalletSearch: (address: string, chain: string) => void;
+  onWalletExpand: (address: string, chain: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [chain, setChain] = useState(chains[0] ?? "");
+  const [token, setToken] = useState("");
+  const [direction, setDirection] = useState<WalletTxDirection | "">("");
+  const [items, setItems] = useState<WalletTransaction[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const requestRef = useRef(0);
+
+  const loadPage = useCallback(
+    async (after: string | null) => {
+      const request = ++requestRef.current;
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams({ address, chain, limit: "25" });
+      if (after) params.set("cursor", after);
+      if (token) params.set("token", token);
+      if (direction) params.set("direction", direction);
+      try {
+        const res = await fetch(`/api/wallet/transactions?${params}`);
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+        if (request !== requestRef.current) return;
+        const page = body as WalletTransactionsPage;
+        setItems((prev) => (after ? [...prev, ...page.items] : page.items));
+        setCursor(page.cursor);
+      } catch (err) {
+        if (request !== requestRef.current) return;
+        setError(err instanceof Error ? err.message : "Failed to load transactions");
+      } finally {
+        if (request === requestRef.current) setLoading(false);
+      }
+    },
+    [address, chain, token, direction]
+  );
+
+  // Start over from the newest page whenever the list opens or a filter changes
+  useEffect(() => {
+    if (!open) return;
+    setItems([]);
+    setCursor(null);
+    setExpanded(null);
+    loadPage(null);
+  }, [open, loadPage]);
+
+  const selectClass =
+    "px-2 py-1 text-[11px] bg-white/50 border border-stone-200 rounded-md text-stone-700 focus:outline-none focus:border-stone-400";
+
+  return (
+    <div className={`${SECTION_PAD} ${DIVIDER}`}>
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        className="w-full flex items-center justify-between"
+      >
+        <span className={LABEL}>Transactions</span>
+        <span className="text-[10px] text-stone-400">{open ? "Hide" : "Show"}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <div className="flex gap-1.5">
+            {chains.length > 1 && (
+              <select value={chain} onChange={(e) => setChain(e.target.value)} className={selectClass}>
+                {chains.map((c) => (
+                  <option key={c} value={c}>
+                    {chainLabel(c)}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select value={token} onChange={(e) => setToken(e.target.value)} className={selectClass}>
+              <option value="">All tokens</option>
+              {tokens.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as WalletTxDirection | "")}
+              className={selectClass}
+            >
+              <option value="">Sent & received</option>
+              <option value="sent">Sent</option>
+              <option value="received">Received</option>
+            </select>
+          </div>
+
+          {error && <div className="text-red-600 text-xs bg-red-50 p-2.5 rounded-md">{error}</div>}
+
+          <div className="space-y-px">
+            {items.map((tx) => {
+              const isOpen = expanded === tx.hash;
+              const legs = tx.asset_transfers.filter((t) => t.from_address === address || t.to_address === address);
+              const primary = legs[0] ?? tx.asset_transfers[0];
+              const sent = primary ? primary.from_address === address : tx.from_address === address;
+              const counterparty = primary
+                ? sent ? primary.to_address : primary.from_address
+                : sent ? tx.to_address : tx.from_address;
+              return (
+                <div key={tx.hash} className={`rounded-md transition-colors ${isOpen ? "bg-stone-200/40" : "hover:bg-stone-200/30"}`}>
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(isOpen ? null : tx.hash)}
+                    className="w-full flex items-center gap-2 py-1.5 px-1.5 text-left"
+                  >
+                    <span className={`text-[11px] w-3 shrink-0 ${sent ? "text-red-500/80" : "text-emerald-600/80"}`}>
+                      {sent ? "↑" : "↓"}
+                    </span>
+                    <span className="flex-1 min-w-0 text-[11px] text-stone-700 truncate">
+                      {primary ? `${formatAmount(primary.amount.amount)} ${primary.asset.symbol}` : "Contract call"}
+                      {tx.asset_transfers.length > 1 && (
+                        <span className="text-stone-400"> +{tx.asset_transfers.length - 1}</span>
+                      )}
+                      {tx.labels.length > 0 && <span className="text-stone-400"> · {tx.labels[0]}</span>}
+                    </span>
+                    <span className="text-[10px] text-stone-400 tabular-nums shrink-0">{formatDateTime(tx.block_timestamp)}</span>
+                  </button>
+
+                  {isOpen && (
+                    <div className="px-1.5 pb-2 pl-6 space-y-1.5">
+                      <div className="flex items-center gap-2 text-[10px] text-stone-400">
+                        <span className="w-6">Tx</span>
+                        <TxLink hash={tx.hash} chain={chain} />
+                      </div>
+                      {counterparty && (
+                        <div className="flex items-center gap-2 text-[10px] text-stone-400">
+                          <span className="w-6">{sent ? "To" : "From"}</span>
+                          <AddressLink address={counterparty} chain={chain} onSearch={onWalletSearch} onExpand={onWalletExpand} />
+                        </div>
+                      )}
+                      {tx.asset_transfers.length > 0 && (
+                        <div className="space-y-0.5">
+                          {tx.asset_transfers.map((t, i) => {
+                            const out = t.from_address === address;
+                            const into = t.to_address === address;
+                            return (
+                              <div key={i} className="flex items-center gap-2 text-[10px]">
+                                <span
+                                  className={`tabular-nums ${out ? "text-red-500/80" : into ? "text-emerald-600/80" : "text-stone-500"}`}
+                                >
+                                  {out ? "-" : into ? "+" : ""}
+                                  {formatAmount(t.amount.amount)} {t.asset.symbol || t.asset.name || "?"}
+                                </span>
+                                <span className="text-stone-300 font-mono truncate">
+                                  {shortAddress(t.from_address)} → {shortAddress(t.to_address)}
+                                </span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {loading && (
+            <div className="flex items-center justify-center py-3">
+              <div className="w-4 h-4 border-2 border-stone-300 border-t-stone-600 rounded-full animate-spin" />
+            </div>
+          )}
+
+          {!loading && !error && items.length === 0 && (
+            <div className="text-[11px] text-stone-400 py-2">No matching transactions.</div>
+          )}
+
+          {!loading && cursor && (
+            <button
+              type="button"
+              onClick={() => loadPage(cursor)}
+              className="w-full py-1.5 text-[11px] text-stone-500 hover:text-stone-800 border border-stone-200 rounded-md transition-colors"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── EntityProfile ──
+
+// Addresses listed per chain before "Show all"
+const PROFILE_ADDRESS_PREVIEW = 5;
+
+/**
+ * Everything known about the entity behind one counterparty: its label, the
+ * addresses labeled with the same project on any chain, and what all of them
+ * moved with the wallets explored so far.
+ */
+function EntityProfilePanel({
+  address,
+  chain,
+  entity: knownEntity,
+  hops,
+  onClose,
+  onWalletSearch,
+  onWalletExpand,
+}: {
+  address: string;
+  chain: string;
+  entity: EntityLabel | null; // the wallet query's label, if it had one
+  hops: WalletHop[];
+  onClose: () => void;
+  onWalletSearch: (address: string, chain: string) => void;
+  onWalletExpand: (address: string, chain: string) => void;
+}) {
+  const [entity, setEntity] = useState<EntityLabel | null>(knownEntity);
+  const [profile, setProfile] = useState<EntityProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setProfile(null);
+    setError(null);
+    setLoading(true);
+    (async () => {
+      try {
+        // Counterparties the wallet query left unlabeled may still have a label
+        let label = knownEntity;
+        if (!label?.project) {
+          const res = await fetch(`/api/entity?address=${encodeURIComponent(address)}&chain=${encodeURIComponent(chain)}`);
+          const body = await res.json().catch(() => ({}));
+          if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+          label = (body as EntityLookup).entity ?? label;
+        }
+        if (cancelled) return;
+        setEntity(label);
+        if (!label?.project) return;
+
+        const res = await fetch(`/api/entity/${encodeURIComponent(label.project.toLowerCase())}`);
+        const body = await res.json().catch(() => ({}));
+        // A label whose project lists no addresses still shows as a profile of one
+        if (res.status === 404) return;
+        if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+        if (!cancelled) setProfile(body as EntityProfile);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load entity");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chain, knownEntity]);
+
+  const addresses = profile?.addresses.length ? profile.addresses : entity?.address ? [entity] : [];
+  const byChain = new Map<string, EntityLabel[]>();
+  for (const a of addresses) {
+    const list = byChain.get(a.chain) || [];
+    list.push(a);
+    byChain.set(a.chain, list);
+  }
+  const chainGroups = Array.from(byChain.entries()).sort((a, b) => b[1].length - a[1].length);
+
+  // Activity of any of the entity's addresses across the explored wallets
+  const project = entity?.project?.toLowerCase() || null;
+  const known = new Set(addresses.map((a) => nodeKey(a.address, a.chain)));
+  known.add(nodeKey(address, chain));
+  const activity = new Map<string, { transfers: number; sent: number; received: number }>();
+  for (const hop of hops) {
+    for (const cp of hop.data.counterparties) {
+      const key = nodeKey(cp.address, cp.chain);
+      if (!known.has(key) && !(project && cp.entity?.project?.toLowerCase() === project)) continue;
+      const existing = activity.get(key) || { transfers: 0, sent: 0, received: 0 };
+      existing.transfers += cp.transferCount;
+      existing.sent += cp.totalSent;
+      existing.received += cp.totalReceived;
+      activity.set(key, existing);
+    }
+  }
+  const totals = Array.from(activity.values()).reduce(
+    (t, a) => ({ transfers: t.transfers + a.transfers, sent: t.sent + a.sent, received: t.received + a.received }),
+    { transfers: 0, sent: 0, received: 0 }
+  );
+
+  const category = (profile?.category || entity?.category || "unknown").toLowerCase();
+  const color = CATEGORY_COLORS[category] ?? CATEGORY_COLORS.unknown;
+  const title = entity?.project || entity?.name || shortAddress(address);
+
+  return (
+    <>
+      <div className={`${SECTION_PAD} ${DIVIDER} space-y-2`}>
+        <button type="button" onClick={onClose} className="text-[11px] text-stone-400 hover:text-stone-700">
+          ← Back to wallet
+        </button>
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: color }} />
+          <div className="text-[15px] font-semibold text-stone-800 truncate capitalize">{title}</div>
+          <span className="text-[9px] uppercase tracking-wider text-stone-400 shrink-0">{category}</span>
+        </div>
+        {entity?.name && entity.name !== title && <div className="text-[11px] text-stone-500">{entity.name}</div>}
+        {!loading && !entity && (
+          <div className="text-[11px] text-stone-400">No entity label for this address.</div>
+        )}
+      </div>
+
+      {error && <div className="mx-5 mt-3 text-red-600 text-xs bg-red-50 p-2.5 rounded-md">{error}</div>}
+
+      {/* What the entity moved with the explored wallets */}
+      <div className={`grid grid-cols-2 gap-4 ${SECTION_PAD} ${DIVIDER}`}>
+        <div>
+          <div className={LABEL}>Sent to it</div>
+          <div className="text-base font-semibold text-stone-800 tabular-nums mt-1">{formatUsd(totals.sent)}</div>
+        </div>
+        <div>
+          <div className={LABEL}>Received from it</div>
+          <div className="text-base font-semibold text-stone-800 tabular-nums mt-1">{formatUsd(totals.received)}</div>
+        </div>
+        <div>
+          <div className={LABEL}>Transfers</div>
+          <div className="text-base font-semibold text-stone-800 tabular-nums mt-1">
+            {totals.transfers.toLocaleString()}
+          </div>
+        </div>
+        <div>
+          <div className={LABEL}>Addresses active</div>
+          <div className="text-base font-semibold text-stone-800 tabular-nums mt-1">
+            {activity.size}
+            <span className="text-[11px] font-normal text-stone-400"> / {Math.max(addresses.length, activity.size)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Known addresses, grouped by chain */}
+      <div className={`flex-1 overflow-y-auto ${SECTION_PAD}`}>
+        <div className="flex items-center justify-between mb-2">
+          <div className={LABEL}>Known addresses</div>
+          {profile && (
+            <div className="text-[10px] text-stone-400">
+              {profile.addresses.length}
+              {profile.truncated && "+"} on {chainGroups.length} {chainGroups.length === 1 ? "chain" : "chains"}
+            </div>
+          )}
+        </div>
+
+        {loading && (
+          <div className="flex items-center justify-center py-6">
+            <div className="w-4 h-4 border-2 border-stone-300 border-t-stone-600 rounded-full animate-spin" />
+          </div>
+        )}
+
+        {!loading && (
+          <div className="space-y-3">
+            {chainGroups.map(([groupChain, list]) => {
+              const expanded = showAll.has(groupChain);
+              const shown = expanded ? list : list.slice(0, PROFILE_ADDRESS_PREVIEW);
+              return (
+                <div key={groupChain}>
+                  <div className="flex items-center gap-1.5 mb-1">
+                    <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: CHAINS[groupChain]?.color }} />
+                    <div className="text-[11px] text-stone-600">{chainLabel(groupChain)}</div>
+                    <div className="text-[10px] text-stone-400 tabular-nums">{list.length}</div>
+                  </div>
+                  <div className="space-y-0.5">
+                    {shown.map((a) => {
+                      const stats = activity.get(nodeKey(a.address, a.chain));
+                      return (
+                        <div key={a.address} className="flex items-center gap-2 py-1 px-1.5 rounded-md hover:bg-stone-200/40">
+                          <div className="flex-1 min-w-0">
+                            <div className="text-[11px] text-stone-700 truncate">{a.name || shortAddress(a.address)}</div>
+                            <AddressLink
+                              address={a.address}
+                              chain={a.chain}
+                              onSearch={onWalletSearch}
+                              onExpand={onWalletExpand}
+                            />
+                          </div>
+                          {stats && (
+                            <div className="text-[10px] text-stone-500 tabular-nums shrink-0">
+                              {stats.transfers} transfers
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {list.length > PROFILE_ADDRESS_PREVIEW && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setShowAll((prev) => {
+                          const next = new Set(prev);
+                          if (expanded) next.delete(groupChain);
+                          else next.add(groupChain);
+                          return next;
+                        })
+                      }
+                      className="mt-1 text-[10px] text-stone-400 hover:text-stone-700"
+                    >
+                      {expanded ? "Show fewer" : `Show all ${list.length}`}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
+
+function HopBadge({ hop }: { hop: number }) {
+  return (
+    <span className="px-1 rounded bg-stone-200/70 text-[9px] text-stone-500 tabular-nums shrink-0" title={`${hop} hops from the searched wallet`}>
+      {hop}°
+    </span>
+  );
+}
+
+/** The searched wallet followed by each expanded wallet, in the order they were expanded. */
+function WalletBreadcrumb({
+  hops,
+  focusKey,
+  expanding,
+  onFocus,
+  onCollapse,
+}: {
+  hops: WalletHop[];
+  focusKey: string;
+  expanding: string | null;
+  onFocus: (key: string) => void;
+  onCollapse: (key: string) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {hops.map((hop, i) => {
+        const key = nodeKey(hop.data.address, hop.data.chain);
+        const focused = key === focusKey;
+        return (
+          <React.Fragment key={key}>
+            {i > 0 && <span className="text-stone-300 text-[10px]">›</span>}
+            <span
+              className={`inline-flex items-center gap-1 pl-1.5 pr-1 py-0.5 rounded text-[10px] font-mono transition-colors ${
+                focused ? "bg-stone-800 text-white" : "bg-stone-200/60 text-stone-600 hover:bg-stone-300/60"
+              }`}
+            >
+              <button type="button" onClick={() => onFocus(key)} title={`${hop.data.address} · hop ${hop.depth}`}>
+                {shortAddress(hop.data.address)}
+              </button>
+              {i > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onCollapse(key)}
+                  className={focused ? "text-white/60 hover:text-white" : "text-stone-400 hover:text-stone-700"}
+                  title="Collapse this wallet and everything expanded from it"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          </React.Fragment>
+        );
+      })}
+      {expanding && (
+        <span className="inline-flex items-center gap-1 text-[10px] text-stone-400">
+          <span className="inline-block w-2.5 h-2.5 border border-stone-300 border-t-stone-600 rounded-full animate-spin" />
+          expanding
+        </span>
+      )}
+    </div>
+  );
+}
+
 function WalletPanel({
   walletData,
+  walletHops,
+  walletExpanding,
   walletLoading,
   walletError,
   onWalletSearch,
+  onWalletExpand,
+  onWalletCollapse,
+  onWalletFiltersChange,
+  walletGrouping,
+  onWalletGroupingChange,
+  walletQuery,
   walletArcs,
   spawnIndex,
 }: {
   walletData: WalletData | null;
+  walletHops: WalletHop[];
+  walletExpanding: string | null;
   walletLoading: boolean;
   walletError: string | null;
   onWalletSearch: (address: string, chain: string) => void;
+  onWalletExpand: (address: string, chain: string) => void;
+  onWalletCollapse: (key: string) => void;
+  onWalletFiltersChange: (range: DateRange | null, limit: number) => void;
+  walletGrouping: WalletGrouping;
+  onWalletGroupingChange: (grouping: WalletGrouping) => void;
+  walletQuery: WalletQuery;
   walletArcs: ArcData[];
   spawnIndex: number;
 }) {
-  const [address, setAddress] = useState("0xdbf5e9c5206d0db70a90108bf936da60221dc080");
-  const [chain, setChain] = useState("ethereum");
+  const [address, setAddress] = useState(walletQuery.address);
+  const [chain, setChain] = useState(walletQuery.chain);
+  const [focusKey, setFocusKey] = useState<string | null>(null);
+  const [profileOf, setProfileOf] = useState<EnrichedCounterparty | null>(null);
+  const [openGroup, setOpenGroup] = useState<string | null>(null);
+
+  // A new search closes any open entity profile
+  useEffect(() => {
+    setProfileOf(null);
+  }, [walletData]);
+
+  // Follow the most recently expanded wallet; collapsing it falls back to the one before
+  useEffect(() => {
+    const last = walletHops[walletHops.length - 1];
+    setFocusKey(last ? nodeKey(last.data.address, last.data.chain) : null);
+  }, [walletHops]);
+
+  const focusedHop = walletHops.find((h) => nodeKey(h.data.address, h.data.chain) === focusKey) ?? walletHops[0];
+  const hopData = focusedHop?.data ?? walletData;
+  const expandedKeys = new Set(walletHops.map((h) => nodeKey(h.data.address, h.data.chain)));
+
+  // Keep the form in step with wallets loaded from the URL or history
+  useEffect(() => {
+    setAddress(walletQuery.address);
+    setChain(walletQuery.chain);
+  }, [walletQuery]);
+
+  const trimmed = address.trim();
+  const addressFormat = chainAddressFormat(chain);
+  const normalized = trimmed && addressFormat ? addressFormat.normalize(trimmed) : null;
+  const invalid = !!trimmed && !normalized;
+  const suggested = invalid ? suggestChain(trimmed) : null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const trimmed = address.trim();
-    if (!trimmed) return;
-    onWalletSearch(trimmed, chain);
+    if (!normalized) return;
+    onWalletSearch(normalized, chain);
   };
 
+  // Grouped by entity, a project's addresses count once in the list and the stats
+  const counterparties = hopData
+    ? walletGrouping === "entity"
+      ? groupByEntity(hopData.counterparties)
+      : hopData.counterparties
+    : [];
+
   const categoryStats = new Map<string, { count: number; transfers: number }>();
-  if (walletData) {
-    for (const cp of walletData.counterparties) {
+  if (hopData) {
+    for (const cp of counterparties) {
       const cat = cp.entity?.category?.toLowerCase() ?? "unknown";
       const existing = categoryStats.get(cat) || { count: 0, transfers: 0 };
       existing.count += 1;
@@ -588,9 +1293,23 @@ function WalletPanel({
     .sort((a, b) => b[1].transfers - a[1].transfers);
   const maxCatTransfers = categories[0]?.[1].transfers || 1;
 
-  const totalSent = walletData?.counterparties.reduce((s, c) => s + c.totalSent, 0) ?? 0;
-  const totalReceived = walletData?.counterparties.reduce((s, c) => s + c.totalReceived, 0) ?? 0;
-  const totalTransfers = walletData?.counterparties.reduce((s, c) => s + c.transferCount, 0) ?? 0;
+  // Per-token USD across every counterparty, split by direction
+  const tokenStats = new Map<string, { sent: number; received: number }>();
+  for (const cp of hopData?.counterparties ?? []) {
+    for (const t of cp.tokenBreakdown) {
+      const existing = tokenStats.get(t.symbol) || { sent: 0, received: 0 };
+      existing.sent += t.sentUsd;
+      existing.received += t.receivedUsd;
+      tokenStats.set(t.symbol, existing);
+    }
+  }
+  const tokens = Array.from(tokenStats.entries())
+    .sort((a, b) => b[1].sent + b[1].received - (a[1].sent + a[1].received));
+  const maxTokenUsd = tokens[0] ? tokens[0][1].sent + tokens[0][1].received || 1 : 1;
+
+  const totalSent = hopData?.counterparties.reduce((s, c) => s + c.totalSent, 0) ?? 0;
+  const totalReceived = hopData?.counterparties.reduce((s, c) => s + c.totalReceived, 0) ?? 0;
+  const totalTransfers = hopData?.counterparties.reduce((s, c) => s + c.transferCount, 0) ?? 0;
 
   return (
     <>
@@ -602,9 +1321,28 @@ function WalletPanel({
             type="text"
             value={address}
             onChange={(e) => setAddress(e.target.value)}
-            placeholder="0x..."
-            className="w-full px-3 py-2 text-[12px] bg-white/50 border border-stone-200 rounded-md text-stone-800 placeholder-stone-400 focus:outline-none focus:border-stone-400"
+            placeholder={addressFormat?.placeholder ?? "0x..."}
+            className={`w-full px-3 py-2 text-[12px] bg-white/50 border rounded-md text-stone-800 placeholder-stone-400 focus:outline-none ${
+              invalid ? "border-red-300 focus:border-red-400" : "border-stone-200 focus:border-stone-400"
+            }`}
           />
+          {invalid && (
+            <div className="mt-1 text-[10px] text-red-500">
+              Not a valid {chainLabel(chain)} address — expected {addressFormat?.description ?? "a known format"}.
+              {suggested && suggested !== chain && (
+                <>
+                  {" "}
+                  <button
+                    type="button"
+                    onClick={() => setChain(suggested)}
+                    className="underline text-stone-600 hover:text-stone-800"
+                  >
+                    Looks like {CHAINS[suggested].label}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
         </div>
         <div className="flex gap-1.5">
           <div className="flex-1">
@@ -614,6 +1352,7 @@ function WalletPanel({
               onChange={(e) => setChain(e.target.value)}
               className="w-full px-3 py-2 text-[12px] bg-white/50 border border-stone-200 rounded-md text-stone-800 focus:outline-none focus:border-stone-400"
             >
+              <option value={ALL_EVM}>{chainLabel(ALL_EVM)}</option>
               {CHAIN_OPTIONS.map((c) => (
                 <option key={c.value} value={c.value}>
                   {c.label}
@@ -624,7 +1363,7 @@ function WalletPanel({
           <div className="flex items-end">
             <button
               type="submit"
-              disabled={walletLoading || !address.trim()}
+              disabled={walletLoading || !normalized}
               className="px-4 py-2 text-[12px] font-medium bg-stone-800 text-white rounded-md hover:bg-stone-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
             >
               {walletLoading ? (
@@ -637,6 +1376,32 @@ function WalletPanel({
         </div>
       </form>
 
+      {/* Time window and counterparty limit, applied to the current wallet */}
+      <DateRangePicker
+        dateRange={walletQuery.range ?? presetRange(7 * 24)}
+        isLive={!!walletQuery.range}
+        loading={walletLoading}
+        defaultHours={7 * 24}
+        onChange={(range) => onWalletFiltersChange(range, walletQuery.limit)}
+        allTime={!walletQuery.range}
+        onAllTime={() => onWalletFiltersChange(null, walletQuery.limit)}
+      />
+      <div className={`${SECTION_PAD} ${DIVIDER} flex items-center justify-between`}>
+        <span className={LABEL}>Top counterparties</span>
+        <select
+          value={walletQuery.limit}
+          onChange={(e) => onWalletFiltersChange(walletQuery.range, Number(e.target.value))}
+          disabled={walletLoading}
+          className="px-2 py-1 text-[11px] bg-white/50 border border-stone-200 rounded-md text-stone-700 focus:outline-none focus:border-stone-400 disabled:opacity-40"
+        >
+          {WALLET_LIMITS.map((n) => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {walletError && (
         <div className="mx-5 mt-3 text-red-600 text-xs bg-red-50 p-2.5 rounded-md">
           {walletError}
@@ -649,20 +1414,98 @@ function WalletPanel({
         </div>
       )}
 
-      {walletData && !walletLoading && (
+      {walletData && hopData && !walletLoading && profileOf && (
+        <EntityProfilePanel
+          address={profileOf.address}
+          chain={profileOf.chain}
+          entity={profileOf.entity}
+          hops={walletHops}
+          onClose={() => setProfileOf(null)}
+          onWalletSearch={onWalletSearch}
+          onWalletExpand={onWalletExpand}
+        />
+      )}
+
+      {walletData && hopData && !walletLoading && !profileOf && (
         <>
+          {/* Explored wallets: the searched one plus any expanded counterparties */}
+          <div className={`${SECTION_PAD} ${DIVIDER} space-y-2`}>
+            {(walletHops.length > 1 || walletExpanding) && (
+              <WalletBreadcrumb
+                hops={walletHops}
+                focusKey={nodeKey(hopData.address, hopData.chain)}
+                expanding={walletExpanding}
+                onFocus={setFocusKey}
+                onCollapse={onWalletCollapse}
+              />
+            )}
+            <div className="flex items-center justify-between gap-2">
+              <div className={LABEL}>
+                {hopData.chain === ALL_EVM ? `EVM wallet · ${hopData.chains?.length ?? 0} chains` : `${chainLabel(hopData.chain)} wallet`}
+                {focusedHop && focusedHop.depth > 0 && <> · hop {focusedHop.depth}</>}
+              </div>
+              <AddressLink address={hopData.address} chain={hopData.chain} className="text-[11px] text-stone-600" />
+            </div>
+            {hopData.failedChains && hopData.failedChains.length > 0 && (
+              <div className="text-[10px] text-amber-700">
+                Couldn&apos;t load {hopData.failedChains.map(chainLabel).join(", ")}
+              </div>
+            )}
+          </div>
+
+          {/* Per-chain breakdown for an "All EVM chains" lookup */}
+          {hopData.chains && hopData.chains.length > 0 && (
+            <div className={`${SECTION_PAD} ${DIVIDER}`}>
+              <div className={`${LABEL} mb-3`}>Chains</div>
+              <div className="space-y-2">
+                {hopData.chains.map((c) => (
+                  <button
+                    key={c.chain}
+                    type="button"
+                    onClick={() => onWalletSearch(hopData.address, c.chain)}
+                    className="w-full flex items-center gap-2.5 text-left group"
+                    title={`${c.counterparties} counterparties · ${formatUsd(c.totalSent)} sent · ${formatUsd(c.totalReceived)} received. Click to explore ${chainLabel(c.chain)} only.`}
+                  >
+                    <div
+                      className="w-1.5 h-1.5 rounded-full shrink-0"
+                      style={{ backgroundColor: CHAINS[c.chain]?.color }}
+                    />
+                    <div className="text-[12px] text-stone-600 w-16 truncate group-hover:text-stone-900">{chainLabel(c.chain)}</div>
+                    <div className="flex-1 h-1 bg-stone-200/80 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full transition-all duration-700"
+                        style={{
+                          width: `${(c.transferCount / (hopData.chains?.[0]?.transferCount || 1)) * 100}%`,
+                          backgroundColor: CHAINS[c.chain]?.color,
+                        }}
+                      />
+                    </div>
+                    <div className="text-[11px] text-stone-500 w-10 text-right tabular-nums">{c.transferCount}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <GlobeToggle
+            label="Group by"
+            options={WALLET_GROUPINGS}
+            value={walletGrouping}
+            onChange={onWalletGroupingChange}
+          />
+
           {/* Stats */}
           <div className={`grid grid-cols-2 gap-4 ${SECTION_PAD} ${DIVIDER}`}>
             <div>
               <div className={LABEL}>Sent</div>
               <div className="text-base font-semibold text-stone-800 tabular-nums mt-1">
-                {totalSent.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                {formatUsd(totalSent)}
               </div>
             </div>
             <div>
               <div className={LABEL}>Received</div>
               <div className="text-base font-semibold text-stone-800 tabular-nums mt-1">
-                {totalReceived.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                {formatUsd(totalReceived)}
               </div>
             </div>
             <div>
@@ -674,11 +1517,47 @@ function WalletPanel({
             <div>
               <div className={LABEL}>Counterparties</div>
               <div className="text-base font-semibold text-stone-800 tabular-nums mt-1">
-                {walletData.counterparties.length}
+                {counterparties.length}
               </div>
             </div>
           </div>
 
+          {/* Token breakdown: sent and received share one bar */}
+          {tokens.length > 0 && (
+            <div className={`${SECTION_PAD} ${DIVIDER}`}>
+              <div className="flex items-center justify-between mb-3">
+                <div className={LABEL}>Tokens</div>
+                <div className="text-[10px] text-stone-400">
+                  <span className="text-red-500/80">sent</span> · <span className="text-emerald-600/80">received</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                {tokens.slice(0, 6).map(([symbol, usd]) => (
+                  <div key={symbol} className="flex items-center gap-2.5">
+                    <div
+                      className="w-1.5 h-1.5 rounded-full shrink-0"
+                      style={{ backgroundColor: tokenColor(symbol) }}
+                    />
+                    <div className="text-[12px] text-stone-600 w-12 truncate">{symbol}</div>
+                    <div className="flex-1 h-1 bg-stone-200/80 rounded-full overflow-hidden flex">
+                      <div
+                        className="h-full bg-red-400/70 transition-all duration-700"
+                        style={{ width: `${(usd.sent / maxTokenUsd) * 100}%` }}
+                      />
+                      <div
+                        className="h-full bg-emerald-500/70 transition-all duration-700"
+                        style={{ width: `${(usd.received / maxTokenUsd) * 100}%` }}
+                      />
+                    </div>
+                    <div className="text-[11px] text-stone-500 w-14 text-right tabular-nums">
+                      {formatUsd(usd.sent + usd.received)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Categories */}
           {categories.length > 0 && (
             <div className={`${SECTION_PAD} ${DIVIDER}`}>
@@ -713,48 +1592,124 @@ function WalletPanel({
           <div className={`flex-1 overflow-y-auto ${SECTION_PAD}`}>
             <div className={`${LABEL} mb-2`}>Counterparties</div>
             <div className="space-y-0.5">
-              {walletData.counterparties.slice(0, 20).map((cp, i) => {
+              {counterparties.slice(0, 20).map((cp, i) => {
                 const cat = cp.entity?.category?.toLowerCase() ?? "unknown";
                 const color = CATEGORY_COLORS[cat] ?? CATEGORY_COLORS.unknown;
-                const name = cp.entity?.name || `${cp.address.slice(0, 6)}...${cp.address.slice(-4)}`;
+                const name = cp.entity?.name || shortAddress(cp.address);
+                const expanded = !cp.members && expandedKeys.has(nodeKey(cp.address, cp.chain));
+                const groupOpen = !!cp.members && openGroup === cp.address;
                 return (
-                  <div
-                    key={cp.address}
-                    className="flex items-center gap-2.5 py-1.5 px-1.5 rounded-md hover:bg-stone-200/40 transition-colors"
-                  >
-                    <span className="text-stone-300 text-[11px] w-4 text-right tabular-nums">
-                      {i + 1}
-                    </span>
-                    <div
-                      className="w-1.5 h-1.5 rounded-full shrink-0"
-                      style={{ backgroundColor: color }}
-                    />
-                    <div className="flex-1 min-w-0">
-                      <div className="text-[12px] text-stone-700 truncate">{name}</div>
-                      <div className="text-[10px] text-stone-400">
-                        {cp.transferCount} transfers · {cp.tokens.slice(0, 3).join(", ")}
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      {cp.totalSent > 0 && (
-                        <div className="text-[11px] text-red-500/80 tabular-nums">
-                          -{cp.totalSent.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  <div key={cp.address}>
+                    <div className="flex items-center gap-2.5 py-1.5 px-1.5 rounded-md hover:bg-stone-200/40 transition-colors">
+                      <span className="text-stone-300 text-[11px] w-4 text-right tabular-nums">
+                        {i + 1}
+                      </span>
+                      <div
+                        className="w-1.5 h-1.5 rounded-full shrink-0"
+                        style={{ backgroundColor: color }}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1.5 min-w-0">
+                          <button
+                            type="button"
+                            onClick={() => setProfileOf(cp)}
+                            className="text-[12px] text-stone-700 truncate hover:text-stone-900 hover:underline"
+                            title="Entity profile"
+                          >
+                            {name}
+                          </button>
+                          {expanded && (
+                            <span className="text-[9px] uppercase tracking-wider text-stone-400 shrink-0">expanded</span>
+                          )}
                         </div>
-                      )}
-                      {cp.totalReceived > 0 && (
-                        <div className="text-[11px] text-emerald-600/80 tabular-nums">
-                          +{cp.totalReceived.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                        {cp.members ? (
+                          <button
+                            type="button"
+                            onClick={() => setOpenGroup(groupOpen ? null : cp.address)}
+                            className="text-[10px] text-stone-500 hover:text-stone-800"
+                          >
+                            {cp.members.length} addresses {groupOpen ? "▴" : "▾"}
+                          </button>
+                        ) : (
+                          <AddressLink
+                            address={cp.address}
+                            chain={cp.chain}
+                            onSearch={onWalletSearch}
+                            onExpand={expanded ? undefined : onWalletExpand}
+                          />
+                        )}
+                        <div
+                          className="text-[10px] text-stone-400"
+                          title={cp.tokenBreakdown.map((t) => `${t.symbol}: ${formatUsd(t.sentUsd + t.receivedUsd)}`).join("\n")}
+                        >
+                          {cp.transferCount} transfers · {cp.tokens.slice(0, 3).join(", ")}
                         </div>
-                      )}
+                      </div>
+                      <div className="text-right">
+                        {cp.totalSent > 0 && (
+                          <div className="text-[11px] text-red-500/80 tabular-nums">
+                            -{formatUsd(cp.totalSent)}
+                          </div>
+                        )}
+                        {cp.totalReceived > 0 && (
+                          <div className="text-[11px] text-emerald-600/80 tabular-nums">
+                            +{formatUsd(cp.totalReceived)}
+                          </div>
+                        )}
+                      </div>
                     </div>
+
+                    {/* The addresses merged into an entity group */}
+                    {groupOpen && (
+                      <div className="ml-9 mb-1 pl-2 border-l border-stone-200 space-y-1">
+                        {cp.members!.map((m) => {
+                          const memberExpanded = expandedKeys.has(nodeKey(m.address, m.chain));
+                          return (
+                            <div key={nodeKey(m.address, m.chain)} className="flex items-center gap-2 py-0.5">
+                              <div className="flex-1 min-w-0">
+                                <div className="text-[11px] text-stone-600 truncate">
+                                  {m.entity?.name || shortAddress(m.address)}
+                                </div>
+                                <AddressLink
+                                  address={m.address}
+                                  chain={m.chain}
+                                  onSearch={onWalletSearch}
+                                  onExpand={memberExpanded ? undefined : onWalletExpand}
+                                />
+                              </div>
+                              <div className="text-[10px] text-stone-400 tabular-nums shrink-0">
+                                {m.transferCount} · {formatUsd(m.totalSent + m.totalReceived)}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
                 );
               })}
             </div>
           </div>
 
+          <TransactionList
+            key={nodeKey(hopData.address, hopData.chain)}
+            address={hopData.address}
+            chains={hopData.chains ? hopData.chains.map((c) => c.chain) : [hopData.chain]}
+            tokens={tokens.map(([symbol]) => symbol).filter((symbol) => symbol !== UNKNOWN_TOKEN)}
+            onWalletSearch={onWalletSearch}
+            onWalletExpand={onWalletExpand}
+          />
+
           {/* Streaming transfer log */}
-          {walletArcs.length > 0 && <TransferLog arcs={walletArcs} spawnIndex={spawnIndex} />}
+          {walletArcs.length > 0 && (
+            <TransferLog
+              arcs={walletArcs}
+              spawnIndex={spawnIndex}
+              walletAddress={walletData.address}
+              onWalletSearch={onWalletSearch}
+              onWalletExpand={onWalletExpand}
+            />
+          )}
         </>
       )}
 
@@ -773,13 +1728,22 @@ export default function Sidebar({
   activeView,
   onViewChange,
   stablecoinArcs,
+  bridgeArcs,
   walletArcs,
   stablecoinLoading,
+  bridgeLoading,
   walletLoading,
   stablecoinError,
+  bridgeError,
   walletError,
   walletData,
+  walletHops,
+  walletExpanding,
   onWalletSearch,
+  onWalletExpand,
+  onWalletCollapse,
+  onWalletFiltersChange,
+  walletQuery,
   walletTimeline,
   onTimelinePlayPause,
   onTimelineRestart,
@@ -787,10 +1751,27 @@ export default function Sidebar({
   onTimelineSeek,
   stablecoinDateRange,
   stablecoinIsLive,
+  stablecoinUpdatedAt,
+  stablecoinRefreshError,
+  stablecoinUnmapped,
   onStablecoinDateRangeChange,
+  bridgeDateRange,
+  bridgeIsLive,
+  onBridgeDateRangeChange,
   spawnIndex,
+  selectedArc,
+  onArcSelect,
+  countryFilter,
+  onClearCountryFilter,
+  colorMode,
+  onColorModeChange,
+  arcMode,
+  onArcModeChange,
+  walletGrouping,
+  onWalletGroupingChange,
 }: SidebarProps) {
   const stablecoinSectionRef = useRef<HTMLDivElement>(null);
+  const bridgeSectionRef = useRef<HTMLDivElement>(null);
   const walletSectionRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -804,6 +1785,8 @@ export default function Sidebar({
           if (entry.isIntersecting && entry.intersectionRatio > 0.5) {
             if (entry.target === stablecoinSectionRef.current) {
               onViewChange("stablecoins");
+            } else if (entry.target === bridgeSectionRef.current) {
+              onViewChange("bridges");
             } else if (entry.target === walletSectionRef.current) {
               onViewChange("wallet");
             }
@@ -814,17 +1797,37 @@ export default function Sidebar({
     );
 
     if (stablecoinSectionRef.current) observer.observe(stablecoinSectionRef.current);
+    if (bridgeSectionRef.current) observer.observe(bridgeSectionRef.current);
     if (walletSectionRef.current) observer.observe(walletSectionRef.current);
 
     return () => observer.disconnect();
   }, [onViewChange]);
 
+  // Views set from outside the sidebar (shared URL, back/forward) need their
+  // section brought into view; scroll- and tab-driven changes already are.
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    const target =
+      activeView === "stablecoins"
+        ? stablecoinSectionRef.current
+        : activeView === "bridges"
+          ? bridgeSectionRef.current
+          : walletSectionRef.current;
+    if (!container || !target) return;
+    const c = container.getBoundingClientRect();
+    const t = target.getBoundingClientRect();
+    const visible = Math.max(0, Math.min(c.bottom, t.bottom) - Math.max(c.top, t.top));
+    if (visible < Math.min(t.height, c.height) * 0.5) target.scrollIntoView({ behavior: "smooth" });
+  }, [activeView]);
+
   const scrollToSection = (view: ActiveView) => {
     onViewChange(view);
     const target =
       view === "stablecoins"
         ? stablecoinSectionRef.current
-        : walletSectionRef.current;
+        : view === "bridges"
+          ? bridgeSectionRef.current
+          : walletSectionRef.current;
     target?.scrollIntoView({ behavior: "smooth" });
   };
 
@@ -836,7 +1839,7 @@ export default function Sidebar({
           Follow the Money
         </h1>
         <p className="text-[11px] text-stone-400 mt-0.5">
-          Stablecoin flows & wallet explorer
+          Stablecoin flows, bridges & wallet explorer
         </p>
       </div>
 
@@ -855,6 +1858,19 @@ export default function Sidebar({
             <span className="inline-block w-2 h-2 ml-1.5 border border-stone-400 border-t-stone-600 rounded-full animate-spin align-middle" />
           )}
         </button>
+        <button
+          onClick={() => scrollToSection("bridges")}
+          className={`flex-1 py-2.5 text-[11px] font-medium tracking-wide transition-colors ${
+            activeView === "bridges"
+              ? "text-stone-800 border-b-2 border-stone-800"
+              : "text-stone-400 hover:text-stone-600"
+          }`}
+        >
+          Bridges
+          {bridgeLoading && (
+            <span className="inline-block w-2 h-2 ml-1.5 border border-stone-400 border-t-stone-600 rounded-full animate-spin align-middle" />
+          )}
+        </button>
         <button
           onClick={() => scrollToSection("wallet")}
           className={`flex-1 py-2.5 text-[11px] font-medium tracking-wide transition-colors ${
@@ -878,6 +1894,39 @@ export default function Sidebar({
             <div className={LABEL}>
               Stablecoin Flows · {formatRangeLabel(stablecoinDateRange, stablecoinIsLive)}
             </div>
+            {stablecoinUpdatedAt && (
+              <div className="text-[10px] text-stone-400 mt-0.5">
+                Last updated {formatUpdatedAt(stablecoinUpdatedAt)}
+                {stablecoinIsLive && " · refreshes hourly"}
+              </div>
+            )}
+            {stablecoinIsLive && stablecoinRefreshError && (
+              <div className="text-[10px] text-amber-700 mt-0.5" title={stablecoinRefreshError}>
+                Refresh failed, retrying in a minute
+              </div>
+            )}
+            {stablecoinUnmapped && stablecoinUnmapped.corridors > 0 && !stablecoinLoading && (
+              <div
+                className="text-[10px] text-amber-700 mt-0.5"
+                title={`Unrecognized countries: ${stablecoinUnmapped.countries.join(", ")}`}
+              >
+                {stablecoinUnmapped.corridors} corridor{stablecoinUnmapped.corridors === 1 ? "" : "s"} ·{" "}
+                {formatUsd(stablecoinUnmapped.totalUsd)} not shown (unknown{" "}
+                {stablecoinUnmapped.countries.length === 1 ? "country" : "countries"}:{" "}
+                {stablecoinUnmapped.countries.slice(0, 3).join(", ")}
+                {stablecoinUnmapped.countries.length > 3 && ` +${stablecoinUnmapped.countries.length - 3}`})
+              </div>
+            )}
+            {countryFilter && (
+              <button
+                onClick={onClearCountryFilter}
+                className="mt-2 inline-flex items-center gap-1.5 px-2 py-0.5 text-[11px] bg-stone-800 text-white rounded-full hover:bg-stone-700 transition-colors"
+                title="Clear country filter"
+              >
+                {countryFlag(countryFilter)} {countryFilter}
+                <span className="text-white/60">×</span>
+              </button>
+            )}
           </div>
           <DateRangePicker
             dateRange={stablecoinDateRange}
@@ -886,12 +1935,51 @@ export default function Sidebar({
             defaultHours={24}
             onChange={onStablecoinDateRangeChange}
           />
+          <GlobeToggle
+            label="Arcs"
+            options={ARC_MODES}
+            value={arcMode}
+            onChange={onArcModeChange}
+            note={
+              arcMode === "overview" && stablecoinArcs.length > OVERVIEW_MAX_ARCS
+                ? `Showing the largest ${OVERVIEW_MAX_ARCS.toLocaleString()} of ${stablecoinArcs.length.toLocaleString()} corridors`
+                : null
+            }
+          />
+          <GlobeToggle label="Globe color" options={COLOR_MODES} value={colorMode} onChange={onColorModeChange} />
           <StatsPanel
             arcs={stablecoinArcs}
             loading={stablecoinLoading}
             error={stablecoinError}
             corridorLabel="Top Corridors"
             spawnIndex={activeView === "stablecoins" ? spawnIndex : 0}
+            selectedArc={activeView === "stablecoins" ? selectedArc : null}
+            onArcSelect={onArcSelect}
+          />
+        </div>
+
+        {/* Bridge section */}
+        <div ref={bridgeSectionRef} className="min-h-full flex flex-col border-t border-stone-300/40">
+          <div className="px-5 pt-4 pb-1">
+            <div className={LABEL}>
+              Bridge Flows · {formatRangeLabel(bridgeDateRange, bridgeIsLive)}
+            </div>
+          </div>
+          <DateRangePicker
+            dateRange={bridgeDateRange}
+            isLive={bridgeIsLive}
+            loading={bridgeLoading}
+            defaultHours={1}
+            onChange={onBridgeDateRangeChange}
+          />
+          <StatsPanel
+            arcs={bridgeArcs}
+            loading={bridgeLoading}
+            error={bridgeError}
+            corridorLabel="Top Bridge Routes"
+            spawnIndex={activeView === "bridges" ? spawnIndex : 0}
+            selectedArc={activeView === "bridges" ? selectedArc : null}
+            onArcSelect={onArcSelect}
           />
         </div>
 
@@ -912,9 +2000,17 @@ export default function Sidebar({
           )}
           <WalletPanel
             walletData={walletData}
+            walletHops={walletHops}
+            walletExpanding={walletExpanding}
             walletLoading={walletLoading}
             walletError={walletError}
             onWalletSearch={onWalletSearch}
+            onWalletExpand={onWalletExpand}
+            onWalletCollapse={onWalletCollapse}
+            onWalletFiltersChange={onWalletFiltersChange}
+            walletGrouping={walletGrouping}
+            onWalletGroupingChange={onWalletGroupingChange}
+            walletQuery={walletQuery}
             walletArcs={walletArcs}
             spawnIndex={activeView === "wallet" ? spawnIndex : 0}
           />
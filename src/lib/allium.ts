@@ -1,7 +1,12 @@
-const ALLIUM_API_BASE = "https://api.allium.so/api/v1/explorer";
+const DEFAULT_ALLIUM_API_BASE = "https://api.allium.so/api/v1/explorer";
+
+// Override with ALLIUM_API_BASE to point at the local mock server (see mock/allium)
+function alliumApiBase(): string {
+  return (process.env.ALLIUM_API_BASE || DEFAULT_ALLIUM_API_BASE).replace(/\/+$/, "");
+}
 
 export async function runQuery(queryId: string, apiKey: string, params: Record<string, string> = {}) {
-  const runRes = await fetch(`${ALLIUM_API_BASE}/queries/${queryId}/run-async`, {
+  const runRes = await fetch(`${alliumApiBase()}/queries/${queryId}/run-async`, {
     method: "POST",
     headers: {
       "X-API-KEY": apiKey,
@@ -22,7 +27,7 @@ export async function runQuery(queryId: string, apiKey: string, params: Record<s
 }
 
 export async function pollQueryStatus(runId: string, apiKey: string): Promise<string> {
-  const res = await fetch(`${ALLIUM_API_BASE}/query-runs/${runId}/status`, {
+  const res = await fetch(`${alliumApiBase()}/query-runs/${runId}/status`, {
     headers: { "X-API-KEY": apiKey },
   });
 
@@ -37,7 +42,7 @@ export async function pollQueryStatus(runId: string, apiKey: string): Promise<st
 }
 
 export async function getQueryResults(runId: string, apiKey: string) {
-  const res = await fetch(`${ALLIUM_API_BASE}/query-runs/${runId}/results`, {
+  const res = await fetch(`${alliumApiBase()}/query-runs/${runId}/results`, {
     headers: { "X-API-KEY": apiKey },
   });
 
@@ -71,15 +76,16 @@ export async function runQueryAndWait(queryId: string, apiKey: string, maxWaitMs
   throw new Error("Query timed out");
 }
 
-export async function runAdHocSql(sql: string, apiKey: string, maxWaitMs = 15000) {
-  const createRes = await fetch(`${ALLIUM_API_BASE}/queries`, {
+// `title` names the saved query; the mock server picks its fixture by it
+export async function runAdHocSql(sql: string, apiKey: string, maxWaitMs = 15000, title = "wallet-lookup") {
+  const createRes = await fetch(`${alliumApiBase()}/queries`, {
     method: "POST",
     headers: {
       "X-API-KEY": apiKey,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
-      title: `wallet-lookup-${Date.now()}`,
+      title: `${title}-${Date.now()}`,
       config: { sql, limit: 1000 },
     }),
   });
@@ -95,3 +101,43 @@ export async function runAdHocSql(sql: string, apiKey: string, maxWaitMs = 15000
 
   return runQueryAndWait(queryId, apiKey, maxWaitMs);
 }
+
+// The Developer API (realtime wallet data) sits beside the Explorer API under
+// the same version prefix, so ALLIUM_API_BASE overrides both.
+function developerApiBase(): string {
+  return alliumApiBase().replace(/\/explorer$/, "/developer");
+}
+
+/**
+ * One page of a wallet's transactions, newest first, with their asset
+ * transfers and labels. `cursor` continues from a previous page; the
+ * returned cursor is null on the last page.
+ */
+export async function getWalletTransactions(
+  chain: string,
+  address: string,
+  apiKey: string,
+  opts: { limit?: number; cursor?: string | null } = {}
+): Promise<{ items: unknown[]; cursor: string | null }> {
+  const query = new URLSearchParams({ limit: String(opts.limit ?? 25) });
+  if (opts.cursor) query.set("cursor", opts.cursor);
+
+  const res = await fetch(`${developerApiBase()}/wallet/transactions?${query}`, {
+    method: "POST",
+    headers: {
+      "X-API-KEY": apiKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify([{ chain, address }]),
+  });
+
+  if (!res.ok) {
+    throw new Error(`Failed to get wallet transactions: ${res.status} ${await res.text()}`);
+  }
+
+  const body = await res.json();
+  return {
+    items: Array.isArray(body?.items) ? body.items : [],
+    cursor: typeof body?.cursor === "string" && body.cursor ? body.cursor : null,
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { cfCacheLookup, cfCachePut, cfCacheRevalidate } from "./cache";
+
+// Lets a background refresh started by cfCacheRevalidate() finish
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("cfCacheRevalidate", () => {
+  it("replaces a stale entry with the refreshed result", async () => {
+    const url = "https://cache.internal/test/refresh";
+    await cfCachePut(url, { rows: [1] }, 0);
+
+    const hit = await cfCacheRevalidate(url, "test:refresh", 60, async () => ({ rows: [1, 2] }));
+    expect(hit).toMatchObject({ status: "stale", data: { rows: [1] } });
+
+    await settle();
+    expect(await cfCacheLookup(url)).toMatchObject({ status: "fresh", data: { rows: [1, 2] } });
+  });
+
+  it("keeps the stale entry when the refreshed result isn't cacheable", async () => {
+    const url = "https://cache.internal/test/empty";
+    await cfCachePut(url, { rows: [1] }, 0);
+
+    await cfCacheRevalidate(
+      url,
+      "test:empty",
+      60,
+      async () => ({ rows: [] as number[] }),
+      (result) => result.rows.length > 0
+    );
+
+    await settle();
+    expect(await cfCacheLookup(url)).toMatchObject({ status: "stale", data: { rows: [1] } });
+  });
+});
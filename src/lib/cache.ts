@@ -1,50 +1,80 @@
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createCacheStore, type CacheStore } from "./cachestore";
+import { ROWS_VERSION } from "./rows";
+
 const inflight = new Map<string, Promise<unknown>>();
 
+// Entries stay in the cache this long past their TTL, served as stale
+// while a background refresh replaces them.
+const STALE_WINDOW_SEC = 24 * 60 * 60;
+
+/** Response header telling clients whether a payload was fresh, stale or a miss. */
+export const CACHE_STATUS_HEADER = "X-Cache";
+
+export type CacheStatus = "fresh" | "stale" | "miss";
+
+export interface CacheHit {
+  data: unknown;
+  status: Exclude<CacheStatus, "miss">;
+  fetchedAt: number | null;
+}
+
 /**
- * Cloudflare Cache API — persists across all Worker isolates in the same colo.
- * Uses the actual request URL as cache key so identical client requests hit cache.
- * Falls back gracefully on local dev where caches.default doesn't exist.
+ * The configured cache backend (CF Cache API, KV, R2 or in-memory LRU — see
+ * cachestore.ts), created on first use. The cfCache* helpers below predate
+ * pluggable backends and keep their names so routes don't change.
  */
-async function getCfCache(): Promise<Cache | null> {
+let store: CacheStore | null = null;
+
+function getStore(): CacheStore {
+  if (!store) store = createCacheStore();
+  return store;
+}
+
+/**
+ * Look up a cached payload along with its freshness. Entries past their TTL
+ * but inside the stale window come back as "stale"; returns null on miss.
+ */
+export async function cfCacheLookup(url: string): Promise<CacheHit | null> {
   try {
-    return (caches as unknown as { default: Cache }).default ?? null;
-  } catch {
+    const entry = await getStore().get(url);
+    if (!entry) return null;
+    return {
+      data: JSON.parse(entry.body),
+      status: Date.now() < entry.freshUntil ? "fresh" : "stale",
+      fetchedAt: entry.fetchedAt,
+    };
+  } catch (err) {
+    console.error("[cache] Lookup failed:", err instanceof Error ? err.message : err);
     return null;
   }
 }
 
 /**
- * Try to serve a response from the CF edge cache for the given request URL.
- * Returns the cached JSON data, or null on miss.
+ * Try to serve a cached payload for the given canonical URL.
+ * Returns the cached JSON data, or null on miss or when the entry is stale.
  */
 export async function cfCacheMatch(url: string): Promise<unknown | null> {
-  const cache = await getCfCache();
-  if (!cache) return null;
-  try {
-    const res = await cache.match(new Request(url));
-    if (!res) return null;
-    return res.json();
-  } catch {
-    return null;
-  }
+  const hit = await cfCacheLookup(url);
+  return hit?.status === "fresh" ? hit.data : null;
 }
 
 /**
- * Store JSON data in the CF edge cache keyed by request URL.
+ * Store JSON data keyed by canonical URL. The entry is fresh for ttlSec and
+ * kept for a further STALE_WINDOW_SEC as stale.
  */
 export async function cfCachePut(url: string, data: unknown, ttlSec: number): Promise<void> {
-  const cache = await getCfCache();
-  if (!cache) return;
   try {
-    const res = new Response(JSON.stringify(data), {
-      headers: {
-        "Content-Type": "application/json",
-        "Cache-Control": `public, max-age=${ttlSec}`,
-      },
+    const now = Date.now();
+    await getStore().put(url, {
+      body: JSON.stringify(data),
+      fetchedAt: now,
+      freshUntil: now + ttlSec * 1000,
+      expiresAt: now + (ttlSec + STALE_WINDOW_SEC) * 1000,
     });
-    await cache.put(new Request(url), res);
-  } catch {
-    // Ignore — local dev doesn't have CF Cache API
+  } catch (err) {
+    // A failed write only costs a future cache miss
+    console.error("[cache] Write failed:", err instanceof Error ? err.message : err);
   }
 }
 
@@ -72,6 +102,55 @@ export async function dedup<T>(key: string, fetcher: () => Promise<T>): Promise<
   return promise;
 }
 
+/**
+ * Keep work running after the response is sent, via the Worker's waitUntil.
+ * Local dev has no Worker context, so the promise simply runs unattended.
+ */
+export function runInBackground(promise: Promise<unknown>): void {
+  const settled = promise.catch((err) => {
+    console.error("[cache] Background task failed:", err instanceof Error ? err.message : err);
+  });
+  try {
+    getCloudflareContext().ctx.waitUntil(settled);
+  } catch {
+    // Not running inside a Worker
+  }
+}
+
+/**
+ * Stale-while-revalidate lookup. Fresh hits are returned as-is; stale hits
+ * are returned immediately while `fetcher` refreshes the entry in the
+ * background (deduplicated under `key`). A refreshed result failing
+ * `cacheable` is dropped, leaving the stale entry in place. Returns null on
+ * miss.
+ */
+export async function cfCacheRevalidate<T>(
+  url: string,
+  key: string,
+  ttlSec: number,
+  fetcher: () => Promise<T>,
+  cacheable: (result: T) => boolean = () => true
+): Promise<CacheHit | null> {
+  const hit = await cfCacheLookup(url);
+  if (hit?.status === "stale") {
+    console.log(`[cache] Serving stale ${url}, revalidating`);
+    runInBackground(
+      dedup(key, fetcher).then(async (result) => {
+        if (cacheable(result)) await cfCachePut(url, result, ttlSec);
+      })
+    );
+  }
+  return hit;
+}
+
+/**
+ * Canonical cache URL for a date-ranged route. Every writer of flows/bridges
+ * data (routes, prefetch, cron) must build keys here so they hit each other.
+ */
+export function rangeCacheUrl(route: "flows" | "bridges", params: { start_date: string; end_date: string }): string {
+  return `https://cache.internal/api/${route}?start_date=${params.start_date}&end_date=${params.end_date}&rows=v${ROWS_VERSION}`;
+}
+
 export function cacheKey(queryId: string, params: Record<string, string>): string {
   const sorted = Object.entries(params).sort(([a], [b]) => a.localeCompare(b));
   return `${queryId}:${sorted.map(([k, v]) => `${k}=${v}`).join("&")}`;
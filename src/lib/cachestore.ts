@@ -0,0 +1,247 @@
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+
+// ── Cache store interface ──
+
+export interface CacheEntry {
+  body: string; // JSON payload
+  fetchedAt: number; // epoch ms the payload was produced
+  freshUntil: number; // epoch ms after which the entry is served as stale
+  expiresAt: number; // epoch ms after which the entry is gone
+}
+
+/** Key-value storage behind cache.ts. Stores return null for expired entries. */
+export interface CacheStore {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | null>;
+  put(key: string, entry: CacheEntry): Promise<void>;
+}
+
+// Keys are canonical URLs (https://cache.internal/...), which the Cache API
+// needs as-is and KV / R2 accept as plain strings.
+
+// ── Cloudflare Cache API (per colo) ──
+
+const FETCHED_AT_HEADER = "X-Fetched-At";
+const FRESH_UNTIL_HEADER = "X-Fresh-Until";
+
+export class CfCacheStore implements CacheStore {
+  readonly name = "cf-cache";
+
+  constructor(private cache: Cache) {}
+
+  /** caches.default, or null outside a Worker (local dev). */
+  static available(): Cache | null {
+    try {
+      return (caches as unknown as { default: Cache }).default ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const res = await this.cache.match(new Request(key));
+    if (!res) return null;
+    const now = Date.now();
+    return {
+      body: await res.text(),
+      fetchedAt: Number(res.headers.get(FETCHED_AT_HEADER)) || now,
+      // Entries written before freshness was tracked expire by max-age alone
+      freshUntil: Number(res.headers.get(FRESH_UNTIL_HEADER)) || Infinity,
+      expiresAt: Infinity,
+    };
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    const maxAge = Math.max(0, Math.round((entry.expiresAt - Date.now()) / 1000));
+    const res = new Response(entry.body, {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": `public, max-age=${maxAge}`,
+        [FETCHED_AT_HEADER]: String(entry.fetchedAt),
+        [FRESH_UNTIL_HEADER]: String(entry.freshUntil),
+      },
+    });
+    await this.cache.put(new Request(key), res);
+  }
+}
+
+// ── Workers KV (global, eventually consistent) ──
+
+interface KvNamespaceLike {
+  getWithMetadata<M>(key: string, type: "text"): Promise<{ value: string | null; metadata: M | null }>;
+  put(key: string, value: string, options?: { expirationTtl?: number; metadata?: unknown }): Promise<void>;
+}
+
+type EntryMeta = Omit<CacheEntry, "body">;
+
+// KV rejects expirationTtl below 60 seconds
+const KV_MIN_TTL_SEC = 60;
+
+export class KvCacheStore implements CacheStore {
+  readonly name = "kv";
+
+  constructor(private kv: KvNamespaceLike) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const { value, metadata } = await this.kv.getWithMetadata<EntryMeta>(key, "text");
+    if (value === null || !metadata) return null;
+    if (Date.now() >= metadata.expiresAt) return null;
+    return { body: value, ...metadata };
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    const { body, ...metadata } = entry;
+    const ttlSec = Math.max(KV_MIN_TTL_SEC, Math.round((entry.expiresAt - Date.now()) / 1000));
+    await this.kv.put(key, body, { expirationTtl: ttlSec, metadata });
+  }
+}
+
+// ── R2 (global, strongly consistent, no native TTL) ──
+
+interface R2BucketLike {
+  get(key: string): Promise<{ text(): Promise<string>; customMetadata?: Record<string, string> } | null>;
+  put(
+    key: string,
+    value: string,
+    options?: { httpMetadata?: { contentType?: string }; customMetadata?: Record<string, string> }
+  ): Promise<unknown>;
+  delete(key: string): Promise<void>;
+}
+
+export class R2CacheStore implements CacheStore {
+  readonly name = "r2";
+
+  constructor(private bucket: R2BucketLike) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const obj = await this.bucket.get(key);
+    if (!obj) return null;
+    const meta = obj.customMetadata ?? {};
+    const expiresAt = Number(meta.expiresAt) || 0;
+    if (Date.now() >= expiresAt) {
+      // R2 has no expiry of its own; drop the object lazily
+      await this.bucket.delete(key);
+      return null;
+    }
+    return {
+      body: await obj.text(),
+      fetchedAt: Number(meta.fetchedAt) || 0,
+      freshUntil: Number(meta.freshUntil) || 0,
+      expiresAt,
+    };
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    await this.bucket.put(key, entry.body, {
+      httpMetadata: { contentType: "application/json" },
+      customMetadata: {
+        fetchedAt: String(entry.fetchedAt),
+        freshUntil: String(entry.freshUntil),
+        expiresAt: String(entry.expiresAt),
+      },
+    });
+  }
+}
+
+// ── In-memory LRU (per isolate / dev server) ──
+
+export class MemoryLruCacheStore implements CacheStore {
+  readonly name = "memory";
+
+  // Map iteration order is insertion order, so the first key is least recently used
+  private entries = new Map<string, { entry: CacheEntry; bytes: number }>();
+  private totalBytes = 0;
+
+  constructor(private maxBytes: number) {}
+
+  private static sizeOf(key: string, entry: CacheEntry): number {
+    // UTF-16 code units plus a flat allowance for the numeric fields
+    return (key.length + entry.body.length) * 2 + 32;
+  }
+
+  private remove(key: string) {
+    const existing = this.entries.get(key);
+    if (!existing) return;
+    this.entries.delete(key);
+    this.totalBytes -= existing.bytes;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const hit = this.entries.get(key);
+    if (!hit) return null;
+    if (Date.now() >= hit.entry.expiresAt) {
+      this.remove(key);
+      return null;
+    }
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, hit);
+    return hit.entry;
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    this.remove(key);
+    const bytes = MemoryLruCacheStore.sizeOf(key, entry);
+    if (bytes > this.maxBytes) {
+      console.warn(`[cache] ${key} (${bytes} bytes) exceeds the memory cache limit, not stored`);
+      return;
+    }
+    while (this.totalBytes + bytes > this.maxBytes) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.remove(oldest);
+    }
+    this.entries.set(key, { entry, bytes });
+    this.totalBytes += bytes;
+  }
+}
+
+// ── Backend selection ──
+//
+// CACHE_BACKEND         cf | kv | r2 | memory  (default: cf inside a Worker, memory otherwise)
+// CACHE_BINDING         KV namespace / R2 bucket binding name (default ALLIUM_CACHE)
+// CACHE_MEMORY_MAX_MB   memory backend size limit (default 64)
+
+const DEFAULT_BINDING = "ALLIUM_CACHE";
+const DEFAULT_MEMORY_MAX_MB = 64;
+
+function workerBinding<T>(name: string): T | null {
+  try {
+    const env = getCloudflareContext().env as unknown as Record<string, unknown>;
+    return (env[name] as T) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the store named by CACHE_BACKEND. A backend that can't be set up
+ * here (missing binding, no caches.default) falls back to the memory LRU
+ * so local dev keeps caching.
+ */
+export function createCacheStore(): CacheStore {
+  const backend = process.env.CACHE_BACKEND?.toLowerCase();
+  const binding = process.env.CACHE_BINDING || DEFAULT_BINDING;
+  const maxBytes = (Number(process.env.CACHE_MEMORY_MAX_MB) || DEFAULT_MEMORY_MAX_MB) * 1024 * 1024;
+
+  let store: CacheStore | null = null;
+  if (backend === "kv") {
+    const kv = workerBinding<KvNamespaceLike>(binding);
+    store = kv && new KvCacheStore(kv);
+  } else if (backend === "r2") {
+    const bucket = workerBinding<R2BucketLike>(binding);
+    store = bucket && new R2CacheStore(bucket);
+  } else if (backend !== "memory") {
+    const cache = CfCacheStore.available();
+    store = cache && new CfCacheStore(cache);
+  }
+
+  if (!store) {
+    if (backend && backend !== "memory") {
+      console.warn(`[cache] Backend "${backend}" unavailable here, using in-memory LRU`);
+    }
+    store = new MemoryLruCacheStore(maxBytes);
+  }
+  console.log(`[cache] Using ${store.name} backend`);
+  return store;
+}
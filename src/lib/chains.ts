@@ -1,66 +1,248 @@
+// ── Address formats ──
+
+/** Virtual machine family; decides address format and explorer conventions. */
+export type ChainVm = "EVM" | "SVM" | "Tron" | "Move" | "TON" | "NEAR" | "Cairo";
+
+export interface AddressFormat {
+  description: string; // shown in validation errors, e.g. "a 0x-prefixed 40-hex-digit address"
+  placeholder: string;
+  /** Canonical form of a valid address, or null if the input isn't one. */
+  normalize(input: string): string | null;
+}
+
+const BASE58 = "[1-9A-HJ-NP-Za-km-z]";
+
+/** 0x-prefixed hex up to 32 bytes, left-padded to full width (Move, Cairo). */
+function paddedHex(input: string): string | null {
+  const s = input.trim();
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(s)) return null;
+  return "0x" + s.slice(2).toLowerCase().padStart(64, "0");
+}
+
+export const ADDRESS_FORMATS: Record<ChainVm, AddressFormat> = {
+  EVM: {
+    description: "a 0x-prefixed, 40-hex-digit address",
+    placeholder: "0x...",
+    normalize: (input) => {
+      const s = input.trim();
+      return /^0x[0-9a-fA-F]{40}$/.test(s) ? s.toLowerCase() : null;
+    },
+  },
+  SVM: {
+    description: "a base58 public key",
+    placeholder: "Base58 address",
+    // Base58 is case-sensitive, so no case folding
+    normalize: (input) => {
+      const s = input.trim();
+      return new RegExp(`^${BASE58}{32,44}$`).test(s) ? s : null;
+    },
+  },
+  Tron: {
+    description: "a base58 address starting with T",
+    placeholder: "T...",
+    normalize: (input) => {
+      const s = input.trim();
+      return new RegExp(`^T${BASE58}{33}$`).test(s) ? s : null;
+    },
+  },
+  Move: {
+    description: "a 0x-prefixed hex address of up to 64 digits",
+    placeholder: "0x...",
+    normalize: paddedHex,
+  },
+  TON: {
+    description: "a raw (0:…) or user-friendly (EQ…/UQ…) address",
+    placeholder: "EQ... / UQ...",
+    normalize: (input) => {
+      const s = input.trim();
+      if (/^-?\d:[0-9a-fA-F]{64}$/.test(s)) return s.toLowerCase();
+      return /^[A-Za-z0-9_-]{48}$/.test(s) ? s : null;
+    },
+  },
+  NEAR: {
+    description: "an account ID (name.near) or 64-hex implicit account",
+    placeholder: "name.near",
+    normalize: (input) => {
+      const s = input.trim().toLowerCase();
+      if (s.length < 2 || s.length > 64) return null;
+      return /^(([a-z\d]+[-_])*[a-z\d]+\.)*([a-z\d]+[-_])*[a-z\d]+$/.test(s) ? s : null;
+    },
+  },
+  Cairo: {
+    description: "a 0x-prefixed hex address of up to 64 digits",
+    placeholder: "0x...",
+    normalize: paddedHex,
+  },
+};
+
+// ── Chain registry ──
+
 export interface ChainInfo {
   lat: number;
   lng: number;
   color: string;
   label: string;
+  vm: ChainVm;
+  address: AddressFormat;
+  chainId: number | null; // EVM chain ID; null outside EVM
+  nativeToken: string;
+  explorer: {
+    address: string; // URL template with {address}
+    tx: string; // URL template with {hash}
+  };
+}
+
+type ChainSpec = Omit<ChainInfo, "lat" | "lng" | "color" | "label">;
+
+/** Etherscan-style explorer: /address/… and /tx/… under one base URL. */
+function evm(chainId: number, nativeToken: string, explorerBase: string): ChainSpec {
+  return {
+    vm: "EVM",
+    address: ADDRESS_FORMATS.EVM,
+    chainId,
+    nativeToken,
+    explorer: { address: `${explorerBase}/address/{address}`, tx: `${explorerBase}/tx/{hash}` },
+  };
+}
+
+function nonEvm(vm: Exclude<ChainVm, "EVM">, nativeToken: string, addressUrl: string, txUrl: string): ChainSpec {
+  return { vm, address: ADDRESS_FORMATS[vm], chainId: null, nativeToken, explorer: { address: addressUrl, tx: txUrl } };
 }
 
 /**
  * ~30 chains evenly distributed across the globe for visual balance.
  * Colors match common chain branding where possible.
  */
-export const CHAIN_COORDS: Record<string, ChainInfo> = {
+export const CHAINS: Record<string, ChainInfo> = {
   // North America
-  ethereum:    { lat: 40.7,  lng: -74.0,  color: "#627EEA", label: "Ethereum" },
-  base:        { lat: 37.8,  lng: -122.4, color: "#0052FF", label: "Base" },
-  arbitrum:    { lat: 33.4,  lng: -112.1, color: "#28A0F0", label: "Arbitrum" },
-  optimism:    { lat: 47.6,  lng: -122.3, color: "#FF0420", label: "Optimism" },
-  solana:      { lat: 25.8,  lng: -80.2,  color: "#00FFA3", label: "Solana" },
+  ethereum:    { lat: 40.7,  lng: -74.0,  color: "#627EEA", label: "Ethereum", ...evm(1, "ETH", "https://etherscan.io") },
+  base:        { lat: 37.8,  lng: -122.4, color: "#0052FF", label: "Base", ...evm(8453, "ETH", "https://basescan.org") },
+  arbitrum:    { lat: 33.4,  lng: -112.1, color: "#28A0F0", label: "Arbitrum", ...evm(42161, "ETH", "https://arbiscan.io") },
+  optimism:    { lat: 47.6,  lng: -122.3, color: "#FF0420", label: "Optimism", ...evm(10, "ETH", "https://optimistic.etherscan.io") },
+  solana:      { lat: 25.8,  lng: -80.2,  color: "#00FFA3", label: "Solana",
+                 ...nonEvm("SVM", "SOL", "https://solscan.io/account/{address}", "https://solscan.io/tx/{hash}") },
 
   // South America
-  polygon:     { lat: -23.5, lng: -46.6,  color: "#8247E5", label: "Polygon" },
-  avalanche:   { lat: -34.6, lng: -58.4,  color: "#E84142", label: "Avalanche" },
+  polygon:     { lat: -23.5, lng: -46.6,  color: "#8247E5", label: "Polygon", ...evm(137, "POL", "https://polygonscan.com") },
+  avalanche:   { lat: -34.6, lng: -58.4,  color: "#E84142", label: "Avalanche", ...evm(43114, "AVAX", "https://snowtrace.io") },
 
   // Europe
-  zksync:      { lat: 48.9,  lng: 2.35,   color: "#4E529A", label: "zkSync" },
-  linea:       { lat: 51.5,  lng: -0.12,  color: "#61DFFF", label: "Linea" },
-  scroll:      { lat: 52.5,  lng: 13.4,   color: "#FFEEDA", label: "Scroll" },
-  starknet:    { lat: 41.9,  lng: 12.5,   color: "#EC796B", label: "Starknet" },
-  gnosis:      { lat: 59.3,  lng: 18.1,   color: "#04795B", label: "Gnosis" },
-  mantle:      { lat: 46.2,  lng: 6.1,    color: "#000000", label: "Mantle" },
+  zksync:      { lat: 48.9,  lng: 2.35,   color: "#4E529A", label: "zkSync", ...evm(324, "ETH", "https://explorer.zksync.io") },
+  linea:       { lat: 51.5,  lng: -0.12,  color: "#61DFFF", label: "Linea", ...evm(59144, "ETH", "https://lineascan.build") },
+  scroll:      { lat: 52.5,  lng: 13.4,   color: "#FFEEDA", label: "Scroll", ...evm(534352, "ETH", "https://scrollscan.com") },
+  starknet:    { lat: 41.9,  lng: 12.5,   color: "#EC796B", label: "Starknet",
+                 ...nonEvm("Cairo", "STRK", "https://voyager.online/contract/{address}", "https://voyager.online/tx/{hash}") },
+  gnosis:      { lat: 59.3,  lng: 18.1,   color: "#04795B", label: "Gnosis", ...evm(100, "xDAI", "https://gnosisscan.io") },
+  mantle:      { lat: 46.2,  lng: 6.1,    color: "#000000", label: "Mantle", ...evm(5000, "MNT", "https://mantlescan.xyz") },
 
   // Africa
-  celo:        { lat: 6.5,   lng: 3.4,    color: "#FCFF52", label: "Celo" },
-  fantom:      { lat: -1.3,  lng: 36.8,   color: "#1969FF", label: "Fantom" },
-  sonic:       { lat: -33.9, lng: 18.4,   color: "#5B6DEF", label: "Sonic" },
+  celo:        { lat: 6.5,   lng: 3.4,    color: "#FCFF52", label: "Celo", ...evm(42220, "CELO", "https://celoscan.io") },
+  fantom:      { lat: -1.3,  lng: 36.8,   color: "#1969FF", label: "Fantom", ...evm(250, "FTM", "https://ftmscan.com") },
+  sonic:       { lat: -33.9, lng: 18.4,   color: "#5B6DEF", label: "Sonic", ...evm(146, "S", "https://sonicscan.org") },
 
   // Middle East / Central Asia
-  sei:         { lat: 25.3,  lng: 55.3,   color: "#9B1B1B", label: "Sei" },
-  bsc:         { lat: 41.0,  lng: 29.0,   color: "#F3BA2F", label: "BNB Chain" },
+  sei:         { lat: 25.3,  lng: 55.3,   color: "#9B1B1B", label: "Sei", ...evm(1329, "SEI", "https://seitrace.com") },
+  bsc:         { lat: 41.0,  lng: 29.0,   color: "#F3BA2F", label: "BNB Chain", ...evm(56, "BNB", "https://bscscan.com") },
 
   // East / Southeast Asia
-  sui:         { lat: 1.35,  lng: 103.8,  color: "#6FBCF0", label: "Sui" },
-  aptos:       { lat: 35.7,  lng: 139.7,  color: "#2DD8A3", label: "Aptos" },
-  near:        { lat: 37.6,  lng: 127.0,  color: "#00C08B", label: "NEAR" },
-  ton:         { lat: 22.3,  lng: 114.2,  color: "#0098EA", label: "TON" },
-  kaia:        { lat: 13.8,  lng: 100.5,  color: "#BFF009", label: "Kaia" },
-  tron:        { lat: 31.2,  lng: 121.5,  color: "#FF0013", label: "Tron" },
+  sui:         { lat: 1.35,  lng: 103.8,  color: "#6FBCF0", label: "Sui",
+                 ...nonEvm("Move", "SUI", "https://suiscan.xyz/mainnet/account/{address}", "https://suiscan.xyz/mainnet/tx/{hash}") },
+  aptos:       { lat: 35.7,  lng: 139.7,  color: "#2DD8A3", label: "Aptos",
+                 ...nonEvm("Move", "APT", "https://explorer.aptoslabs.com/account/{address}?network=mainnet",
+                   "https://explorer.aptoslabs.com/txn/{hash}?network=mainnet") },
+  near:        { lat: 37.6,  lng: 127.0,  color: "#00C08B", label: "NEAR",
+                 ...nonEvm("NEAR", "NEAR", "https://nearblocks.io/address/{address}", "https://nearblocks.io/txns/{hash}") },
+  ton:         { lat: 22.3,  lng: 114.2,  color: "#0098EA", label: "TON",
+                 ...nonEvm("TON", "TON", "https://tonviewer.com/{address}", "https://tonviewer.com/transaction/{hash}") },
+  kaia:        { lat: 13.8,  lng: 100.5,  color: "#BFF009", label: "Kaia", ...evm(8217, "KAIA", "https://kaiascan.io") },
+  tron:        { lat: 31.2,  lng: 121.5,  color: "#FF0013", label: "Tron",
+                 ...nonEvm("Tron", "TRX", "https://tronscan.org/#/address/{address}", "https://tronscan.org/#/transaction/{hash}") },
 
   // Oceania
-  moonbeam:    { lat: -33.9, lng: 151.2,  color: "#53CBC9", label: "Moonbeam" },
-  manta:       { lat: -41.3, lng: 174.8,  color: "#1A6BEF", label: "Manta" },
+  moonbeam:    { lat: -33.9, lng: 151.2,  color: "#53CBC9", label: "Moonbeam", ...evm(1284, "GLMR", "https://moonscan.io") },
+  manta:       { lat: -41.3, lng: 174.8,  color: "#1A6BEF", label: "Manta", ...evm(169, "ETH", "https://pacific-explorer.manta.network") },
 
   // Additional chains (spread into less dense regions)
-  blast:       { lat: 64.1,  lng: -21.9,  color: "#FCFC03", label: "Blast" },
-  mode:        { lat: 55.7,  lng: 37.6,   color: "#DFFE00", label: "Mode" },
-  taiko:       { lat: 60.2,  lng: 24.9,   color: "#E81899", label: "Taiko" },
-  hyperliquid: { lat: -8.7,  lng: 115.2,  color: "#6CFFB4", label: "Hyperliquid" },
+  blast:       { lat: 64.1,  lng: -21.9,  color: "#FCFC03", label: "Blast", ...evm(81457, "ETH", "https://blastscan.io") },
+  mode:        { lat: 55.7,  lng: 37.6,   color: "#DFFE00", label: "Mode", ...evm(34443, "ETH", "https://explorer.mode.network") },
+  taiko:       { lat: 60.2,  lng: 24.9,   color: "#E81899", label: "Taiko", ...evm(167000, "ETH", "https://taikoscan.io") },
+  hyperliquid: { lat: -8.7,  lng: 115.2,  color: "#6CFFB4", label: "Hyperliquid", ...evm(999, "HYPE", "https://hyperevmscan.io") },
 
   // Aliases for data variations
-  polygon_zkevm: { lat: -15.8, lng: -48.0, color: "#8247E5", label: "Polygon zkEVM" },
-  plasma:      { lat: 19.4,  lng: -99.1,  color: "#627EEA", label: "Plasma" },
-  unichain:    { lat: 45.5,  lng: -73.6,  color: "#FF007A", label: "Unichain" },
-  worldchain:  { lat: 48.2,  lng: 16.4,   color: "#000000", label: "Worldchain" },
-  soneium:     { lat: 34.7,  lng: 135.5,  color: "#6B4EFF", label: "Soneium" },
-  immutable:   { lat: -27.5, lng: 153.0,  color: "#24B8FF", label: "Immutable" },
+  polygon_zkevm: { lat: -15.8, lng: -48.0, color: "#8247E5", label: "Polygon zkEVM", ...evm(1101, "ETH", "https://zkevm.polygonscan.com") },
+  plasma:      { lat: 19.4,  lng: -99.1,  color: "#627EEA", label: "Plasma", ...evm(9745, "XPL", "https://plasmascan.to") },
+  unichain:    { lat: 45.5,  lng: -73.6,  color: "#FF007A", label: "Unichain", ...evm(130, "ETH", "https://uniscan.xyz") },
+  worldchain:  { lat: 48.2,  lng: 16.4,   color: "#000000", label: "Worldchain", ...evm(480, "ETH", "https://worldscan.org") },
+  soneium:     { lat: 34.7,  lng: 135.5,  color: "#6B4EFF", label: "Soneium", ...evm(1868, "ETH", "https://soneium.blockscout.com") },
+  immutable:   { lat: -27.5, lng: 153.0,  color: "#24B8FF", label: "Immutable", ...evm(13371, "IMX", "https://explorer.immutable.com") },
 };
+
+/** Every EVM chain in the registry, in registry order. */
+export const EVM_CHAINS = Object.keys(CHAINS).filter((chain) => CHAINS[chain].vm === "EVM");
+
+/**
+ * Pseudo-chain for a wallet lookup fanned out across EVM_CHAINS. Only the
+ * wallet routes accept it; everything else takes a real registry key.
+ */
+export const ALL_EVM = "evm";
+
+// ── Lookups ──
+
+/** Address format for a chain (or ALL_EVM), or null for an unknown chain. */
+export function chainAddressFormat(chain: string): AddressFormat | null {
+  const key = chain.toLowerCase();
+  if (key === ALL_EVM) return ADDRESS_FORMATS.EVM;
+  return CHAINS[key]?.address ?? null;
+}
+
+export function chainLabel(chain: string): string {
+  const key = chain.toLowerCase();
+  if (key === ALL_EVM) return "All EVM chains";
+  return CHAINS[key]?.label ?? chain;
+}
+
+/** Canonical form of `address` on `chain`, or null if it isn't valid there. */
+export function normalizeAddress(chain: string, address: string): string | null {
+  const format = chainAddressFormat(chain);
+  return format ? format.normalize(address) : null;
+}
+
+/** "0x1234...abcd" for display; short names (NEAR accounts) pass through whole. */
+export function shortAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+}
+
+export function explorerAddressUrl(chain: string, address: string): string | null {
+  const info = CHAINS[chain.toLowerCase()];
+  return info ? info.explorer.address.replace("{address}", encodeURIComponent(address)) : null;
+}
+
+export function explorerTxUrl(chain: string, hash: string): string | null {
+  const info = CHAINS[chain.toLowerCase()];
+  return info ? info.explorer.tx.replace("{hash}", encodeURIComponent(hash)) : null;
+}
+
+// Most likely chain for each address shape, checked in order: a Tron address
+// is also valid base58, and an EVM address is also valid padded hex. NEAR
+// account IDs are almost any lowercase word, so only suffixed or implicit
+// accounts count as a NEAR shape.
+const SUGGESTION_ORDER: { vm: ChainVm; chain: string; shape?: RegExp }[] = [
+  { vm: "EVM", chain: "ethereum" },
+  { vm: "Tron", chain: "tron" },
+  { vm: "SVM", chain: "solana" },
+  { vm: "TON", chain: "ton" },
+  { vm: "Move", chain: "sui" },
+  { vm: "NEAR", chain: "near", shape: /(\.near|\.tg|^[0-9a-f]{64})$/i },
+];
+
+/**
+ * Guess a chain from the shape of an address, for when it doesn't fit the
+ * selected one. Returns null when nothing recognises it.
+ */
+export function suggestChain(address: string): string | null {
+  for (const { vm, chain, shape } of SUGGESTION_ORDER) {
+    if (shape && !shape.test(address.trim())) continue;
+    if (ADDRESS_FORMATS[vm].normalize(address)) return chain;
+  }
+  return null;
+}
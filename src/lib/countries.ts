@@ -1,259 +1,184 @@
-import { CountryCoord } from "./types";
+import type { CountryCoord } from "./types";
 
-export const COUNTRY_FLAGS: Record<string, string> = {
-  "Afghanistan": "\u{1F1E6}\u{1F1EB}",
-  "Albania": "\u{1F1E6}\u{1F1F1}",
-  "Algeria": "\u{1F1E9}\u{1F1FF}",
-  "Argentina": "\u{1F1E6}\u{1F1F7}",
-  "Armenia": "\u{1F1E6}\u{1F1F2}",
-  "Australia": "\u{1F1E6}\u{1F1FA}",
-  "Austria": "\u{1F1E6}\u{1F1F9}",
-  "Azerbaijan": "\u{1F1E6}\u{1F1FF}",
-  "Bahrain": "\u{1F1E7}\u{1F1ED}",
-  "Bangladesh": "\u{1F1E7}\u{1F1E9}",
-  "Belarus": "\u{1F1E7}\u{1F1FE}",
-  "Belgium": "\u{1F1E7}\u{1F1EA}",
-  "Bolivia": "\u{1F1E7}\u{1F1F4}",
-  "Bosnia and Herzegovina": "\u{1F1E7}\u{1F1E6}",
-  "Brazil": "\u{1F1E7}\u{1F1F7}",
-  "Bulgaria": "\u{1F1E7}\u{1F1EC}",
-  "Cambodia": "\u{1F1F0}\u{1F1ED}",
-  "Cameroon": "\u{1F1E8}\u{1F1F2}",
-  "Canada": "\u{1F1E8}\u{1F1E6}",
-  "Chile": "\u{1F1E8}\u{1F1F1}",
-  "China": "\u{1F1E8}\u{1F1F3}",
-  "Colombia": "\u{1F1E8}\u{1F1F4}",
-  "Costa Rica": "\u{1F1E8}\u{1F1F7}",
-  "Croatia": "\u{1F1ED}\u{1F1F7}",
-  "Cuba": "\u{1F1E8}\u{1F1FA}",
-  "Cyprus": "\u{1F1E8}\u{1F1FE}",
-  "Czech Republic": "\u{1F1E8}\u{1F1FF}",
-  "Czechia": "\u{1F1E8}\u{1F1FF}",
-  "Denmark": "\u{1F1E9}\u{1F1F0}",
-  "Dominican Republic": "\u{1F1E9}\u{1F1F4}",
-  "Ecuador": "\u{1F1EA}\u{1F1E8}",
-  "Egypt": "\u{1F1EA}\u{1F1EC}",
-  "El Salvador": "\u{1F1F8}\u{1F1FB}",
-  "Estonia": "\u{1F1EA}\u{1F1EA}",
-  "Ethiopia": "\u{1F1EA}\u{1F1F9}",
-  "Finland": "\u{1F1EB}\u{1F1EE}",
-  "France": "\u{1F1EB}\u{1F1F7}",
-  "Georgia": "\u{1F1EC}\u{1F1EA}",
-  "Germany": "\u{1F1E9}\u{1F1EA}",
-  "Ghana": "\u{1F1EC}\u{1F1ED}",
-  "Greece": "\u{1F1EC}\u{1F1F7}",
-  "Guatemala": "\u{1F1EC}\u{1F1F9}",
-  "Honduras": "\u{1F1ED}\u{1F1F3}",
-  "Hong Kong": "\u{1F1ED}\u{1F1F0}",
-  "Hungary": "\u{1F1ED}\u{1F1FA}",
-  "Iceland": "\u{1F1EE}\u{1F1F8}",
-  "India": "\u{1F1EE}\u{1F1F3}",
-  "Indonesia": "\u{1F1EE}\u{1F1E9}",
-  "Iran": "\u{1F1EE}\u{1F1F7}",
-  "Iraq": "\u{1F1EE}\u{1F1F6}",
-  "Ireland": "\u{1F1EE}\u{1F1EA}",
-  "Israel": "\u{1F1EE}\u{1F1F1}",
-  "Italy": "\u{1F1EE}\u{1F1F9}",
-  "Jamaica": "\u{1F1EF}\u{1F1F2}",
-  "Japan": "\u{1F1EF}\u{1F1F5}",
-  "Jordan": "\u{1F1EF}\u{1F1F4}",
-  "Kazakhstan": "\u{1F1F0}\u{1F1FF}",
-  "Kenya": "\u{1F1F0}\u{1F1EA}",
-  "Kuwait": "\u{1F1F0}\u{1F1FC}",
-  "Kyrgyzstan": "\u{1F1F0}\u{1F1EC}",
-  "Latvia": "\u{1F1F1}\u{1F1FB}",
-  "Lebanon": "\u{1F1F1}\u{1F1E7}",
-  "Libya": "\u{1F1F1}\u{1F1FE}",
-  "Lithuania": "\u{1F1F1}\u{1F1F9}",
-  "Luxembourg": "\u{1F1F1}\u{1F1FA}",
-  "Malaysia": "\u{1F1F2}\u{1F1FE}",
-  "Maldives": "\u{1F1F2}\u{1F1FB}",
-  "Malta": "\u{1F1F2}\u{1F1F9}",
-  "Mexico": "\u{1F1F2}\u{1F1FD}",
-  "Moldova": "\u{1F1F2}\u{1F1E9}",
-  "Mongolia": "\u{1F1F2}\u{1F1F3}",
-  "Montenegro": "\u{1F1F2}\u{1F1EA}",
-  "Morocco": "\u{1F1F2}\u{1F1E6}",
-  "Myanmar": "\u{1F1F2}\u{1F1F2}",
-  "Nepal": "\u{1F1F3}\u{1F1F5}",
-  "Netherlands": "\u{1F1F3}\u{1F1F1}",
-  "New Zealand": "\u{1F1F3}\u{1F1FF}",
-  "Nicaragua": "\u{1F1F3}\u{1F1EE}",
-  "Nigeria": "\u{1F1F3}\u{1F1EC}",
-  "North Korea": "\u{1F1F0}\u{1F1F5}",
-  "North Macedonia": "\u{1F1F2}\u{1F1F0}",
-  "Norway": "\u{1F1F3}\u{1F1F4}",
-  "Oman": "\u{1F1F4}\u{1F1F2}",
-  "Pakistan": "\u{1F1F5}\u{1F1F0}",
-  "Palestine": "\u{1F1F5}\u{1F1F8}",
-  "Panama": "\u{1F1F5}\u{1F1E6}",
-  "Paraguay": "\u{1F1F5}\u{1F1FE}",
-  "Peru": "\u{1F1F5}\u{1F1EA}",
-  "Philippines": "\u{1F1F5}\u{1F1ED}",
-  "Poland": "\u{1F1F5}\u{1F1F1}",
-  "Portugal": "\u{1F1F5}\u{1F1F9}",
-  "Qatar": "\u{1F1F6}\u{1F1E6}",
-  "Romania": "\u{1F1F7}\u{1F1F4}",
-  "Russia": "\u{1F1F7}\u{1F1FA}",
-  "Saudi Arabia": "\u{1F1F8}\u{1F1E6}",
-  "Senegal": "\u{1F1F8}\u{1F1F3}",
-  "Serbia": "\u{1F1F7}\u{1F1F8}",
-  "Singapore": "\u{1F1F8}\u{1F1EC}",
-  "Slovakia": "\u{1F1F8}\u{1F1F0}",
-  "Slovenia": "\u{1F1F8}\u{1F1EE}",
-  "South Africa": "\u{1F1FF}\u{1F1E6}",
-  "South Korea": "\u{1F1F0}\u{1F1F7}",
-  "Spain": "\u{1F1EA}\u{1F1F8}",
-  "Sri Lanka": "\u{1F1F1}\u{1F1F0}",
-  "Sudan": "\u{1F1F8}\u{1F1E9}",
-  "Sweden": "\u{1F1F8}\u{1F1EA}",
-  "Switzerland": "\u{1F1E8}\u{1F1ED}",
-  "Syria": "\u{1F1F8}\u{1F1FE}",
-  "Taiwan": "\u{1F1F9}\u{1F1FC}",
-  "Tanzania": "\u{1F1F9}\u{1F1FF}",
-  "Thailand": "\u{1F1F9}\u{1F1ED}",
-  "Tunisia": "\u{1F1F9}\u{1F1F3}",
-  "Turkey": "\u{1F1F9}\u{1F1F7}",
-  "Turkmenistan": "\u{1F1F9}\u{1F1F2}",
-  "Uganda": "\u{1F1FA}\u{1F1EC}",
-  "Ukraine": "\u{1F1FA}\u{1F1E6}",
-  "United Arab Emirates": "\u{1F1E6}\u{1F1EA}",
-  "United Kingdom": "\u{1F1EC}\u{1F1E7}",
-  "United States": "\u{1F1FA}\u{1F1F8}",
-  "Uruguay": "\u{1F1FA}\u{1F1FE}",
-  "Uzbekistan": "\u{1F1FA}\u{1F1FF}",
-  "Venezuela": "\u{1F1FB}\u{1F1EA}",
-  "Vietnam": "\u{1F1FB}\u{1F1F3}",
-  "Yemen": "\u{1F1FE}\u{1F1EA}",
-  "Zambia": "\u{1F1FF}\u{1F1F2}",
-  "Zimbabwe": "\u{1F1FF}\u{1F1FC}",
-};
+// ── Country registry ──
+//
+// One entry per country, keyed by ISO-3166 alpha-2. Allium reports countries
+// by display name, and not always the same one ("Czechia" vs "Czech Republic"),
+// so every lookup goes through resolveCountry(), which accepts the name, any
+// alias or the code.
 
-export const COUNTRY_COORDS: Record<string, CountryCoord> = {
-  "Afghanistan": { lat: 33.93, lng: 67.71 },
-  "Albania": { lat: 41.15, lng: 20.17 },
-  "Algeria": { lat: 28.03, lng: 1.66 },
-  "Argentina": { lat: -38.42, lng: -63.62 },
-  "Armenia": { lat: 40.07, lng: 45.04 },
-  "Australia": { lat: -25.27, lng: 133.78 },
-  "Austria": { lat: 47.52, lng: 14.55 },
-  "Azerbaijan": { lat: 40.14, lng: 47.58 },
-  "Bahrain": { lat: 26.07, lng: 50.55 },
-  "Bangladesh": { lat: 23.68, lng: 90.36 },
-  "Belarus": { lat: 53.71, lng: 27.95 },
-  "Belgium": { lat: 50.50, lng: 4.47 },
-  "Bolivia": { lat: -16.29, lng: -63.59 },
-  "Bosnia and Herzegovina": { lat: 43.92, lng: 17.68 },
-  "Brazil": { lat: -14.24, lng: -51.93 },
-  "Bulgaria": { lat: 42.73, lng: 25.49 },
-  "Cambodia": { lat: 12.57, lng: 104.99 },
-  "Cameroon": { lat: 7.37, lng: 12.35 },
-  "Canada": { lat: 56.13, lng: -106.35 },
-  "Chile": { lat: -35.68, lng: -71.54 },
-  "China": { lat: 35.86, lng: 104.20 },
-  "Colombia": { lat: 4.57, lng: -74.30 },
-  "Costa Rica": { lat: 9.75, lng: -83.75 },
-  "Croatia": { lat: 45.10, lng: 15.20 },
-  "Cuba": { lat: 21.52, lng: -77.78 },
-  "Cyprus": { lat: 35.13, lng: 33.43 },
-  "Czech Republic": { lat: 49.82, lng: 15.47 },
-  "Czechia": { lat: 49.82, lng: 15.47 },
-  "Denmark": { lat: 56.26, lng: 9.50 },
-  "Dominican Republic": { lat: 18.74, lng: -70.16 },
-  "Ecuador": { lat: -1.83, lng: -78.18 },
-  "Egypt": { lat: 26.82, lng: 30.80 },
-  "El Salvador": { lat: 13.79, lng: -88.90 },
-  "Estonia": { lat: 58.60, lng: 25.01 },
-  "Ethiopia": { lat: 9.15, lng: 40.49 },
-  "Finland": { lat: 61.92, lng: 25.75 },
-  "France": { lat: 46.23, lng: 2.21 },
-  "Georgia": { lat: 42.32, lng: 43.36 },
-  "Germany": { lat: 51.17, lng: 10.45 },
-  "Ghana": { lat: 7.95, lng: -1.02 },
-  "Greece": { lat: 39.07, lng: 21.82 },
-  "Guatemala": { lat: 15.78, lng: -90.23 },
-  "Honduras": { lat: 15.20, lng: -86.24 },
-  "Hong Kong": { lat: 22.40, lng: 114.11 },
-  "Hungary": { lat: 47.16, lng: 19.50 },
-  "Iceland": { lat: 64.96, lng: -19.02 },
-  "India": { lat: 20.59, lng: 78.96 },
-  "Indonesia": { lat: -0.79, lng: 113.92 },
-  "Iran": { lat: 32.43, lng: 53.69 },
-  "Iraq": { lat: 33.22, lng: 43.68 },
-  "Ireland": { lat: 53.14, lng: -7.69 },
-  "Israel": { lat: 31.05, lng: 34.85 },
-  "Italy": { lat: 41.87, lng: 12.57 },
-  "Jamaica": { lat: 18.11, lng: -77.30 },
-  "Japan": { lat: 36.20, lng: 138.25 },
-  "Jordan": { lat: 30.59, lng: 36.24 },
-  "Kazakhstan": { lat: 48.02, lng: 66.92 },
-  "Kenya": { lat: -0.02, lng: 37.91 },
-  "Kuwait": { lat: 29.31, lng: 47.48 },
-  "Kyrgyzstan": { lat: 41.20, lng: 74.77 },
-  "Latvia": { lat: 56.88, lng: 24.60 },
-  "Lebanon": { lat: 33.85, lng: 35.86 },
-  "Libya": { lat: 26.34, lng: 17.23 },
-  "Lithuania": { lat: 55.17, lng: 23.88 },
-  "Luxembourg": { lat: 49.82, lng: 6.13 },
-  "Malaysia": { lat: 4.21, lng: 101.98 },
-  "Maldives": { lat: 3.20, lng: 73.22 },
-  "Malta": { lat: 35.94, lng: 14.38 },
-  "Mexico": { lat: 23.63, lng: -102.55 },
-  "Moldova": { lat: 47.41, lng: 28.37 },
-  "Mongolia": { lat: 46.86, lng: 103.85 },
-  "Montenegro": { lat: 42.71, lng: 19.37 },
-  "Morocco": { lat: 31.79, lng: -7.09 },
-  "Myanmar": { lat: 21.91, lng: 95.96 },
-  "Nepal": { lat: 28.39, lng: 84.12 },
-  "Netherlands": { lat: 52.13, lng: 5.29 },
-  "New Zealand": { lat: -40.90, lng: 174.89 },
-  "Nicaragua": { lat: 12.87, lng: -85.21 },
-  "Nigeria": { lat: 9.08, lng: 8.68 },
-  "North Korea": { lat: 40.34, lng: 127.51 },
-  "North Macedonia": { lat: 41.51, lng: 21.75 },
-  "Norway": { lat: 60.47, lng: 8.47 },
-  "Oman": { lat: 21.47, lng: 55.98 },
-  "Pakistan": { lat: 30.38, lng: 69.35 },
-  "Palestine": { lat: 31.95, lng: 35.23 },
-  "Panama": { lat: 8.54, lng: -80.78 },
-  "Paraguay": { lat: -23.44, lng: -58.44 },
-  "Peru": { lat: -9.19, lng: -75.02 },
-  "Philippines": { lat: 12.88, lng: 121.77 },
-  "Poland": { lat: 51.92, lng: 19.15 },
-  "Portugal": { lat: 39.40, lng: -8.22 },
-  "Qatar": { lat: 25.35, lng: 51.18 },
-  "Romania": { lat: 45.94, lng: 24.97 },
-  "Russia": { lat: 61.52, lng: 105.32 },
-  "Saudi Arabia": { lat: 23.89, lng: 45.08 },
-  "Senegal": { lat: 14.50, lng: -14.45 },
-  "Serbia": { lat: 44.02, lng: 21.01 },
-  "Singapore": { lat: 1.35, lng: 103.82 },
-  "Slovakia": { lat: 48.67, lng: 19.70 },
-  "Slovenia": { lat: 46.15, lng: 14.99 },
-  "South Africa": { lat: -30.56, lng: 22.94 },
-  "South Korea": { lat: 35.91, lng: 127.77 },
-  "Spain": { lat: 40.46, lng: -3.75 },
-  "Sri Lanka": { lat: 7.87, lng: 80.77 },
-  "Sudan": { lat: 12.86, lng: 30.22 },
-  "Sweden": { lat: 60.13, lng: 18.64 },
-  "Switzerland": { lat: 46.82, lng: 8.23 },
-  "Syria": { lat: 34.80, lng: 38.99 },
-  "Taiwan": { lat: 23.70, lng: 120.96 },
-  "Tanzania": { lat: -6.37, lng: 34.89 },
-  "Thailand": { lat: 15.87, lng: 100.99 },
-  "Tunisia": { lat: 33.89, lng: 9.54 },
-  "Turkey": { lat: 38.96, lng: 35.24 },
-  "Turkmenistan": { lat: 38.97, lng: 59.56 },
-  "Uganda": { lat: 1.37, lng: 32.29 },
-  "Ukraine": { lat: 48.38, lng: 31.17 },
-  "United Arab Emirates": { lat: 23.42, lng: 53.85 },
-  "United Kingdom": { lat: 55.38, lng: -3.44 },
-  "United States": { lat: 37.09, lng: -95.71 },
-  "Uruguay": { lat: -32.52, lng: -55.77 },
-  "Uzbekistan": { lat: 41.38, lng: 64.59 },
-  "Venezuela": { lat: 6.42, lng: -66.59 },
-  "Vietnam": { lat: 14.06, lng: 108.28 },
-  "Yemen": { lat: 15.55, lng: 48.52 },
-  "Zambia": { lat: -13.13, lng: 27.85 },
-  "Zimbabwe": { lat: -19.02, lng: 29.15 },
-};
+export type CountryRegion = "Africa" | "Americas" | "Asia" | "Europe" | "Oceania";
+
+export interface Country extends CountryCoord {
+  code: string; // ISO-3166 alpha-2
+  name: string; // display name; what ArcData.fromCountry / toCountry hold
+  aliases: string[];
+  flag: string;
+  region: CountryRegion;
+}
+
+type CountrySpec = Omit<Country, "flag" | "aliases"> & { aliases?: string[] };
+
+// lat/lng are approximate geographic centroids
+const COUNTRY_SPECS: CountrySpec[] = [
+  { code: "AF", name: "Afghanistan", lat: 33.93, lng: 67.71, region: "Asia" },
+  { code: "AL", name: "Albania", lat: 41.15, lng: 20.17, region: "Europe" },
+  { code: "DZ", name: "Algeria", lat: 28.03, lng: 1.66, region: "Africa" },
+  { code: "AR", name: "Argentina", lat: -38.42, lng: -63.62, region: "Americas" },
+  { code: "AM", name: "Armenia", lat: 40.07, lng: 45.04, region: "Asia" },
+  { code: "AU", name: "Australia", lat: -25.27, lng: 133.78, region: "Oceania" },
+  { code: "AT", name: "Austria", lat: 47.52, lng: 14.55, region: "Europe" },
+  { code: "AZ", name: "Azerbaijan", lat: 40.14, lng: 47.58, region: "Asia" },
+  { code: "BH", name: "Bahrain", lat: 26.07, lng: 50.55, region: "Asia" },
+  { code: "BD", name: "Bangladesh", lat: 23.68, lng: 90.36, region: "Asia" },
+  { code: "BY", name: "Belarus", lat: 53.71, lng: 27.95, region: "Europe" },
+  { code: "BE", name: "Belgium", lat: 50.50, lng: 4.47, region: "Europe" },
+  { code: "BO", name: "Bolivia", lat: -16.29, lng: -63.59, region: "Americas", aliases: ["Bolivia, Plurinational State of"] },
+  { code: "BA", name: "Bosnia and Herzegovina", lat: 43.92, lng: 17.68, region: "Europe", aliases: ["Bosnia"] },
+  { code: "BR", name: "Brazil", lat: -14.24, lng: -51.93, region: "Americas" },
+  { code: "BG", name: "Bulgaria", lat: 42.73, lng: 25.49, region: "Europe" },
+  { code: "KH", name: "Cambodia", lat: 12.57, lng: 104.99, region: "Asia" },
+  { code: "CM", name: "Cameroon", lat: 7.37, lng: 12.35, region: "Africa" },
+  { code: "CA", name: "Canada", lat: 56.13, lng: -106.35, region: "Americas" },
+  { code: "CL", name: "Chile", lat: -35.68, lng: -71.54, region: "Americas" },
+  { code: "CN", name: "China", lat: 35.86, lng: 104.20, region: "Asia", aliases: ["People's Republic of China"] },
+  { code: "CO", name: "Colombia", lat: 4.57, lng: -74.30, region: "Americas" },
+  { code: "CR", name: "Costa Rica", lat: 9.75, lng: -83.75, region: "Americas" },
+  { code: "HR", name: "Croatia", lat: 45.10, lng: 15.20, region: "Europe" },
+  { code: "CU", name: "Cuba", lat: 21.52, lng: -77.78, region: "Americas" },
+  { code: "CY", name: "Cyprus", lat: 35.13, lng: 33.43, region: "Europe" },
+  { code: "CZ", name: "Czechia", lat: 49.82, lng: 15.47, region: "Europe", aliases: ["Czech Republic"] },
+  { code: "DK", name: "Denmark", lat: 56.26, lng: 9.50, region: "Europe" },
+  { code: "DO", name: "Dominican Republic", lat: 18.74, lng: -70.16, region: "Americas" },
+  { code: "EC", name: "Ecuador", lat: -1.83, lng: -78.18, region: "Americas" },
+  { code: "EG", name: "Egypt", lat: 26.82, lng: 30.80, region: "Africa" },
+  { code: "SV", name: "El Salvador", lat: 13.79, lng: -88.90, region: "Americas" },
+  { code: "EE", name: "Estonia", lat: 58.60, lng: 25.01, region: "Europe" },
+  { code: "ET", name: "Ethiopia", lat: 9.15, lng: 40.49, region: "Africa" },
+  { code: "FI", name: "Finland", lat: 61.92, lng: 25.75, region: "Europe" },
+  { code: "FR", name: "France", lat: 46.23, lng: 2.21, region: "Europe" },
+  { code: "GE", name: "Georgia", lat: 42.32, lng: 43.36, region: "Asia" },
+  { code: "DE", name: "Germany", lat: 51.17, lng: 10.45, region: "Europe" },
+  { code: "GH", name: "Ghana", lat: 7.95, lng: -1.02, region: "Africa" },
+  { code: "GR", name: "Greece", lat: 39.07, lng: 21.82, region: "Europe" },
+  { code: "GT", name: "Guatemala", lat: 15.78, lng: -90.23, region: "Americas" },
+  { code: "HN", name: "Honduras", lat: 15.20, lng: -86.24, region: "Americas" },
+  { code: "HK", name: "Hong Kong", lat: 22.40, lng: 114.11, region: "Asia", aliases: ["Hong Kong SAR", "Hong Kong SAR China"] },
+  { code: "HU", name: "Hungary", lat: 47.16, lng: 19.50, region: "Europe" },
+  { code: "IS", name: "Iceland", lat: 64.96, lng: -19.02, region: "Europe" },
+  { code: "IN", name: "India", lat: 20.59, lng: 78.96, region: "Asia" },
+  { code: "ID", name: "Indonesia", lat: -0.79, lng: 113.92, region: "Asia" },
+  { code: "IR", name: "Iran", lat: 32.43, lng: 53.69, region: "Asia", aliases: ["Iran, Islamic Republic of"] },
+  { code: "IQ", name: "Iraq", lat: 33.22, lng: 43.68, region: "Asia" },
+  { code: "IE", name: "Ireland", lat: 53.14, lng: -7.69, region: "Europe" },
+  { code: "IL", name: "Israel", lat: 31.05, lng: 34.85, region: "Asia" },
+  { code: "IT", name: "Italy", lat: 41.87, lng: 12.57, region: "Europe" },
+  { code: "JM", name: "Jamaica", lat: 18.11, lng: -77.30, region: "Americas" },
+  { code: "JP", name: "Japan", lat: 36.20, lng: 138.25, region: "Asia" },
+  { code: "JO", name: "Jordan", lat: 30.59, lng: 36.24, region: "Asia" },
+  { code: "KZ", name: "Kazakhstan", lat: 48.02, lng: 66.92, region: "Asia" },
+  { code: "KE", name: "Kenya", lat: -0.02, lng: 37.91, region: "Africa" },
+  { code: "KW", name: "Kuwait", lat: 29.31, lng: 47.48, region: "Asia" },
+  { code: "KG", name: "Kyrgyzstan", lat: 41.20, lng: 74.77, region: "Asia", aliases: ["Kyrgyz Republic"] },
+  { code: "LV", name: "Latvia", lat: 56.88, lng: 24.60, region: "Europe" },
+  { code: "LB", name: "Lebanon", lat: 33.85, lng: 35.86, region: "Asia" },
+  { code: "LY", name: "Libya", lat: 26.34, lng: 17.23, region: "Africa" },
+  { code: "LT", name: "Lithuania", lat: 55.17, lng: 23.88, region: "Europe" },
+  { code: "LU", name: "Luxembourg", lat: 49.82, lng: 6.13, region: "Europe" },
+  { code: "MY", name: "Malaysia", lat: 4.21, lng: 101.98, region: "Asia" },
+  { code: "MV", name: "Maldives", lat: 3.20, lng: 73.22, region: "Asia" },
+  { code: "MT", name: "Malta", lat: 35.94, lng: 14.38, region: "Europe" },
+  { code: "MX", name: "Mexico", lat: 23.63, lng: -102.55, region: "Americas" },
+  { code: "MD", name: "Moldova", lat: 47.41, lng: 28.37, region: "Europe", aliases: ["Moldova, Republic of"] },
+  { code: "MN", name: "Mongolia", lat: 46.86, lng: 103.85, region: "Asia" },
+  { code: "ME", name: "Montenegro", lat: 42.71, lng: 19.37, region: "Europe" },
+  { code: "MA", name: "Morocco", lat: 31.79, lng: -7.09, region: "Africa" },
+  { code: "MM", name: "Myanmar", lat: 21.91, lng: 95.96, region: "Asia", aliases: ["Burma"] },
+  { code: "NP", name: "Nepal", lat: 28.39, lng: 84.12, region: "Asia" },
+  { code: "NL", name: "Netherlands", lat: 52.13, lng: 5.29, region: "Europe", aliases: ["The Netherlands", "Holland"] },
+  { code: "NZ", name: "New Zealand", lat: -40.90, lng: 174.89, region: "Oceania" },
+  { code: "NI", name: "Nicaragua", lat: 12.87, lng: -85.21, region: "Americas" },
+  { code: "NG", name: "Nigeria", lat: 9.08, lng: 8.68, region: "Africa" },
+  { code: "KP", name: "North Korea", lat: 40.34, lng: 127.51, region: "Asia", aliases: ["Korea, Democratic People's Republic of", "DPRK"] },
+  { code: "MK", name: "North Macedonia", lat: 41.51, lng: 21.75, region: "Europe", aliases: ["Macedonia"] },
+  { code: "NO", name: "Norway", lat: 60.47, lng: 8.47, region: "Europe" },
+  { code: "OM", name: "Oman", lat: 21.47, lng: 55.98, region: "Asia" },
+  { code: "PK", name: "Pakistan", lat: 30.38, lng: 69.35, region: "Asia" },
+  { code: "PS", name: "Palestine", lat: 31.95, lng: 35.23, region: "Asia", aliases: ["Palestine, State of", "Palestinian Territories"] },
+  { code: "PA", name: "Panama", lat: 8.54, lng: -80.78, region: "Americas" },
+  { code: "PY", name: "Paraguay", lat: -23.44, lng: -58.44, region: "Americas" },
+  { code: "PE", name: "Peru", lat: -9.19, lng: -75.02, region: "Americas" },
+  { code: "PH", name: "Philippines", lat: 12.88, lng: 121.77, region: "Asia" },
+  { code: "PL", name: "Poland", lat: 51.92, lng: 19.15, region: "Europe" },
+  { code: "PT", name: "Portugal", lat: 39.40, lng: -8.22, region: "Europe" },
+  { code: "QA", name: "Qatar", lat: 25.35, lng: 51.18, region: "Asia" },
+  { code: "RO", name: "Romania", lat: 45.94, lng: 24.97, region: "Europe" },
+  { code: "RU", name: "Russia", lat: 61.52, lng: 105.32, region: "Europe", aliases: ["Russian Federation"] },
+  { code: "SA", name: "Saudi Arabia", lat: 23.89, lng: 45.08, region: "Asia" },
+  { code: "SN", name: "Senegal", lat: 14.50, lng: -14.45, region: "Africa" },
+  { code: "RS", name: "Serbia", lat: 44.02, lng: 21.01, region: "Europe" },
+  { code: "SG", name: "Singapore", lat: 1.35, lng: 103.82, region: "Asia" },
+  { code: "SK", name: "Slovakia", lat: 48.67, lng: 19.70, region: "Europe", aliases: ["Slovak Republic"] },
+  { code: "SI", name: "Slovenia", lat: 46.15, lng: 14.99, region: "Europe" },
+  { code: "ZA", name: "South Africa", lat: -30.56, lng: 22.94, region: "Africa" },
+  { code: "KR", name: "South Korea", lat: 35.91, lng: 127.77, region: "Asia", aliases: ["Korea", "Korea, Republic of", "Republic of Korea"] },
+  { code: "ES", name: "Spain", lat: 40.46, lng: -3.75, region: "Europe" },
+  { code: "LK", name: "Sri Lanka", lat: 7.87, lng: 80.77, region: "Asia" },
+  { code: "SD", name: "Sudan", lat: 12.86, lng: 30.22, region: "Africa" },
+  { code: "SE", name: "Sweden", lat: 60.13, lng: 18.64, region: "Europe" },
+  { code: "CH", name: "Switzerland", lat: 46.82, lng: 8.23, region: "Europe" },
+  { code: "SY", name: "Syria", lat: 34.80, lng: 38.99, region: "Asia", aliases: ["Syrian Arab Republic"] },
+  { code: "TW", name: "Taiwan", lat: 23.70, lng: 120.96, region: "Asia", aliases: ["Taiwan, Province of China"] },
+  { code: "TZ", name: "Tanzania", lat: -6.37, lng: 34.89, region: "Africa", aliases: ["Tanzania, United Republic of"] },
+  { code: "TH", name: "Thailand", lat: 15.87, lng: 100.99, region: "Asia" },
+  { code: "TN", name: "Tunisia", lat: 33.89, lng: 9.54, region: "Africa" },
+  { code: "TR", name: "Turkey", lat: 38.96, lng: 35.24, region: "Asia", aliases: ["Türkiye", "Turkiye"] },
+  { code: "TM", name: "Turkmenistan", lat: 38.97, lng: 59.56, region: "Asia" },
+  { code: "UG", name: "Uganda", lat: 1.37, lng: 32.29, region: "Africa" },
+  { code: "UA", name: "Ukraine", lat: 48.38, lng: 31.17, region: "Europe" },
+  { code: "AE", name: "United Arab Emirates", lat: 23.42, lng: 53.85, region: "Asia", aliases: ["UAE"] },
+  { code: "GB", name: "United Kingdom", lat: 55.38, lng: -3.44, region: "Europe", aliases: ["UK", "Great Britain", "United Kingdom of Great Britain and Northern Ireland"] },
+  { code: "US", name: "United States", lat: 37.09, lng: -95.71, region: "Americas", aliases: ["USA", "United States of America"] },
+  { code: "UY", name: "Uruguay", lat: -32.52, lng: -55.77, region: "Americas" },
+  { code: "UZ", name: "Uzbekistan", lat: 41.38, lng: 64.59, region: "Asia" },
+  { code: "VE", name: "Venezuela", lat: 6.42, lng: -66.59, region: "Americas", aliases: ["Venezuela, Bolivarian Republic of"] },
+  { code: "VN", name: "Vietnam", lat: 14.06, lng: 108.28, region: "Asia", aliases: ["Viet Nam"] },
+  { code: "YE", name: "Yemen", lat: 15.55, lng: 48.52, region: "Asia" },
+  { code: "ZM", name: "Zambia", lat: -13.13, lng: 27.85, region: "Africa" },
+  { code: "ZW", name: "Zimbabwe", lat: -19.02, lng: 29.15, region: "Africa" },
+];
+
+/** Regional-indicator emoji for an alpha-2 code ("GB" → 🇬🇧). */
+function flagFor(code: string): string {
+  return String.fromCodePoint(...[...code.toUpperCase()].map((c) => 0x1f1e6 + c.charCodeAt(0) - 65));
+}
+
+export const COUNTRIES: Country[] = COUNTRY_SPECS.map((spec) => ({
+  ...spec,
+  aliases: spec.aliases ?? [],
+  flag: flagFor(spec.code),
+}));
+
+export const COUNTRIES_BY_CODE: Record<string, Country> = Object.fromEntries(
+  COUNTRIES.map((c) => [c.code, c])
+);
+
+function lookupKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+const byName = new Map<string, Country>();
+for (const c of COUNTRIES) {
+  for (const key of [c.code, c.name, ...c.aliases]) byName.set(lookupKey(key), c);
+}
+
+/** Find a country by display name, alias or alpha-2 code (case-insensitive). */
+export function resolveCountry(name: string | null | undefined): Country | null {
+  if (!name) return null;
+  return byName.get(lookupKey(name)) ?? null;
+}
+
+/** Flag emoji for a country name, or "" when it can't be resolved. */
+export function countryFlag(name: string | null | undefined): string {
+  return resolveCountry(name)?.flag ?? "";
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { canonicalCountry, countryAt, isLand, isSameCountry } from "./countrymap";
+import { COUNTRY_RASTER } from "./countryraster";
+import { WORLD_MAP } from "./worldmap";
+
+describe("countryAt", () => {
+  // Cities inside large countries that sit closer to a neighbour's centroid
+  it.each([
+    ["Moscow", 55.75, 37.62, "Russia"],
+    ["St Petersburg", 59.93, 30.34, "Russia"],
+    ["Vladivostok", 43.12, 131.89, "Russia"],
+    ["Seattle", 47.61, -122.33, "United States"],
+    ["Anchorage", 61.22, -149.9, "United States"],
+    ["Fairbanks", 64.84, -147.72, "United States"],
+    ["Miami", 25.77, -80.19, "United States"],
+    ["Los Angeles", 34.05, -118.24, "United States"],
+    ["Toronto", 43.65, -79.38, "Canada"],
+    ["Manaus", -3.12, -60.02, "Brazil"],
+    ["Minsk", 53.9, 27.57, "Belarus"],
+    ["Santa Clara", 22.41, -79.96, "Cuba"],
+    ["Helsinki", 60.17, 24.94, "Finland"],
+    ["Pyongyang", 39.04, 125.76, "North Korea"],
+    ["Caracas", 10.49, -66.88, "Venezuela"],
+    ["Mexico City", 19.43, -99.13, "Mexico"],
+  ])("puts %s (%f, %f) in %s", (_city, lat, lng, country) => {
+    expect(countryAt(lat, lng)).toBe(country);
+  });
+
+  it("returns null over open ocean", () => {
+    expect(countryAt(0, -30)).toBeNull();
+    expect(countryAt(-40, 80)).toBeNull();
+  });
+
+  it("never assigns a country to an ocean cell", () => {
+    for (let lat = -89.75; lat < 90; lat += 1) {
+      for (let lng = -179.75; lng < 180; lng += 1) {
+        if (!isLand(lat, lng)) expect(countryAt(lat, lng)).toBeNull();
+      }
+    }
+  });
+
+  it("decodes every raster row to WORLD_MAP's width", () => {
+    expect(COUNTRY_RASTER).toHaveLength(WORLD_MAP.length);
+    for (const row of COUNTRY_RASTER) {
+      const width = [...row.matchAll(/[A-Z.]{2}(\d+)/g)].reduce((sum, m) => sum + Number(m[1]), 0);
+      expect(width).toBe(WORLD_MAP[0].length);
+    }
+  });
+});
+
+describe("canonicalCountry", () => {
+  it("collapses aliases to the name countryAt reports", () => {
+    expect(canonicalCountry("Czech Republic")).toBe("Czechia");
+    expect(canonicalCountry("United States of America")).toBe(countryAt(38.9, -77.04));
+    expect(isSameCountry("Russian Federation", "Russia")).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import { resolveCountry } from "./countries";
+import { COUNTRY_RASTER } from "./countryraster";
+import { WORLD_MAP } from "./worldmap";
+
+// WORLD_MAP cell holding a lat/lng; COUNTRY_RASTER shares its grid
+function cellOf(lat: number, lng: number): [number, number] {
+  const rows = WORLD_MAP.length;
+  const cols = WORLD_MAP[0].length;
+  const latIdx = Math.min(rows - 1, Math.max(0, Math.floor(((90 - lat) * rows) / 180)));
+  const lngIdx = Math.min(cols - 1, Math.max(0, Math.floor(((lng + 180) * cols) / 360)));
+  return [latIdx, lngIdx];
+}
+
+/** True if the WORLD_MAP raster marks this lat/lng as land. */
+export function isLand(lat: number, lng: number): boolean {
+  const [latIdx, lngIdx] = cellOf(lat, lng);
+  return WORLD_MAP[latIdx][lngIdx] === "1";
+}
+
+// COUNTRY_RASTER rows, run-length decoded on first use
+let countryRows: (string | null)[][] | null = null;
+
+function getCountryRows(): (string | null)[][] {
+  if (countryRows) return countryRows;
+  countryRows = COUNTRY_RASTER.map((encoded) => {
+    const row: (string | null)[] = [];
+    for (const [, code, run] of encoded.matchAll(/([A-Z.]{2})(\d+)/g)) {
+      const value = code === ".." ? null : code;
+      for (let i = 0; i < Number(run); i++) row.push(value);
+    }
+    return row;
+  });
+  return countryRows;
+}
+
+/**
+ * Resolve a point to the registry name of the country it lies in, from the
+ * COUNTRY_RASTER country-ID grid (Natural Earth borders at WORLD_MAP's 0.5°
+ * resolution). Returns null for ocean, unclaimed land (Antarctica) and
+ * countries the registry doesn't list.
+ */
+export function countryAt(lat: number, lng: number): string | null {
+  const [latIdx, lngIdx] = cellOf(lat, lng);
+  const code = getCountryRows()[latIdx][lngIdx];
+  return code ? resolveCountry(code)?.name ?? null : null;
+}
+
+/**
+ * Map a country name to the name countryAt() reports for it, so aliases
+ * like "Czechia" and "Czech Republic" collapse to one key.
+ */
+export function canonicalCountry(name: string): string {
+  return resolveCountry(name)?.name ?? name;
+}
+
+/** True if two country names refer to the same registry entry. */
+export function isSameCountry(a: string, b: string): boolean {
+  if (a === b) return true;
+  const ca = resolveCountry(a);
+  return !!ca && ca === resolveCountry(b);
+}
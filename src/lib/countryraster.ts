@@ -0,0 +1,366 @@
+// Country raster: 360 rows x 720 cols (0.5° resolution), aligned with WORLD_MAP
+// Each row is run-length encoded as <ISO-3166 alpha-2><run length>; ".." = no country
+// Generated from Natural Earth 50m countries (world-atlas), sampled at cell centres;
+// WORLD_MAP land outside every polygon takes the nearest country within 2°
+export const COUNTRY_RASTER: string[] = [
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..274GL1..3GL3..2GL25..412",
+  "..198CA1..2CA5..2CA17..2CA6..36GL5..3GL39..404",
+  "..188CA5..3CA41..12GL3..2GL1..4GL5..4GL2..1GL38..411",
+  "..177CA54..7GL5..1GL67..2GL5..9GL6..143RU2..242",
+  "..172CA4..6CA6..2CA13..1CA25..9GL78..2GL17..136RU5..74RU2..168",
+  "..170CA8..5CA3..1CA13..3CA20..6GL102..122RU2..1RU1..1RU5..6RU6..4RU5..2RU3..57RU10..164",
+  "..168CA14..1CA2..2CA5..2CA26..6GL95..1GL5..71NO1..1NO2..3NO1..2NO3..43RU4..6RU4..2RU1..1RU2..1RU2..67RU10..166",
+  "..168CA18..2CA8..2CA15..1CA3..13GL90..2GL2..57NO7..1NO1..2NO4..2NO2..2NO11..131RU2..2RU12..160",
+  "..149CA5..21CA15..1CA18..20GL93..60NO1..1NO7..1NO6..8NO2..141RU9..5RU3..154",
+  "..153CA7..3CA3..7CA12..1CA25..9GL98..63NO1..2NO19..158RU9..150",
+  "..157CA4..3CA5..7CA3..1CA1..1CA1..2CA24..6GL102..4GL1..64NO1..4NO7..4NO3..154RU7..6RU1..147",
+  "..131CA1..2CA6..15CA3..10CA5..11CA4..1CA15..15GL102..3GL1..67NO5..6NO7..310",
+  "..121CA8..20CA2..28CA1..6CA10..1CA2..23GL99..1GL1..66NO6..143RU1..24RU8..149",
+  "..119CA9..3CA2..8CA2..23CA8..5CA25..17GL94..1GL1..75NO2..98RU6..64RU12..84RU1..61",
+  "..115CA7..6CA4..1CA1..6CA4..9CA2..1CA2..1CA6..9CA8..16CA2..22GL9..1GL1..2GL84..3GL1..159RU2..2RU10..55RU3..5RU26..1RU1..133",
+  "..122CA2..2CA11..5CA7..6CA9..12CA6..10CA6..44GL79..156RU12..56RU40..1RU2..43RU1..3RU6..1RU7..71",
+  "..125CA23..2CA3..7CA4..4CA5..2CA26..43GL75..1GL1..1GL2..150RU8..55RU50..47RU11..1RU4..2RU5..1RU1..61",
+  "..132CA7..31CA3..3CA17..1CA6..46GL72..1GL2..151RU8..52RU1..1RU50..53RU2..81",
+  "..111CA9..3CA2..122GL73..150RU7..56RU47..4RU2..55RU1..78",
+  "..112CA16..20CA2..8CA8..4CA9..6CA5..8CA1..49GL61..1GL9..149RU7..54RU1..1RU3..1RU42..2RU2..1RU2..2RU1..55RU4..74",
+  "..111CA16..2CA3..12CA1..1CA1..1CA3..8CA5..5CA8..5CA6..2CA8..1CA8..42GL58..2GL4..154RU5..28RU3..18RU11..1RU39..4RU21..10RU10..28RU2..73",
+  "..110CA13..1CA7..2CA4..3CA2..2CA5..6CA2..2CA7..3CA3..2CA2..5CA6..2CA10..49GL2..1GL56..1GL8..149RU6..27RU7..5RU1..7RU1..2RU65..1RU31..24RU2..76",
+  "..109CA12..3CA19..1CA6..8CA9..3CA2..8CA7..3CA8..2CA4..1CA5..39GL63..2GL2..149RU6..26RU8..5RU1..5RU4..4RU92..1RU2..19RU10..2RU8..62",
+  "..111CA8..3CA22..1CA6..10CA5..3CA3..8CA8..1CA21..2CA1..36GL4..1GL62..147RU8..26RU8..2RU4..1RU11..2RU1..1RU92..6RU1..13RU11..2RU6..62",
+  "RU5..41RU2..65CA3..10CA25..16CA7..9CA6..2CA27..34GL1..1GL55..2GL6..148RU1..1RU5..22RU11..2RU5..4RU9..1RU93..5RU11..1RU27..55RU2",
+  "..40US1..1US13..69CA28..15CA8..7CA36..1CA3..29GL3..3GL47..1GL4..3GL5..89NO1..2NO2..1NO1..1NO2..1NO2..50RU6..20RU10..3RU18..1RU152..41",
+  "..37US27..41CA1..23CA5..1CA22..10CA10..10CA15..1CA18..2CA1..27GL2..1GL52..2GL3..93NO2..1NO3..1NO11..55RU2..15RU11..3RU17..1RU154..40",
+  "..34US43..19CA3..1CA7..3CA1..3CA3..9CA29..1CA2..5CA2..4CA6..14CA3..7CA2..5CA18..1CA1..24GL6..1GL1..1GL54..84NO2..1NO12FI5NO2..1NO2..1RU3..53RU6..9RU11..2RU173..16RU3..2RU12..7",
+  "..33US45CA5..5CA7..1CA26..10CA14..1CA9..7CA5..3CA1..1CA5..3CA1..7CA8..5CA1..2CA1..3CA18..31GL52..84NO8FI1NO9FI6NO1RU10..1RU1..26RU3..21RU9..6RU9..3RU189..5RU17..1",
+  "RU2..26RU50CA53..2CA9..4CA3..7CA1..6CA6..4CA6..1CA4..6CA7..10CA1..3CA12..35GL50..81NO4..2NO6RU2FI2NO5FI8NO1RU16..22RU1..8RU2..8RU3..2RU13..4RU8..3RU5..1RU167..1RU37",
+  "RU5..23RU50CA52..13CA2..2CA3..13CA4..4CA12..3CA1..1CA7..12CA3..3CA13..1CA1..27GL1..1GL43..87NO1..1NO1..2NO4RU10FI15RU17..10RU4..9RU6..1RU1..1RU36..3RU6..1RU204",
+  "RU9..22RU47CA53..5CA5..3CA11..3CA3..1CA2..2CA2..1CA15..3CA9..9CA5..5CA16..22GL1..2GL1..1GL36..96NO3RU14FI15RU19..7RU3..7RU48..3RU211",
+  "RU10..22RU46CA66..1CA40..1CA11..9CA1..9CA18..18GL41..98NO2RU14FI16RU19..6RU3..5RU48..4RU212",
+  "RU10..2RU5..18RU43CA66..1CA46..1CA4..18CA23..17GL38..95NO5RU16FI15RU3..2RU14..7RU49..2RU3..3RU214",
+  "RU1..1RU18..8RU4..6RU40CA110..2CA1..20CA14..2CA8..18GL31..1GL4..25IS2..11IS3..56NO1..1NO3RU16FI15RU6..6RU6..4RU3..1RU272",
+  "RU1..2RU16..6RU53CA102..2CA5..1CA3..22CA11..5CA6..19GL3..1GL27..28IS4..2IS12..54NO4RU16..4FI13RU8..11RU279",
+  "RU1..7RU7..12RU51CA107..3CA4..13CA21..4CA3..22GL25..35IS18..53NO3RU14..8FI9RU9..11RU280",
+  "..11RU3..13US9..2US40CA107..2CA8..9CA6..1CA16..1CA1..27GL1..3GL19..33IS1..2IS17..51NO5SE14..7FI11RU10..3RU5..2RU270..1RU2..1RU4..2",
+  "..38US40CA106..3CA10..9CA1..7CA15..28GL20..1GL1..37IS13..52NO7SE14..6FI13RU11..4RU281..3",
+  "..38US40CA97..1CA4..6CA6..3CA4..16CA16..26GL22..40IS6..52NO1..1NO6SE16..5FI14RU297..3",
+  "..19US4..12US43CA101..10CA1..13CA2..12CA6..3CA4..28GL20..98NO8SE14..6FI18RU296..2",
+  "..30US48CA97..18CA3..22CA1..2CA5..3CA1..29GL17..99NO9SE12..6FI21RU291..1RU4..1",
+  "..29US49CA96..19CA1..6CA1..3CA6..1CA3..9CA5..33GL14..70FO3..23NO14SE10..8FI19RU264..2RU24..8",
+  "..28US50CA95..27CA1..3CA12..45GL14..71FO1..23NO14SE11..8FI17RU255..6RU5..2RU20..12",
+  "..29US29..2US18CA94..33CA12..46GL12..71FO1..23NO16SE8..9FI15RU255..7RU3..5RU17..15",
+  "..30US1..2US23..1US6..4US11CA93..34CA16..43GL1..3GL7..95NO15SE10..8FI13RU256..8RU1..5RU17..17",
+  "..26US3..2US24..2US9..5US11CA89..34CA16..2CA1..6CA1..38GL2..1GL2..83GB1..12NO15SE12..2AX2..3FI7..7RU252..14RU7..2RU1..6RU1..19",
+  "..36US18..2US4..18US2..1US2CA87..35CA16..8CA3..138NO1..1NO12SE14..19RU252..13RU5..33",
+  "..36US16..4US2..24US3CA2US3CA80..34CA17..8CA4..137NO1..1NO9..1NO2SE13..10EE9RU229..7RU1..11RU6..10RU6..34",
+  "..36US1..4US1..1US2..1US7..31US3..1US4CA79..1CA1..30CA17..1CA2..4CA7..137NO8..3SE12..13EE8RU229..35RU6..2RU1..32",
+  "..45US7..2US2..32US2..1US2CA81..31CA29..112GB1..2GB4..20NO4..6SE10..11EE1..4EE6RU226..36RU7..36",
+  "..45US4..3US3..33US1..2US1..1US1CA81..31CA30..113GB3..31SE10..4SE1..11LV3EE3RU225..34RU12..34",
+  "..43US4..4US3..34US2..1US1..1US2CA80..32CA29..111GB9..23DK2..3SE9..3SE1..6LV3..3LV7RU222..36RU12..34",
+  "..42US3..45US2..3US1CA87..24CA30..111GB7..22DK4..4SE9..8LV14RU221..35RU14..34",
+  "..39US4..47US1..2US1..1US4CA85..17CA2..4CA30..112GB6..21DK6..4SE6..10LV1LT7LV6RU220..36RU15..33",
+  "..36US4..53US2..2US3CA87..19CA33..108GB1..2GB6..20DK4..4DK1..1SE2..14LT11LV1BY7RU213..37RU13..36",
+  "..34US2..2US1..54US7CA93..11CA35..1CA1..104IE1..4GB7..20DK2..1DK5..4DK1..12RU1LT10BY9RU75KZ3RU1KZ1RU130..39RU13..36",
+  "..31US3..60US1..5CA96..5CA43..99IE2GB4..4GB4..20DE3..2DK2..11PL2..3RU6LT5BY11RU72KZ8RU128..5RU1..35RU13..11RU1..24",
+  "..100CA95..6CA42..97IE4GB5..1GB2..1GB6..19DE4..2DE2..6PL15LT5BY11RU65KZ14RU2KZ1RU7KZ1RU121..3RU1..1RU1..5RU1..26RU8..40",
+  "..26US1..67CA1..4CA97..6CA38..2CA5..93IE8..6GB6..17DE11..1PL18BY18RU57KZ25RU2KZ5RU121..2RU4..4RU1..26RU8..40",
+  "..23US1..71CA1..5CA1..1CA93..6CA46..93IE7..3GB10..10NL3DE15PL19BY17RU58KZ33RU86CN7RU34..1RU2..26RU8..40",
+  "..96CA1..4CA1..1CA93..2CA1..3CA46..93IE7..4GB11..6NL5DE15PL19BY15RU59KZ35RU83CN12RU31..1RU3..25RU5..43",
+  "..11US1..85CA1..7CA91..7CA46..90IE8..4GB12..6NL5DE15PL17BY17RU2UA3RU54KZ36RU83CN12RU33..27RU4..43",
+  "..5US2..97CA95..3CA45..93IE3..7GB12..5NL5DE17PL18BY1UA6BY7UA8RU52KZ38RU38MN3RU41CN12RU29..2RU3..26RU3..44",
+  "..105CA95..1CA42..3CA2..106GB9..2BE6NL1DE18PL17UA21RU32KZ7RU16KZ36RU2KZ1RU34MN8RU36CN14RU27..3RU3..26RU2..45",
+  "..103CA2..2CA135..4CA2..103GB7..5FR3BE6DE16CZ3PL17UA23RU27KZ12RU2KZ6RU4KZ42RU1KZ3RU16MN1RU11MN9RU34CN16RU26..3RU3..25RU1..47",
+  "..104CA124..5CA1..2CA4..5CA2..102GB1..2GB1..10FR5BE4DE13CZ8PL1CZ1PL12UA28RU20KZ1RU1KZ72RU12MN8RU7MN10RU3MN5RU14MN1RU10CN16RU26..3RU4..22RU2..48",
+  "..106CA4..2CA114..6CA2..10CA2..1CA1..113FR9BE2LU1DE12CZ12PL9UA33RU15KZ76RU9MN15RU1MN21RU10MN7CN1RU3CN18RU26..3RU4..72",
+  "..108CA4..2CA110..10CA2..8CA5..1CA3..102FR1..1FR16DE13CZ10SK8PL1UA35RU14KZ80RU2MN43RU3MN11CN26RU22..3RU2..2RU1..71",
+  "..110CA3..2US56CA51..2CA7..12CA9..101FR1..3FR19DE12CZ2AT2CZ2SK11UA34RU14KZ80CN3MN56CN29RU19..4RU2..74",
+  "..111US1..3US61CA7US1CA37..1CA9..11CA11..98FR24DE11AT8SK6HU5UA8RO1MD2UA24RU14KZ77CN6MN55CN30RU6CN1RU11..4RU1..75",
+  "..111US3..1US71CA34..1CA9..11CA10..2CA2..98FR22DE11AT8HU11RO10MD3UA19RU19KZ75CN9MN54CN1MN3CN24RU3CN4RU10..5RU1..75",
+  "..112US2..1US74CA32US1CA1US1CA6..17CA1..1CA1..2CA2..102FR18CH5AT14HU11RO11MD4UA18..1RU19KZ74CN10MN58CN29RU10..6RU2..74",
+  "..112US78CA30US4CA6..1CA1..6CA1..8CA1..5CA1..102FR17CH8IT4AT7SI1HU10RO13MD4UA14..3RU21KZ2..6KZ60CN16MN58CN28RU9..7RU3..73",
+  "..113US79CA22..1CA5US4CA7..2CA2..2CA3..118FR14CH1FR1CH2IT1CH1IT9SI5HR2HU8RO14MD2UA3..2UA8..6RU21..8KZ59CN17MN51CN35RU8..8RU1..75",
+  "..112US81CA26US5CA10..3CA1..1CA1..118FR16IT12..1SI4HR7RS4RO14MD1UA3..6RU4..6RU20..10KZ59CN16MN51CN35RU8..24RU1..60",
+  "..112US83CA16..1CA5US8CA3..4CA6..120FR16IT10..3HR12RS3RO15UA1RO1..7RU7..1RU21..8KZ11UZ4KZ45CN1KZ1CN17MN47CN34RU1CN2RU8..9JP2..11RU1..63",
+  "..112US83CA14US17CA1..2CA5..124FR16IT11..5HR2BA7RS4RO15..9RU2..6RU19..8KZ10UZ9KZ40CN27MN35CN39RU11..11JP2..8RU1..65",
+  "..112US83CA13US14..6CA3..126FR17IT3..2IT6..5HR2BA7RS6RO12..21RU16..7KZ11UZ10KZ39CN30MN32CN39RU10..11JP4..3JP1..69",
+  "..112US84CA11US13..8CA2..127FR18..6IT5..6HR2BA5RS6BG4RO3BG5..22RU16..7KZ10UZ11KZ38CN30MN33CN38RU9..12JP7..70",
+  "..111US84CA7US17..123ES15FR10..4FR2..8IT7..6HR1BA2ME2RS2XK1RS4BG10..25GE2RU12..8KZ9UZ19KZ30CN31MN30CN40RU2..1RU4..14JP8..69",
+  "..111US84CA7US16..124ES18FR1ES1FR4..14IT1..1IT6..8BA1ME3XK3RS2BG11..27GE5RU7..10KZ7UZ20KZ11KG2KZ2KG11KZ2CN35MN26CN40RU2..3RU1..13JP8..72",
+  "..111US83CA4US20..125ES23..11FR2..4IT6..8ME2AL2XK2MK2BG11..27GE8RU5..9KZ2TM2KZ3UZ4TM4UZ12KZ10KG18KZ1CN43MN9CN45KP3..19JP1..4JP2..73",
+  "..112US82CA1US24..123PT5ES19..11FR2..6IT7..7AL2MK5BG7TR3..9TR6..12GE9AZ2RU3..8TM1..2TM2KZ2UZ2TM6UZ13KZ7UZ1KG17CN51MN1CN46KP4..20JP1..79",
+  "..112US102..129PT4ES17..23IT6..6AL2MK4GR5BG1GR2TR5..5TR11..8TR4GE4AZ1GE2AZ2RU1AZ2..11TM12UZ12KZ5UZ4KG1UZ1KG13CN96KP6..23JP1..77",
+  "..112US102..129PT3ES16..14IT3..10IT6..4AL3GR6..1GR1..2TR3..5TR27AM4AZ8..7TM1..2TM15UZ12KZ1UZ3TJ1UZ5KG7CN89..2CN7KP8..21JP3..77",
+  "..111US101..130PT4ES15..16IT2..11IT4..2IT1..2AL2GR4..1GR3..4TR34AM5AZ7..6TM20UZ13TJ3UZ1KG1UZ1KG5CN92..3CN5KP8..23JP4..76",
+  "..112US100..130PT4ES14..5ES2..10IT2..13IT1..6GR1AL1GR5..6TR37AM3AZ7..8TM19UZ11TJ1KG10CN91..4CN4..2KP6..25JP4..76",
+  "..112US95..1US1..1US1..130PT5ES13..18IT2..13IT2..7GR6..5GR1TR35IR2AZ2AM1AZ1IR2AZ3..8TM20UZ8TJ9KG1TJ2CN91..5CN1..7KP4..25JP4..76",
+  "..113US94..1US2..95PT1..35PT5ES14..32IT1..9GR4..8TR35IR7AZ2..10TM21UZ7TJ11CN88..16KP5..23JP4..77",
+  "..114US92..2US2..132PT4ES13..32IT2..10GR1..2GR3..4TR36IR9..10TM5IR1TM17UZ6TJ4AF2TJ7CN86..14KP4KR3..22JP3..78",
+  "..116US91..1US1..100PT1..32PT3ES13..27IT5..11GR1..1GR3..7GR1TR35IR9..10TM2IR6TM17UZ3TJ5AF2TJ7CN88..3CN1..11KR5..20JP4..78",
+  "..115US92..135PT3ES11..23TN1..7IT3..13GR3..9TR29SY1IQ2TR3IR11..7IR11TM12AF3UZ2TJ1AF1TJ1AF4TJ3AF1TJ1AF1CN89..2CN5..9KR5..18JP5..78",
+  "..116US92..139ES5..2ES1..11DZ4..1DZ6TN5..7IT1..25TR6..2TR6..1TR1..1TR1SY1TR1SY2TR2SY5IQ6IR12..4IR14TM9AF14TJ1AF1PK6CN92..9KR7..14JP8..79",
+  "..116US92..140ES1..12DZ16TN4..7IT1..30TR1..5TR3..4TR1SY10IQ8IR31TM7AF14PK9CN89..12KR6..7JP1..5JP9..79",
+  "..117US92..139MA1..10DZ18TN5..6IT1..39TR1..3SY11IQ10IR30TM3AF17PK10CN87..13KR6..13JP10..78",
+  "..118US89..141MA3..1MA1..4DZ20TN5..25GR4..1GR1..11CY5..3SY10IQ10IR30AF21PK11CN1IN1CN83..14KR6..6JP13..2JP1..79",
+  "..119US88..140MA9DZ20TN7..41CY4..4SY10IQ9IR31AF20PK11IN3CN82..15KR1..10JP5..1JP3..2JP2..83",
+  "..121US83..143MA10DZ18TN5..51LB2SY8IQ10IR30AF21PK6IN10CN83..17JP1..3JP3..2JP6..87",
+  "..124US78..143MA12DZ18TN7..48LB2SY7IQ12IR30AF19PK8IN10CN83..18JP1..1JP1..3JP4..2JP1..88",
+  "..125US76..142MA14DZ18TN7..48LB1IL1SY5JO1IQ14IR29AF19PK8IN10CN83..11KR1..6JP5..1JP1..94",
+  "..125US75..126PT1..15MA15DZ20TN6LY5..14LY3..25IL2SY3JO3IQ15IR28AF18PK10IN9CN84..15JP1..2JP4..96",
+  "..126MX6US67..142MA16DZ21TN4LY9..9LY6..23PS2JO8IQ16IR27AF17PK12IN6CN86..18JP2..97",
+  "..127MX8US9MX3US51..143MA12DZ25TN3LY10..9LY10..19IL1PS1JO5SA6IQ14IR26AF14PK1AF1PK11IN8CN87..15JP4..97",
+  "..127MX3..4MX14US49..143MA12DZ27TN1LY13..7LY10EG5..5EG5..3PS1IL2JO3SA9IQ12IR29AF11PK14IN9CN85..117",
+  "..128MX3..3MX16US47..143MA12DZ27TN1LY16..4LY10EG19IL2JO4SA10IQ11IR27AF10PK15IN12CN83..117",
+  "..128MX3..3MX17US28..1US1..2US1..4US9..144MA9DZ29LY30EG20IL1JO5SA11IQ11IR25AF11PK15IN14CN1NP1CN77..1CN1..117",
+  "..129MX3..3MX16US4MX2US13..1US1..2US7..8US1..3US5..142MA7DZ32LY31EG20JO3SA15IQ6KW3..4IR21AF10PK15IN14NP5CN78..116",
+  "..130MX4..2MX16US2MX4US12..8US2..1US1..12US4..141MA5DZ36LY30EG15..1EG3..1SA1JO1SA17IQ4KW3..5IR22PK23IN14NP7CN24IN1CN52..116",
+  "..131MX3..2MX23US10..26US4..125ES1..13MA5DZ37LY30EG19..1SA25KW2..5IR21PK22IN15NP9CN19IN5CN50..117",
+  "..129MX1..2MX2..3MX23US6..29US4..127ES1..10MA6DZ37LY30EG16..1EG2SA28..6IR23PK18IN18NP9CN9BT1CN5IN9MM1CN46..16JP1..101",
+  "..130MX1..1MX3..4MX21US5..29US5..135MA9DZ37LY30EG17..4SA27..6IR22PK14IN1PK1IN23NP11IN2BT5IN11MM2CN45..119",
+  "..131MX5..3MX22US4..30US5..133MA9EH1DZ37LY30EG18..4SA27..7IR20PK13IN30NP7IN2BT6IN8MM5CN44..119",
+  "..134MX3..3MX22US3..31US4..3US1..1BS1..127MA4EH6MR1DZ36LY30EG18..4SA28..7IR3..1IR1..2IR12PK13IN31NP6IN3BT1IN11MM6CN42..17JP1..103",
+  "..135MX2..4MX22US2..31US4..5BS1..125MA6EH6MR3DZ33LY31EG18..5SA27..1QA2..11IR10PK16IN37BD1IN12MM7CN42..16JP1..104",
+  "..136MX1..4MX25..31US3..131MA5MR12DZ31LY31EG19..5SA26..1QA3..8OM1..2IR8PK17IN37BD3IN10MM7CN42..121",
+  "..136MX2..5MX22..33US1..4BS1..3BS1..122MA5EH1MR14DZ30LY30EG20..4SA28QA2..7AE1OM1..9IR1PK2..1PK1..6PK9IN36BD2IN9MM7CN43..4TW1..116",
+  "..136MX3..5MX21..38BS2..2BS2..121MA5EH1MR11ML4DZ29LY30EG20..4SA28QA1..6AE3OM1..21PK8IN34BD8IN5MM6CN42..4TW3..116",
+  "..137MX3..5MX20..39BS1..4BS1..119MA5EH2MR11ML6DZ30LY27EG21..4SA28AE1..5AE3OM2..21PK2IN2PK1IN1PK1IN35BD7IN5MM6CN41..5TW3..116",
+  "..139MX2..5MX19..39BS1..123MA4EH4MR11ML7DZ30LY26EG21..6SA27AE7OM5..20IN41BD5IN5MM11CN37..5TW3..117",
+  "..140MX1..6MX17..45BS1..118MA4EH3MR12ML9DZ27NE3LY5TD2LY17EG21..6SA28AE6OM7..19IN40BD6IN1BD1IN2MM11CN12VN1CN22..7TW3..117",
+  "..148MX16..28CU9..10BS1..115MA5EH2MR13ML10DZ24NE7LY1NE1TD5LY15EG22..6SA30AE2OM9..22IN37BD3..1BD3IN1MM13CN9VN6CN16..10TW3..117",
+  "..149MX15..27CU2..3CU7..8BS1..2BS1..112MA4EH3MR13ML12DZ21NE10TD7LY13EG23..5SA33OM9..18IN6..2IN32BD4..2BD1IN1MM12CN5LA1VN9CN16..12TW1..118",
+  "..149MX16..29CU1..5CU5..10HT2..109MA5EH3MR14ML12DZ18NE12TD9LY11SD24..4SA33OM8..20IN5..1IN33BD1..5BD1MM15CN3LA2VN9CN10..136",
+  "..150MX15..15MX6..17CU4..6CU1..112MR22ML14DZ14NE15TD10LY9SD24..4SA33OM7..22IN4..1IN29..10MM17LA1CN2LA2VN9..5CN1..139",
+  "..47US1..101MX17..13MX7..18CU4..119MR21ML14DZ13NE16TD12LY7SD24..5SA31OM7..24IN1..4IN28..11MM16LA8VN5..6CN1..139",
+  "..149MX17..13MX6..20CU7..116MR20ML16DZ9NE19TD13LY5SD24..6SA30OM6..1OM1..28IN27..13MM13TH2LA8VN4..147",
+  "..48US2..99MX18..12MX6..14KY2..12HT4DO3..107MR21ML18DZ6NE19TD16LY1SD27..7SA26OM7..30IN25..17MM10TH4LA8VN3..7CN3..138",
+  "..48US1..101MX18..10MX7..12KY1..16HT3DO5..105MR21ML18DZ4NE21TD17SD27..7SA23OM11..30IN24..17MM9TH6LA6VN4..5CN4..139",
+  "..152MX16..9MX8..26HT1..2HT3DO6..8VI1..96MR20ML20NE23TD17SD27..7SA18YE4OM10..32IN23..19MM7TH7LA8VN1..6CN4..139",
+  "..154MX17..1MX11BZ1..19JM5..3HT6DO3..2DO1..1DO1PR5VI1..2VI1..94MR20ML20NE23TD17SD29..6SA14YE8OM8..33IN22..21MM6TH7LA4TH2LA3VN1..29PH4..115",
+  "..157MX21GT4BZ2..20JM4..9DO1..9PR1..2VI1..2VI1FR1..1FR1..91MR20ML20NE23TD17SD29..7SA12YE9OM6..35IN21..22MM6TH7LA1TH6LA2VN2..28PH3..116",
+  "..158MX19GT5BZ2..50FR1..1FR1..72CV1..18MR21ML19NE23TD17SD27ER3..7SA1YE6SA3YE11OM4..36IN19..24MM7TH14LA2VN2..27PH4..115",
+  "..161MX17GT4BZ2..51FR1..73CV3..2CV1..12MR22ML19NE23TD17SD26ER4..7SA1YE20OM1..40IN18..24MM3..1MM1..1MM2TH12LA4VN2..26PH4..115",
+  "..163MX7..1MX8GT3BZ1..53FR2..76CV1..12SN5MR17ML19NE22TD18SD26ER4..8YE19..42IN15..26MM4..3MM3TH12LA4VN2..25PH3..116",
+  "..166MX2..5MX3GT7..1HN8..45FR1..89SN6MR16ML19NE21TD19SD25ER6..6YE19..43IN14..34MM2TH14LA3VN3..23PH3..117",
+  "..174MX2GT6HN10..45FR1..74CV2..12SN8MR2ML27NE25TD18SD27ER6..6YE18..45IN12..36TH15LA4VN3..22PH3..117",
+  "..175MX1GT6HN10NI1..118CV1..13SN11ML22BF2NE27TD18SD28ER9..4YE13..49IN12..36MM1TH14LA4VN3..24PH1..117",
+  "..176GT5SV1HN7NI5..132SN10ML20BF5NE26TD18SD28ET8ER2..3YE12..51IN11..36MM1TH9KH4LA2KH3VN3..23PH2..2PH1..114",
+  "..180SV5HN1NI7..44VC2..88SN2GM1SN6ML18BF7NE9NG2NE15TD17SD29ET9ER2..1YE1..1YE8..54IN11..36MM2TH7KH10VN3..22PH1..1PH1..1PH1..1PH3..111",
+  "..182SV3HN1NI7..44VC1..2VC1..85GM2SN3GM1SN5ML15BF10NE6NG5NE2NG1NE4NG4NE1NG3TD16SD28ET11ER2..1YE5..58IN12..36MM1TH2..2TH3KH10VN4..22PH2..4PH1..112",
+  "..185NI8..44VC1..88SN11ML14BF12NE5NG20CM1TD15SD28ET12ER2..1YE2..61IN10..25IN1..11MM1TH2..2TH3KH10VN4..23PH1..117",
+  "..186NI7..23CO2..3VE3..12VC1..90GW5GN5ML4GN1ML9BF13NE1BJ1NE1NG22CM1TD15SD26ET13DJ3..63IN10..37MM2TH1..5KH9VN4..24PH1..3PH2..1PH2..109",
+  "..187NI6..22CO2..111GW5GN9ML7BF16BJ2NG22CM1TD15SD20SS1SD4ET14DJ2..15SO1..49IN9..25IN1..11MM2TH1..6KH7VN5..26PH1..5PH1..109",
+  "..188NI4..20CO4..3VE4..15TT1..89GW2GN13ML6BF13BJ5NG21CM2TD16SD19SS1SD4ET14DJ2SO1..10SO5..50IN8..37MM2..7KH6VN6..26PH2..1PH1..1PH2..109",
+  "..188NI1CR4..16CO6VE8..13TT3..92GN12ML6BF5GH6TG2BJ6NG19CM3TD14CF2SD18SS2SD3ET16SO3..3SO11..50IN8..36MM2TH1..7KH4VN6..28PH1..1PH1..113",
+  "..188CR6..15CO5VE2..1VE11..3VE4..1TT2..93GN13CI1ML1CI4BF4GH7TG1BJ5NG20CM4TD12CF4SD3SS2SD11SS5SD1ET17SO16..50IN7..38TH1..11VN4..25PH1..7PH2..112",
+  "..189CR6..14CO5VE2..2VE19..96GN2SL3GN6CI10GH7TG2BJ4NG19CM2TD14CF5SD3SS3SD6SS2SD1SS6ET18SO16..51IN5..2LK1..36TH1..12VN3..24PH1..7PH1..2PH1..111",
+  "..192CR2PA1..5PA4..4CO5VE3..2VE20..95GN1SL5GN5CI11GH6TG2BJ3NG20CM3TD12CF6SD2SS19ET19SO14..52IN6..1LK2..35TH3..10VN2..24PH1..9PH1..4PH1..108",
+  "..192CR2PA7..2PA2..2CO8VE23..96SL5GN5CI11GH6TG2BJ2NG20CM5TD8CF9SD1SS20ET21SO12..52IN3..4LK2..34TH4..35PH1..14PH3..107",
+  "..196PA3..4PA2CO10VE25GY1..93SL5LR2GN2CI12GH6TG2BJ2NG19CM7TD7CF11SS17ET26SO8..54IN2..4LK3..34TH4..45PH7..107",
+  "..197PA3..3PA2CO10VE24GY3..93SL4LR2GN3CI10GH7TG2BJ2NG19CM7TD3CF16SS17ET28SO5..60LK3..35TH2..44PH1..1PH1..1PH5..107",
+  "..198PA1..5CO12VE23GY4..93SL2LR5CI11GH7TG2BJ3NG18CM6CF21SS17ET26SO5..61LK4..35TH2..33MY1..9PH1..3PH3..1PH1..107",
+  "..205CO15VE18GY6..93LR6CI11GH7TG2BJ3NG14CM2NG1CM7CF22SS17ET24SO5..62LK4..36TH3..30MY2..13PH3..109",
+  "..205CO16VE3CO1VE13GY7..94LR5CI10GH8TG1BJ1..5NG10CM10CF24SS17ET22SO6..62LK3..37MY2TH2..28MY3..13PH3..109",
+  "..205CO20VE13GY8SR6..88LR5CI9GH6..10NG8CM11CF25SS16ET21SO7..103MY4..27MY5..13PH1..109",
+  "..205CO19VE14GY1BR1GY5SR6FR4..86LR4CI8..1GH4..13NG7CM11CF22CD1CF3SS15KE2ET18SO7..93ID4..7MY5..25MY8..121",
+  "..205CO19VE14BR2GY4SR7FR5..87LR2CI2..24NG6CM12CF9CD3CF6CD8SS14KE3ET15SO9..95ID5..5MY6..21BN2MY7..123",
+  "..205CO19VE6BR1VE6BR4GY3SR7FR6..121CM12CF7CD7CF1CD15SS8KE6ET7KE1ET3SO11..96ID5..4MY6..21MY1BN1MY2ID3MY1..124",
+  "..41KI1..164CO19VE6BR10GY3SR8FR4BR2..119GQ1..1CM11CF7CD24SS1UG2SS1UG3KE8ET4KE3SO12..98ID5..4MY5..9ID1..10MY4ID4..125",
+  "..205CO20VE7BR8GY5SR7FR3BR3..119GQ1..2CM11CF2CG4CD25UG7KE14SO11..100ID5..4MY4..19MY5ID4..125",
+  "..204CO21VE7BR8GY6SR6FR3BR3..122CM12CF1CG4CD25UG8KE12SO11..98ID1..3ID5..3MY4..16MY7ID6..124",
+  "..203CO23VE7BR7GY6SR2BR3FR1BR1FR1BR5..120CM4GA3CM6CG4CD26UG8KE12SO9..105ID5..3MY4..14MY8ID6..20ID1..103",
+  "..45KI1..156CO22BR2VE6BR9GY4BR15..114GQ1..4GQ4GA3CG10CD26UG8KE12SO8..107ID6..3MY2..11MY1..2MY7ID7..19ID1..104",
+  "..202EC1CO17BR6VE4BR12GY1BR17..119GQ4GA3CG1GA2CG7CD25UG9KE12SO6..106ID1..3ID7..2MY1..10ID2MY4ID13..5ID1..6ID1..5ID2..103",
+  "..200EC5CO17BR37..120GA10CG7CD24UG9KE13SO5..108ID1..2ID7..13ID18..4ID9..6ID2..103",
+  "..200EC6CO1EC1CO12BR39..1BR1..118GA9CG8CD24UG8KE14SO4..113ID6..1ID1..11ID17..20ID1..104",
+  "..177EC2..20EC10PE1CO10BR37..2BR4..116GA9CG7CD24UG9KE14SO3..115ID7..11ID17..4ID1..15ID1..6ID1..97",
+  "..177EC1..21EC10PE2CO10BR42..1BR2..112GA11CG6CD24UG9KE14SO2..116ID7..12ID16..4ID1..6ID1..7ID3..6ID5..3ID1..88",
+  "..198EC11PE4CO8BR41..1BR5..110GA11CG5CD25UG1RW1TZ8KE14SO1..113ID1..3ID8..11ID14..5ID2..1ID3..17ID6..92",
+  "..198EC10PE5CO8BR40..1BR9..108GA10CG4CD25RW4TZ9KE12..118ID8..2ID1..8ID13..6ID5..5ID1..10ID1..3ID4..4ID2..1ID2..83",
+  "..198EC10PE6CO2PE1CO4BR50..108GA6CG1GA1CG5CD26RW4TZ10KE10..117ID1..2ID8..10ID13..5ID6..21ID1..7ID6..81",
+  "..200EC6PE14CO1BR54..105GA3CG9CD26BI1RW1BI1TZ13KE6..123ID10..2ID1..4ID13..5ID3..1ID2..20ID1..1ID3..3ID10PG1..77",
+  "..200EC4PE15CO1BR61..100GA3CG8CD26BI4TZ13KE5..123ID9..12ID2..1ID5..6ID3..1ID3..7ID2..3ID4..4ID5..1ID11PG3..18PG1..56",
+  "..198PE2EC3PE16CO1BR63..99CG10CD26BI3TZ15KE4..124ID8..17ID2..1ID1..6ID2..1ID3..8ID1..7ID1..4ID1..1ID14PG6..72",
+  "..198PE1EC4PE15BR1PE1BR64..99CG8CD28BI1TZ17KE2..126ID7..27ID2..2ID3..24ID12PG8..13PG1..1PG1..54",
+  "..197PE4EC1PE13BR70..99CG1AO1CD3CG1CD29TZ19..129ID5..27ID2..2ID1..29ID9PG9..12PG2..55",
+  "..198PE16BR75..95AO1CD34TZ19..1TZ1..128ID4..27ID2..4ID1..29ID7PG10..10PG2..56",
+  "..198PE16BR76..94CD35TZ19..133ID1..53ID1..2ID1..7ID6PG11..4PG6..6PG1..50",
+  "..198PE16BR76..95AO8CD26TZ20..133ID4..52ID1..8ID5PG13..4PG2..9PG1..49",
+  "..200PE13BR77..95AO9CD26TZ19..132ID6..4ID2..45ID1..9ID4PG12..17PG1..1SB1..46",
+  "..201PE12BR77..96AO8CD5AO2CD20TZ18..134ID12..53ID4PG12..20SB1..45",
+  "..201PE11BR78..96AO9CD4AO5CD17TZ18..137ID1..2ID10..23ID1..9ID1..13ID6PG6..2PG5..18SB1..3SB1..42",
+  "..202PE11BR77..97AO17CD17ZM1TZ17..143ID9..15ID4..25ID3..2ID2PG5..5PG4..18SB2..2SB2..1SB1..38",
+  "..202PE12BR76..97AO17CD14ZM5TZ16..151ID1..1ID1..1ID3..3ID4..6TL4..27ID1PG5..6PG4..17SB1..1SB1..4SB1..38",
+  "..203PE11BR75..97AO18CD13ZM8TZ14..169TL1ID1TL2..33PG1..8PG4..2PG1..18SB2..1SB1..37",
+  "..203PE12BR3PE1BR69..98AO18CD13ZM9MW3TZ10..160ID2..6ID3..45PG5..19SB3..38",
+  "..204PE15BR7BO3BR59..99AO18CD12ZM10MW2TZ11..167ID1..50PG4..20SB1..37",
+  "..204PE15BR5BO5BR57..101AO18CD12ZM10MW2TZ11MZ1..165ID1..76SB2..35",
+  "..205PE16BO8BR57..102AO20ZM1CD1ZM1CD6ZM10MW2TZ9MZ3..5KM1..175AU1..1AU1..19AU2..74",
+  "..206PE16BO8BR55..103AO20ZM3CD6ZM10MW2MZ12..5KM1..173AU2..3AU2..17AU2..34SB1..39",
+  "..206PE16BO9BR53..103AO21ZM7CD3ZM1CD1ZM7MW2MZ12..6KM2..9MG1..163AU1..1AU8..1AU1..9AU3..74",
+  "..207PE15BO12BR50..102AO22ZM9CD3ZM6MW3MZ12..17MG1..162AU12..11AU3..73",
+  "..207PE15BO14BR46..103AO19ZM14CD2ZM6MW3MZ12..17MG2..160AU12..11AU4..73",
+  "..14WS3..191PE14BO17BR43..103AO19ZM22MW4MZ11..15MG4..160AU13..10AU4..47VU1..25",
+  "..3FJ1..14WS1..189PE14BO17BR43..103AO19ZM21MZ2MW4MZ10..15MG4..152AU3..4AU13..1AU1..9AU4..47VU2..24",
+  "..208PE13BO18BR43..102AO20ZM18MZ7MW3MZ10..13MG5..150AU6..3AU12..12AU7..43VU1..26",
+  "..210PE12BO17BR43..102AO20ZM17MZ8MW3MZ9..13MG7..149AU6..1AU15..11AU8..42VU4..23",
+  "..211PE10BO19BR42..102AO20ZM15ZW2MZ8MW3MZ9..12MG6..1MG1..148AU24..10AU8..42VU2..1VU1..23",
+  "..213PE9BO18BR42..102AO20ZM14ZW5MZ6MW2MZ9..9MG11..147AU1..1AU26..8AU8..43VU3..22FJ1",
+  "FJ1..56PF1..157PE7BO21BR39..102AO21ZM11ZW10MZ4MW1MZ8..10MG10..146AU1..1AU30..5AU9..45VU1..20FJ3",
+  "..217PE4BO22BR39..101NA4AO19ZM9ZW11MZ10..12MG11..145AU34..4AU10..64FJ1..3",
+  "..60PF2..156PE2CL1BO24BR37..101NA15AO8NA4ZM4ZW12MZ8..14MG11..145AU48..44VU2..17FJ3..2",
+  "..2FJ1..216PE1CL2BO23BR36..103NA19BW4NA1BW3ZW15MZ8..14MG11..145AU49..62FJ2..3",
+  "..219CL3BO23BR36..104NA17BW10ZW14MZ7..15MG10..145AU50..45VU1..21",
+  "..219CL4BO21BR37..104NA17BW10ZW14MZ5..18MG9..145AU51..44NC1..21",
+  "..220CL3BO13PY7BO1BR36..106NA16BW11ZW13MZ3..20MG9..143AU54..43NC1..21",
+  "..220CL3BO13PY8BR35..107NA16BW13ZW11MZ3..20MG8..17MU2..122AU59..31NC1..31",
+  "..220CL3BO12PY9BR35..108NA15BW13ZW10MZ5..18MG9..136AU65..31NC2..3NC1..25",
+  "..220CL4BO11PY9BR34..109NA15BW14ZW9MZ5..17MG10..14FR1..120AU66..32NC2..28",
+  "..220CL4BO11PY9BR34..110NA14BW16ZW6MZ7..16MG9..134AU69..32NC2..27",
+  "..220CL4BO3AR4BO1AR3PY11BR31..112NA11BW18ZA2ZW3MZ8..16MG9..133AU70..34NC1..26",
+  "..219CL5BO2AR10PY13BR27..113NA11BW16ZA7MZ8..16MG9..131AU75..58",
+  "..219CL7AR11PY12BR22..118NA11BW15ZA8MZ8..16MG8..133AU74..58",
+  "..219CL6AR13PY11BR20..120NA11BW14ZA9MZ8..16MG8..132AU76..57",
+  "..219CL5AR17PY10BR15..123NA11BW14ZA10MZ7..16MG8..132AU77..56",
+  "..219CL4AR19PY9BR14..124NA11BW12ZA12MZ6..18MG6..133AU78..1AU1..53",
+  "..219CL4AR22PY6BR13..126NA10ZA1BW10ZA13MZ3..22MG3..136AU77..1AU1..53",
+  "..219CL4AR21PY7AR1BR11..127NA10ZA1BW5ZA3BW2ZA13MZ2..162AU78..54",
+  "..219CL4AR21PY7AR2BR10..127NA10ZA2BW3ZA17SZ2MZ2..160AU1..1AU78..54",
+  "..218CL5AR20PY7AR2BR11..127NA10ZA1BW3ZA18SZ2MZ2..161AU79..54",
+  "..218CL4AR21PY6AR3BR11..128NA9ZA23SZ1ZA2..162AU78..54",
+  "..218CL4AR28BR13..128NA9ZA25..163AU79..53",
+  "..218CL3AR28BR14..129NA2ZA1NA5ZA25..164AU78..53",
+  "..217CL4AR27BR14..131ZA2NA4ZA17LS2ZA6..165AU78..53",
+  "..217CL3AR27BR14..133ZA21LS4ZA4..167AU77..53",
+  "..217CL3AR26BR14..134ZA20LS4ZA4..168AU77..53",
+  "..217CL3AR25BR1UY1BR10..1BR2..135ZA20LS2ZA5..168AU76..54",
+  "..217CL2AR25UY4BR9..138ZA26..169AU76..54",
+  "..217CL2AR25UY6BR7..139ZA24..171AU75..54",
+  "..217CL2AR25UY7BR5..140ZA23..172AU27..6AU42..54",
+  "..217CL2AR25UY9BR3..141ZA21..173AU24..12AU38..55",
+  "..217CL3AR24UY10BR1..141ZA20..175AU19..18AU36..56",
+  "..217CL3AR23UY10BR2..141ZA19..176AU17..21AU6..1AU27..57",
+  "..216CL4AR23UY10..144ZA15..178AU17..23AU4..1AU28..57",
+  "..216CL4AR23..1UY9..145ZA6..186AU9..32AU2..2AU27..58",
+  "..216CL3AR25..3UY4..148ZA1..192AU5..34AU1..3AU1..1AU25..58",
+  "..215CL4AR26..392AU24..45NZ2..12",
+  "..215CL4AR26..388AU2..3AU22..47NZ2..11",
+  "..214CL5AR27..393AU21..49NZ1..10",
+  "..214CL4AR29..393AU20..49NZ1..1NZ1..8",
+  "..213CL5AR28..394AU20..49NZ3..8",
+  "..213CL5AR27..396AU18..51NZ3..2NZ2..3",
+  "..213CL5AR26..399AU6..1AU5..54NZ8..3",
+  "..213CL5AR23..468NZ7..4",
+  "..214CL3AR18..473NZ6..6",
+  "..213CL4AR19..473NZ5..6",
+  "..213CL3AR19..475NZ3..7",
+  "..212CL4AR19..414AU1..60NZ3..7",
+  "..212CL4AR14..419AU8..47NZ2..1NZ5..8",
+  "..213CL1..1CL1AR14..420AU7..46NZ6..11",
+  "..212CL1..1CL2AR17..418AU5..47NZ5..12",
+  "..212CL1..1CL2AR14..2AR1..418AU5..46NZ5..13",
+  "..211CL2..1CL2AR14..422AU2..46NZ5..15",
+  "..7NZ1..206CL2AR13..469NZ8..14",
+  "..214CL2AR13..467NZ7..17",
+  "..211CL1..1CL4AR12..466NZ7..18",
+  "..212CL5AR9..468NZ8..18",
+  "..213CL3AR9..469NZ7..19",
+  "..210CL2..1CL3AR9..470NZ5..20",
+  "..210CL6AR10..494",
+  "..211CL5AR12..492",
+  "..211CL1..1CL2AR13..492",
+  "..210CL5AR12..493",
+  "..210CL5AR11..271TF2..221",
+  "..210CL4AR11..272TF4..219",
+  "..209CL4AR11..273TF4..219",
+  "..209CL1..1CL2AR10..497",
+  "..210CL5AR7..498",
+  "..210CL1..1CL3AR7..17FK1..2FK1..477",
+  "..212CL4AR6..17FK6..475",
+  "..210CL1..1CL9..1CL1..15FK1..1FK2..478",
+  "..213CL1..1CL3..1CL4..497",
+  "..214CL2..1CL1..1CL4..497",
+  "..213CL2..1CL2..2CL3AR2..495",
+  "..217CL1..3CL2AR3..58GS4..432",
+  "..219CL1..1CL2AR7..1AR1..55GS2..431",
+  "..222CL1..1CL2..494",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..245AQ1..1AQ3..470",
+  "..238AQ1..2AQ3..476",
+  "..235AQ1..2AQ4..2AQ1..475",
+  "..232AQ2..1AQ4..481",
+  "..232AQ4..484",
+  "..231AQ5..484",
+  "..226AQ1..2AQ6..1AQ1..225AQ10..90AQ9..10AQ7..33AQ7..2AQ2..88",
+  "..224AQ1..2AQ5..225AQ1..3AQ12..68AQ36..3AQ11..15AQ8..5AQ23..44AQ1..33",
+  "..222AQ2..1AQ5..228AQ20..50AQ60..3AQ7..3AQ48..71",
+  "..226AQ3..221AQ42..31AQ125..1AQ4..67",
+  "..226AQ4..215AQ55..18AQ136..66",
+  "..226AQ5..1AQ1..5AQ1..187AQ2..13AQ58..17AQ146..1AQ2..2AQ3..50",
+  "..216AQ4..6AQ8..1AQ1..189AQ5..9AQ60..15AQ163..43",
+  "..209AQ1..6AQ5..2AQ12..157AQ1..33AQ8..1AQ1..3AQ59..14AQ168..40",
+  "..220AQ2..2AQ11..127AQ1..5AQ1..9AQ1..7AQ1..5AQ1..4AQ1..14AQ2..8AQ73..10AQ177..38",
+  "..210AQ3..5AQ5..2AQ11..112AQ1..4AQ2..14AQ14..1AQ14..4AQ3..2AQ2..7AQ82..6AQ179..1AQ10..26",
+  "..215AQ8..2AQ13..101AQ3..3AQ3..13AQ136..6AQ194..23",
+  "..209AQ6..1AQ8..2AQ12..99AQ158..7AQ200..18",
+  "..159AQ7..1AQ2..48AQ1..1AQ4..3AQ13..98AQ158..2AQ1..2AQ200..20",
+  "..154AQ1..22AQ1..4AQ1..42AQ14..92AQ1..2AQ160..2AQ204..20",
+  "..154AQ12..3AQ2..1AQ5..2AQ6..3AQ1..10AQ3..6AQ3..1AQ1..7AQ16..2AQ2..88AQ166..1AQ199..26",
+  "..107AQ1..5AQ5..36AQ4..1AQ36..2AQ9..2AQ30..80AQ1..9AQ364..28",
+  "..114AQ4..12AQ3..3AQ2..19AQ79..82AQ1..11AQ360..30",
+  "..88AQ3..13AQ8..5AQ15..5AQ2..21AQ74..1AQ1..88AQ361..2AQ1..32",
+  "..80AQ63..5AQ9..6AQ69..91AQ360..37",
+  "..71AQ159..82AQ373..35",
+  "..62AQ5..1AQ155..81AQ381..35",
+  "..58AQ2..1AQ2..6AQ137..10AQ1..82AQ387..34",
+  "..44AQ8..5AQ1..4AQ2..5AQ138..87AQ393..6AQ1..26",
+  "..43AQ17..1AQ153..77AQ397..5AQ1..26",
+  "..51AQ142..1AQ9..58AQ11..16AQ401..1AQ1..1AQ2..26",
+  "..33AQ2..13AQ145..5AQ5..18AQ4..34AQ10..19AQ395..1AQ3..33",
+  "..31AQ8..17AQ141..20AQ4..3AQ2..33AQ15..13AQ5..8AQ381..39",
+  "..37AQ5..21AQ145..18AQ2..30AQ16..22AQ1..1AQ1..10AQ371..40",
+  "..59AQ149..19AQ1..9AQ4..12AQ18..29AQ378..42",
+  "..62AQ147..7AQ3..15AQ6..11AQ10..28AQ392..39",
+  "..46AQ180..51AQ404..39",
+  "..52AQ177..46AQ410..35",
+  "..53AQ175..9AQ2..13AQ16..5AQ413..34",
+  "..51AQ184..11AQ447..27",
+  "..18AQ11..17AQ191..5AQ453..25",
+  "..24AQ683..13",
+  "..32AQ687..1",
+  "AQ3..11AQ10..18AQ678",
+  "AQ3..11AQ706",
+  "AQ3..17AQ700",
+  "AQ3..17AQ700",
+  "..20AQ26..674",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+  "..720",
+];
@@ -1,4 +1,4 @@
-import { CHAIN_COORDS } from "./chains";
+import { CHAINS, shortAddress } from "./chains";
 import type { EntityLabel } from "./types";
 
 // ── CEX HQ coordinates ──
@@ -119,7 +119,7 @@ const CATEGORY_RADIUS: Record<string, number> = {
  *
  * Resolution order:
  * 1. CEX with known HQ → use CEX_COORDS
- * 2. Has chain in CHAIN_COORDS → chain coords + deterministic offset
+ * 2. Has chain in CHAINS → chain coords + deterministic offset
  * 3. Fallback → hash-based position
  */
 export function resolveCounterpartyPosition(
@@ -140,7 +140,7 @@ export function resolveCounterpartyPosition(
   }
 
   // 2. Chain coords + deterministic offset
-  const chainInfo = CHAIN_COORDS[chain.toLowerCase()];
+  const chainInfo = CHAINS[chain.toLowerCase()];
   if (chainInfo) {
     const hash = simpleHash(address);
     const angle = (hash % 360) * (Math.PI / 180);
@@ -150,7 +150,7 @@ export function resolveCounterpartyPosition(
     return {
       lat: chainInfo.lat + Math.cos(angle) * radius,
       lng: chainInfo.lng + Math.sin(angle) * radius,
-      label: entity?.name || `${address.slice(0, 6)}...${address.slice(-4)}`,
+      label: entity?.name || shortAddress(address),
     };
   }
 
@@ -161,6 +161,6 @@ export function resolveCounterpartyPosition(
   return {
     lat,
     lng,
-    label: entity?.name || `${address.slice(0, 6)}...${address.slice(-4)}`,
+    label: entity?.name || shortAddress(address),
   };
 }
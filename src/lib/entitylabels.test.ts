@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { normalizeAddress } from "./chains";
+import { fetchEntityLabel } from "./entitylabels";
+
+const allium = vi.hoisted(() => ({ sql: [] as string[], rows: [] as Record<string, string>[] }));
+
+// Ad-hoc SQL answers with whatever rows the test sets, recording the query
+vi.mock("./allium", () => ({
+  runAdHocSql: vi.fn(async (sql: string) => {
+    allium.sql.push(sql);
+    return { data: allium.rows };
+  }),
+}));
+
+const label = { category: "dex", project: "pancakeswap", name: "PancakeSwap" };
+
+describe("fetchEntityLabel", () => {
+  beforeEach(() => {
+    allium.sql.length = 0;
+    allium.rows = [];
+  });
+
+  it("finds a Move address stored in its short form", async () => {
+    const address = normalizeAddress("aptos", "0x1")!;
+    allium.rows = [{ chain: "aptos", address: "0x1", ...label }];
+
+    const lookup = await fetchEntityLabel(address, "aptos", "key");
+    expect(allium.sql[0]).toContain(`address IN ('${address}', '0x1')`);
+    expect(lookup.entity).toEqual({ chain: "aptos", address, ...label });
+  });
+
+  it("queries other chains by their normalized form only", async () => {
+    const address = "0x73581569969e58b081006f7e3dfc967a64cb1402";
+    await fetchEntityLabel(address, "ethereum", "key");
+    expect(allium.sql[0]).toContain(`address IN ('${address}')`);
+  });
+});
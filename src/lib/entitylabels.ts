@@ -0,0 +1,100 @@
+import { runAdHocSql } from "./allium";
+import { CHAINS, normalizeAddress } from "./chains";
+import { normalizeEntityRows, ROWS_VERSION } from "./rows";
+import type { EntityLabel, EntityLookup, EntityProfile } from "./types";
+
+// ── Entity labels ──
+//
+// Wallet lookups only label the counterparties of the searched wallet. These
+// read Allium's entity table directly, for any address or a whole project.
+// There's no saved query taking these parameters, so the SQL is built here;
+// everything spliced into it is validated first (addresses by
+// normalizeAddress(), chains against CHAINS by the routes, projects by
+// normalizeProject()).
+
+export const ENTITY_TTL_SEC = 24 * 60 * 60;
+
+const ENTITY_TABLE = "common.identity.entities";
+const ENTITY_QUERY_TITLE = "entity-lookup";
+const ENTITY_QUERY_WAIT_MS = 30000;
+
+// runAdHocSql() returns at most this many rows
+const PROJECT_ADDRESS_LIMIT = 1000;
+
+const PROJECT_PATTERN = /^[a-z0-9][a-z0-9_.-]{0,63}$/;
+
+/** Lower-cased project slug, or null when it isn't one ("binance", "crypto.com", "binance_us"). */
+export function normalizeProject(project: string): string | null {
+  const slug = project.trim().toLowerCase();
+  return PROJECT_PATTERN.test(slug) ? slug : null;
+}
+
+/** Canonical cache URL for one address's label. */
+export function entityCacheUrl(address: string, chain: string): string {
+  return `https://cache.internal/api/entity?address=${encodeURIComponent(address)}&chain=${chain}&rows=v${ROWS_VERSION}`;
+}
+
+/** Canonical cache URL for a project's known addresses. */
+export function entityProfileCacheUrl(project: string): string {
+  return `https://cache.internal/api/entity/${encodeURIComponent(project)}?rows=v${ROWS_VERSION}`;
+}
+
+/**
+ * Every form an address (in normalizeAddress() form) may be stored in.
+ * normalizeAddress() zero-pads Move and Cairo addresses to full width, but the
+ * table can hold them short ("0x1" for "0x000…001"), so both are looked up.
+ */
+function storedAddressForms(chain: string, address: string): string[] {
+  const vm = CHAINS[chain]?.vm;
+  if (vm !== "Move" && vm !== "Cairo") return [address];
+  const short = "0x" + (address.slice(2).replace(/^0+/, "") || "0");
+  return short === address ? [address] : [address, short];
+}
+
+/** Label for one address (expected in normalizeAddress() form). */
+export async function fetchEntityLabel(address: string, chain: string, apiKey: string): Promise<EntityLookup> {
+  console.log(`[entity] Looking up ${address} on ${chain}...`);
+  const forms = storedAddressForms(chain, address).map((form) => `'${form}'`);
+  const result = await runAdHocSql(
+    `SELECT chain, address, category, project, name FROM ${ENTITY_TABLE} ` +
+      `WHERE chain = '${chain}' AND address IN (${forms.join(", ")}) LIMIT 10`,
+    apiKey,
+    ENTITY_QUERY_WAIT_MS,
+    ENTITY_QUERY_TITLE
+  );
+
+  const { data: rows, rejected } = normalizeEntityRows(result);
+  const entity = rows.find((r) => r.chain === chain && normalizeAddress(chain, r.address) === address) ?? null;
+  return { address, chain, entity: entity && { ...entity, address }, rejected };
+}
+
+/** Every labeled address of a project (expected in normalizeProject() form), across chains. */
+export async function fetchEntityProfile(project: string, apiKey: string): Promise<EntityProfile> {
+  console.log(`[entity] Listing addresses for ${project}...`);
+  const result = await runAdHocSql(
+    `SELECT chain, address, category, project, name FROM ${ENTITY_TABLE} ` +
+      `WHERE LOWER(project) = '${project}' ORDER BY chain, address LIMIT ${PROJECT_ADDRESS_LIMIT}`,
+    apiKey,
+    ENTITY_QUERY_WAIT_MS,
+    ENTITY_QUERY_TITLE
+  );
+
+  const { data: rows, rejected } = normalizeEntityRows(result);
+  const addresses: EntityLabel[] = [];
+  const categoryCounts = new Map<string, number>();
+  for (const row of rows) {
+    if (row.project.toLowerCase() !== project) continue;
+    addresses.push({ ...row, address: normalizeAddress(row.chain, row.address) ?? row.address });
+    if (row.category) categoryCounts.set(row.category, (categoryCounts.get(row.category) ?? 0) + 1);
+  }
+  console.log(`[entity] ${project}: ${addresses.length} addresses`);
+
+  const category = Array.from(categoryCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+  return {
+    project,
+    category,
+    addresses,
+    truncated: rows.length >= PROJECT_ADDRESS_LIMIT,
+    rejected,
+  };
+}
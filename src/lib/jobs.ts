@@ -0,0 +1,141 @@
+import { runQuery, pollQueryStatus, getQueryResults } from "./allium";
+import { cfCacheMatch, cfCachePut } from "./cache";
+import { normalizeResult, type RowSchemaName } from "./rows";
+import type { QueryJobState, QueryJobStatus } from "./types";
+
+const JOB_TTL_SEC = 3600;
+
+interface QueryJobRecord {
+  id: string; // the Allium run ID doubles as the job ID
+  queryId: string;
+  schema: RowSchemaName; // how to normalize the run's rows
+  key: string;
+  cacheUrl: string;
+  ttlSec: number;
+  maxWaitMs: number;
+  startedAt: number;
+  status: QueryJobState;
+  error?: string;
+}
+
+// Job records live in the shared cache backend so any isolate can answer a
+// status poll; this map spares same-isolate polls the cache round trip.
+const jobs = new Map<string, QueryJobRecord>();
+const jobIdsByKey = new Map<string, string>();
+
+function jobUrl(id: string): string {
+  return `https://cache.internal/jobs/${encodeURIComponent(id)}`;
+}
+
+function jobKeyUrl(key: string): string {
+  return `https://cache.internal/jobs/by-key/${encodeURIComponent(key)}`;
+}
+
+async function saveJob(job: QueryJobRecord): Promise<void> {
+  jobs.set(job.id, job);
+  await cfCachePut(jobUrl(job.id), job, JOB_TTL_SEC);
+}
+
+async function loadJob(id: string): Promise<QueryJobRecord | null> {
+  return jobs.get(id) ?? ((await cfCacheMatch(jobUrl(id))) as QueryJobRecord | null);
+}
+
+function isInFlight(job: QueryJobRecord): boolean {
+  return job.status === "created" || job.status === "queued" || job.status === "running";
+}
+
+function toStatus(job: QueryJobRecord, result?: unknown): QueryJobStatus {
+  return {
+    jobId: job.id,
+    status: job.status,
+    elapsedMs: Date.now() - job.startedAt,
+    ...(result !== undefined ? { result } : {}),
+    ...(job.error ? { error: job.error } : {}),
+  };
+}
+
+/**
+ * Trigger an Allium query without waiting for it. Returns immediately with a
+ * job ID to poll via getQueryJob(). A job already running for the same cache
+ * key is reused, so concurrent visitors share one Allium run.
+ */
+export async function submitQueryJob(opts: {
+  queryId: string;
+  apiKey: string;
+  params: Record<string, string>;
+  schema: RowSchemaName;
+  key: string;
+  cacheUrl: string;
+  ttlSec: number;
+  maxWaitMs: number;
+}): Promise<QueryJobStatus> {
+  const { queryId, apiKey, params, schema, key, cacheUrl, ttlSec, maxWaitMs } = opts;
+
+  const existingId =
+    jobIdsByKey.get(key) ?? ((await cfCacheMatch(jobKeyUrl(key))) as { id: string } | null)?.id;
+  const existingJob = existingId ? await loadJob(existingId) : null;
+  if (existingJob && isInFlight(existingJob)) {
+    console.log(`[jobs] Reusing job ${existingJob.id} for ${key}`);
+    return toStatus(existingJob);
+  }
+
+  const runId = await runQuery(queryId, apiKey, params);
+  const job: QueryJobRecord = {
+    id: runId,
+    queryId,
+    schema,
+    key,
+    cacheUrl,
+    ttlSec,
+    maxWaitMs,
+    startedAt: Date.now(),
+    status: "queued",
+  };
+  await saveJob(job);
+  jobIdsByKey.set(key, runId);
+  await cfCachePut(jobKeyUrl(key), { id: runId }, Math.round(maxWaitMs / 1000));
+  console.log(`[jobs] Submitted ${queryId} as job ${runId}`);
+  return toStatus(job);
+}
+
+/**
+ * Check a job's Allium run status. On success the normalized result is stored
+ * under the job's cache URL (so the synchronous route hits it too) and returned.
+ * Returns null for unknown or expired job IDs.
+ */
+export async function getQueryJob(id: string, apiKey: string): Promise<QueryJobStatus | null> {
+  const job = await loadJob(id);
+  if (!job) return null;
+
+  if (job.status === "failed" || job.status === "canceled") return toStatus(job);
+
+  if (job.status === "success") {
+    const result =
+      (await cfCacheMatch(job.cacheUrl)) ?? normalizeResult(job.schema, await getQueryResults(job.id, apiKey));
+    return toStatus(job, result);
+  }
+
+  const status = (await pollQueryStatus(job.id, apiKey)) as QueryJobState;
+
+  if (status === "success") {
+    const result = normalizeResult(job.schema, await getQueryResults(job.id, apiKey));
+    await cfCachePut(job.cacheUrl, result, job.ttlSec);
+    await saveJob({ ...job, status });
+    return toStatus({ ...job, status }, result);
+  }
+
+  if (status === "failed" || status === "canceled") {
+    const failed = { ...job, status, error: `Query ${status}` };
+    await saveJob(failed);
+    return toStatus(failed);
+  }
+
+  if (Date.now() - job.startedAt > job.maxWaitMs) {
+    const timedOut: QueryJobRecord = { ...job, status: "failed", error: "Query timed out" };
+    await saveJob(timedOut);
+    return toStatus(timedOut);
+  }
+
+  if (status !== job.status) await saveJob({ ...job, status });
+  return toStatus({ ...job, status });
+}
@@ -0,0 +1,39 @@
+import type { ArcData } from "./types";
+
+/**
+ * Most arcs the static overview draws at once. Past this only the largest
+ * corridors by volume are drawn, though every corridor still shapes the
+ * bundles; the Sidebar says how many are shown.
+ */
+export const OVERVIEW_MAX_ARCS = 4096;
+
+/** Stable identity for a corridor across refetches of a rolling window. */
+export function arcKey(arc: ArcData): string {
+  return `${arc.fromCountry}→${arc.toCountry}:${arc.tokenSymbol}`;
+}
+
+/**
+ * Merge a refreshed arc list into the one currently streaming.
+ *
+ * Corridors present in both keep their queue position but take the fresh
+ * values; corridors that rolled out of the window are dropped; corridors new
+ * to the window are inserted right after `anchor` (the most recently spawned
+ * arc) so they show up next instead of waiting for the queue to wrap.
+ */
+export function mergeArcs(prev: ArcData[], next: ArcData[], anchor?: ArcData | null): ArcData[] {
+  const nextByKey = new Map(next.map((a) => [arcKey(a), a]));
+  const prevKeys = new Set(prev.map(arcKey));
+
+  const kept: ArcData[] = [];
+  for (const arc of prev) {
+    const fresh = nextByKey.get(arcKey(arc));
+    if (fresh) kept.push(fresh);
+  }
+  const added = next.filter((a) => !prevKeys.has(arcKey(a)));
+  if (added.length === 0) return kept;
+
+  const anchorKey = anchor ? arcKey(anchor) : null;
+  const anchorIdx = anchorKey ? kept.findIndex((a) => arcKey(a) === anchorKey) : -1;
+  if (anchorIdx < 0) return [...kept, ...added];
+  return [...kept.slice(0, anchorIdx + 1), ...added, ...kept.slice(anchorIdx + 1)];
+}
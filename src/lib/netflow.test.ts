@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { countryAt } from "./countrymap";
+import { computeNetFlows } from "./netflow";
+import type { ArcData } from "./types";
+
+function arc(fromCountry: string, toCountry: string, totalUsd: number): ArcData {
+  return {
+    startLat: 0,
+    startLng: 0,
+    endLat: 0,
+    endLng: 0,
+    color: "#000",
+    stroke: 1,
+    label: "",
+    totalUsd,
+    tokenSymbol: "USDC",
+    fromCountry,
+    toCountry,
+    transferCount: 1,
+    dashOffset: 0,
+  };
+}
+
+describe("computeNetFlows", () => {
+  // Allium's spellings, as they arrive on arcs
+  const nets = computeNetFlows([
+    arc("United States of America", "Russian Federation", 100),
+    arc("Brazil", "Canada", 40),
+    arc("Czech Republic", "Czechia", 999), // domestic once aliases merge
+  ]);
+
+  it("nets inflow against outflow and cancels domestic flows", () => {
+    expect(nets).toEqual({ "United States": -100, Russia: 100, Brazil: -40, Canada: 40 });
+  });
+
+  // The choropleth colors each dot with nets[countryAt(dot)]
+  it.each([
+    ["Kansas", 38.5, -98.0, -100],
+    ["Seattle", 47.61, -122.33, -100],
+    ["Moscow", 55.75, 37.62, 100],
+    ["Vladivostok", 43.12, 131.89, 100],
+    ["Manaus", -3.12, -60.02, -40],
+    ["Toronto", 43.65, -79.38, 40],
+  ])("keys a dot in %s (%f, %f) to its country's net flow", (_place, lat, lng, net) => {
+    const country = countryAt(lat, lng);
+    expect(country && nets[country]).toBe(net);
+  });
+});
@@ -0,0 +1,55 @@
+import { canonicalCountry } from "./countrymap";
+import type { ArcData } from "./types";
+
+// ── Diverging scale endpoints (outflow ← neutral → inflow) ──
+
+export const NETFLOW_COLORS = {
+  outflow: "#b5523b",
+  neutral: "#cfc4b2",
+  inflow: "#2f7d6d",
+};
+
+/**
+ * Net stablecoin inflow minus outflow per country (USD), keyed by
+ * canonicalCountry() so aliases merge. Domestic flows cancel out.
+ */
+export function computeNetFlows(arcs: ArcData[]): Record<string, number> {
+  const net: Record<string, number> = {};
+  for (const arc of arcs) {
+    const from = canonicalCountry(arc.fromCountry);
+    const to = canonicalCountry(arc.toCountry);
+    if (from === to) continue;
+    net[from] = (net[from] ?? 0) - arc.totalUsd;
+    net[to] = (net[to] ?? 0) + arc.totalUsd;
+  }
+  return net;
+}
+
+/** Largest absolute net flow, used as the symmetric domain of the scale. */
+export function maxAbsNetFlow(netFlows: Record<string, number>): number {
+  return Math.max(...Object.values(netFlows).map(Math.abs), 1);
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const h = hex.replace("#", "");
+  return [
+    parseInt(h.substring(0, 2), 16) / 255,
+    parseInt(h.substring(2, 4), 16) / 255,
+    parseInt(h.substring(4, 6), 16) / 255,
+  ];
+}
+
+/**
+ * Map a net flow onto the diverging scale as 0–1 RGB.
+ * Square-root scaling keeps mid-sized economies visible next to the US.
+ */
+export function netFlowColor(net: number, maxAbs: number): [number, number, number] {
+  const t = Math.min(1, Math.sqrt(Math.abs(net) / maxAbs));
+  const neutral = hexToRgb(NETFLOW_COLORS.neutral);
+  const end = hexToRgb(net < 0 ? NETFLOW_COLORS.outflow : NETFLOW_COLORS.inflow);
+  return [
+    neutral[0] * (1 - t) + end[0] * t,
+    neutral[1] * (1 - t) + end[1] * t,
+    neutral[2] * (1 - t) + end[2] * t,
+  ];
+}
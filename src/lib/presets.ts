@@ -0,0 +1,31 @@
+// ── Quick-select presets ──
+//
+// Shared by the Sidebar's preset buttons, the live-mode window and the
+// scheduled prefetch, so all three produce identical ranges (and therefore
+// identical cache keys) within the same hour.
+
+export type QuickPreset = { label: string; hours: number };
+
+export const QUICK_PRESETS: QuickPreset[] = [
+  { label: "1h", hours: 1 },
+  { label: "6h", hours: 6 },
+  { label: "24h", hours: 24 },
+  { label: "7d", hours: 7 * 24 },
+  { label: "30d", hours: 30 * 24 },
+];
+
+/**
+ * The `hours`-long window ending at the current hour boundary, formatted as
+ * the "YYYY-MM-DD HH:MM:SS" strings the API routes take.
+ */
+export function presetRange(hours: number, now: Date = new Date()): { startDate: string; endDate: string } {
+  const end = new Date(Math.floor(now.getTime() / (3600 * 1000)) * 3600 * 1000);
+  const start = new Date(end.getTime() - hours * 3600 * 1000);
+  return {
+    startDate: start.toISOString().replace("T", " ").slice(0, 19),
+    endDate: end.toISOString().replace("T", " ").slice(0, 19),
+  };
+}
+
+// Counterparty limits offered by the wallet explorer; the URL only accepts these
+export const WALLET_LIMITS = [25, 50, 100, 250];
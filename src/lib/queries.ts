@@ -0,0 +1,14 @@
+// ── Saved Allium queries behind the flows and bridges views ──
+//
+// Shared by their API routes and both prefetchers, so a warm-up runs the same
+// query with the same wait limit as the route it fills the cache for.
+
+// Stablecoin transfers for the flows view
+// Parameters: {{start_date}}, {{end_date}}
+export const FLOWS_QUERY_ID = "Gfa6Z0NU15RsYA4Hp3vB";
+export const FLOWS_MAX_WAIT_MS = 300000;
+
+// Cross-chain bridge transfers for the bridges view
+// Parameters: {{start_date}}, {{end_date}}
+export const BRIDGE_QUERY_ID = "i812m0VJTKobVxsYvdHB";
+export const BRIDGE_MAX_WAIT_MS = 30000;
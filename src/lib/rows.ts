@@ -0,0 +1,185 @@
+import type { BridgeFlow, EntityLabel, RowsResponse, StablecoinFlow, WalletRow } from "./types";
+
+// ── Row schemas ──
+//
+// Allium returns column names upper-cased from saved queries and lower-cased
+// from some ad-hoc runs, and numbers sometimes arrive as strings. Each query's
+// rows are checked against a declared schema here, server-side, so clients
+// get one typed shape.
+
+/** Part of every cache URL holding normalized rows; bump when a schema changes shape. */
+export const ROWS_VERSION = 3;
+
+type FieldType = "string" | "number" | "timestamp";
+
+interface FieldSpec {
+  type: FieldType;
+  required?: boolean; // reject the row when missing; otherwise fall back to "" / 0
+  lowercase?: boolean;
+}
+
+type RowSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+const FLOW_SCHEMA: RowSchema<StablecoinFlow> = {
+  from_country: { type: "string", required: true },
+  to_country: { type: "string", required: true },
+  token_symbol: { type: "string", required: true },
+  transfer_count: { type: "number" },
+  total_usd: { type: "number" },
+  last_seen: { type: "timestamp" },
+};
+
+const BRIDGE_SCHEMA: RowSchema<BridgeFlow> = {
+  source_chain: { type: "string", required: true, lowercase: true },
+  destination_chain: { type: "string", required: true, lowercase: true },
+  token_symbol: { type: "string", required: true },
+  transfer_count: { type: "number" },
+  total_usd: { type: "number" },
+};
+
+const WALLET_SCHEMA: RowSchema<WalletRow> = {
+  counterparty_address: { type: "string", required: true }, // case-sensitive off EVM
+  direction: { type: "string", lowercase: true },
+  // Required so a query without these columns fails instead of reading as $0
+  // in one unknown token; the query reports unpriced tokens as 0 USD
+  token_symbol: { type: "string", required: true },
+  tx_count: { type: "number" },
+  usd_value: { type: "number", required: true },
+  category: { type: "string" },
+  project: { type: "string" },
+  name: { type: "string" },
+  first_seen: { type: "timestamp" },
+};
+
+const ENTITY_SCHEMA: RowSchema<EntityLabel> = {
+  chain: { type: "string", required: true, lowercase: true },
+  address: { type: "string", required: true }, // case-sensitive off EVM
+  category: { type: "string" },
+  project: { type: "string" },
+  name: { type: "string" },
+};
+
+export const ROW_SCHEMAS = {
+  flows: FLOW_SCHEMA,
+  bridges: BRIDGE_SCHEMA,
+  wallet: WALLET_SCHEMA,
+};
+
+export type RowSchemaName = keyof typeof ROW_SCHEMAS;
+
+// ── Coercion ──
+
+class RowError extends Error {}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+/**
+ * Timestamps come back as "YYYY-MM-DD HH:MM:SS" (UTC, no zone), ISO strings
+ * or epoch numbers. All become ISO-8601 UTC; anything else throws.
+ */
+export function toTimestamp(value: unknown): string {
+  let ms: number;
+  if (typeof value === "number") {
+    // Epoch seconds until well past 2100; anything larger is milliseconds
+    ms = value < 1e11 ? value * 1000 : value;
+  } else if (typeof value === "string") {
+    const s = value.trim().replace(" ", "T");
+    ms = Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(s) ? s : s + "Z");
+  } else {
+    ms = NaN;
+  }
+  if (!Number.isFinite(ms)) throw new RowError(`invalid timestamp ${JSON.stringify(value)}`);
+  return new Date(ms).toISOString();
+}
+
+function coerceField(value: unknown, spec: FieldSpec): string | number {
+  switch (spec.type) {
+    case "number": {
+      const n = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+      if (!Number.isFinite(n)) throw new RowError(`invalid number ${JSON.stringify(value)}`);
+      return n;
+    }
+    case "timestamp":
+      return toTimestamp(value);
+    case "string": {
+      if (typeof value !== "string" && typeof value !== "number") {
+        throw new RowError(`invalid string ${JSON.stringify(value)}`);
+      }
+      const s = String(value).trim();
+      return spec.lowercase ? s.toLowerCase() : s;
+    }
+  }
+}
+
+function normalizeRow<T>(raw: unknown, schema: RowSchema<T>): T {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new RowError("row is not an object");
+  const row = raw as Record<string, unknown>;
+  const out: Record<string, string | number> = {};
+  for (const [field, spec] of Object.entries(schema) as [string, FieldSpec][]) {
+    const value = row[field.toUpperCase()] ?? row[field];
+    if (isMissing(value)) {
+      if (spec.required) throw new RowError(`missing ${field}`);
+      out[field] = spec.type === "number" ? 0 : "";
+      continue;
+    }
+    try {
+      out[field] = coerceField(value, spec);
+    } catch (err) {
+      throw new RowError(`${field}: ${(err as Error).message}`);
+    }
+  }
+  return out as T;
+}
+
+// ── Public API ──
+
+/**
+ * Validate and normalize a raw Allium result body (`{ data: [...] }` or a
+ * bare array) against a schema. Rows that fail validation are dropped and
+ * counted rather than failing the whole result.
+ */
+export function normalizeRows<T>(result: unknown, schema: RowSchema<T>, label: string): RowsResponse<T> {
+  const body = result as { data?: unknown } | unknown[] | null | undefined;
+  const raw = Array.isArray(body) ? body : body?.data;
+  if (!Array.isArray(raw)) return { data: [], rejected: 0 };
+
+  const data: T[] = [];
+  let rejected = 0;
+  let firstError: string | null = null;
+  for (const row of raw) {
+    try {
+      data.push(normalizeRow(row, schema));
+    } catch (err) {
+      if (!(err instanceof RowError)) throw err;
+      rejected++;
+      firstError ??= err.message;
+    }
+  }
+  if (rejected > 0) {
+    console.warn(`[rows] ${label}: rejected ${rejected} of ${raw.length} rows (first: ${firstError})`);
+  }
+  return { data, rejected };
+}
+
+export function normalizeFlows(result: unknown): RowsResponse<StablecoinFlow> {
+  return normalizeRows(result, FLOW_SCHEMA, "flows");
+}
+
+export function normalizeBridges(result: unknown): RowsResponse<BridgeFlow> {
+  return normalizeRows(result, BRIDGE_SCHEMA, "bridges");
+}
+
+export function normalizeWalletRows(result: unknown): RowsResponse<WalletRow> {
+  return normalizeRows(result, WALLET_SCHEMA, "wallet");
+}
+
+export function normalizeEntityRows(result: unknown): RowsResponse<EntityLabel> {
+  return normalizeRows(result, ENTITY_SCHEMA, "entities");
+}
+
+/** Normalize by schema name, for callers (the job API) that only store the name. */
+export function normalizeResult(name: RowSchemaName, result: unknown): RowsResponse<unknown> {
+  return normalizeRows<unknown>(result, ROW_SCHEMAS[name] as RowSchema<unknown>, name);
+}
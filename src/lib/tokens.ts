@@ -0,0 +1,26 @@
+// ── Token colors ──
+//
+// Shared by every view that colors arcs by token, so a USDC arc looks the
+// same in stablecoin flows and in a wallet's counterparty graph.
+
+export const TOKEN_COLORS: Record<string, string> = {
+  USDC: "#7a8fa3",
+  USDT: "#7a9e8f",
+  DAI: "#b89e6e",
+  BUSD: "#b8a36e",
+  PYUSD: "#8393a8",
+  RLUSD: "#c5bfb5",
+  XUSD: "#9a8aad",
+  USDS: "#8a8aad",
+  USDe: "#8a9e8f",
+  WETH: "#627EEA",
+  WBTC: "#F7931A",
+  ETH: "#627EEA",
+};
+
+/** Wallet volume in tokens with no symbol (unpriced or unlabeled contracts) is grouped under this name. */
+export const UNKNOWN_TOKEN = "Other";
+
+export function tokenColor(symbol: string): string {
+  return TOKEN_COLORS[symbol] || "#ffffff";
+}
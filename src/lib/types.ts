@@ -23,6 +23,12 @@ export interface ArcData {
   dashOffset: number;
   firstSeen?: string;
   lastSeen?: string;
+  // On-chain endpoints (wallet arcs), for explorer links
+  chain?: string;
+  fromAddress?: string;
+  toAddress?: string;
+  txHash?: string;
+  hop?: number; // wallet graph: 1 for the searched wallet's own counterparties
 }
 
 export interface BridgeFlow {
@@ -33,11 +39,30 @@ export interface BridgeFlow {
   total_usd: number;
 }
 
+/** Query rows after server-side validation (see lib/rows.ts). */
+export interface RowsResponse<T> {
+  data: T[];
+  rejected: number; // rows dropped for missing or malformed fields
+}
+
+/** Stablecoin flows left off the map because a country name didn't resolve. */
+export interface UnmappedFlows {
+  corridors: number;
+  totalUsd: number;
+  countries: string[]; // unresolved names, largest volume first
+}
+
 export interface CountryCoord {
   lat: number;
   lng: number;
 }
 
+/** How land dots are tinted: by arc token, or by each country's net flow. */
+export type GlobeColorMode = "token" | "netflow";
+
+/** Arcs spawning and retreating live, or every corridor drawn at once. */
+export type ArcMode = "stream" | "overview";
+
 // ── Wallet Explorer types ──
 
 export interface WalletAssetTransfer {
@@ -67,6 +92,45 @@ export interface WalletTransaction {
   asset_transfers: WalletAssetTransfer[];
 }
 
+export type WalletTxDirection = "sent" | "received";
+
+/** Filters for /api/wallet/transactions; dates are ISO-8601 UTC, both inclusive. */
+export interface WalletTxFilters {
+  token?: string;
+  direction?: WalletTxDirection;
+  startDate?: string;
+  endDate?: string;
+}
+
+/** A page of /api/wallet/transactions, newest first. */
+export interface WalletTransactionsPage {
+  address: string;
+  chain: string;
+  items: WalletTransaction[];
+  cursor: string | null; // pass back for the next page; null when there are no more
+  rejected: number; // upstream items dropped for a missing hash or timestamp
+}
+
+/** Time window and size of a wallet lookup. Dates are "YYYY-MM-DD HH:MM:SS" UTC, null for all time. */
+export interface WalletFilters {
+  startDate: string | null;
+  endDate: string | null;
+  limit: number; // counterparties returned, busiest first
+}
+
+/** One row of the labeled-counterparty query: a counterparty in one direction and token. */
+export interface WalletRow {
+  counterparty_address: string;
+  direction: string; // "sent" | "received"
+  token_symbol: string;
+  tx_count: number;
+  usd_value: number;
+  category: string;
+  project: string;
+  name: string;
+  first_seen: string;
+}
+
 export interface EntityLabel {
   chain: string;
   address: string;
@@ -75,15 +139,42 @@ export interface EntityLabel {
   name: string;
 }
 
+/** `/api/entity` response: the label on one address, null when it has none. */
+export interface EntityLookup {
+  address: string;
+  chain: string;
+  entity: EntityLabel | null;
+  rejected: number;
+}
+
+/** `/api/entity/:project` response: every labeled address of one project. */
+export interface EntityProfile {
+  project: string;
+  category: string; // most common among its addresses
+  addresses: EntityLabel[];
+  truncated: boolean; // more addresses exist than were listed
+  rejected: number;
+}
+
 export interface EnrichedCounterparty {
   address: string;
   chain: string;
   entity: EntityLabel | null;
-  totalSent: number;
-  totalReceived: number;
+  totalSent: number; // USD
+  totalReceived: number; // USD
   transferCount: number;
-  tokens: string[];
+  tokens: string[]; // symbols, largest USD volume first
+  tokenBreakdown: TokenVolume[];
   firstSeen?: string;
+  members?: EnrichedCounterparty[]; // set on an entity group (see groupByEntity): its addresses, busiest first
+}
+
+/** USD moved in one token, split by direction relative to the explored wallet. */
+export interface TokenVolume {
+  symbol: string;
+  sentUsd: number;
+  receivedUsd: number;
+  transferCount: number;
 }
 
 export interface WalletData {
@@ -91,4 +182,29 @@ export interface WalletData {
   chain: string;
   transactions: WalletTransaction[];
   counterparties: EnrichedCounterparty[];
+  rejected?: number; // query rows dropped by validation
+  chains?: WalletChainSummary[]; // "All EVM chains" lookups: chains with activity, busiest first
+  failedChains?: string[]; // "All EVM chains" lookups: chains whose query failed
+}
+
+/** One chain's share of an "All EVM chains" wallet lookup. */
+export interface WalletChainSummary {
+  chain: string;
+  counterparties: number;
+  transferCount: number;
+  totalSent: number; // USD
+  totalReceived: number; // USD
+}
+
+// ── Query job types ──
+
+/** Allium run status as surfaced by the job API. */
+export type QueryJobState = "created" | "queued" | "running" | "success" | "failed" | "canceled";
+
+export interface QueryJobStatus {
+  jobId: string | null; // null when the result came straight from cache
+  status: QueryJobState;
+  elapsedMs: number;
+  result?: unknown; // normalized rows ({ data, rejected }) once status is "success"
+  error?: string;
 }
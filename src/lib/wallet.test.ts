@@ -0,0 +1,206 @@
+import { readFileSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { runQueryAndWait } from "./allium";
+import { normalizeWalletRows } from "./rows";
+import {
+  aggregateWalletRows,
+  DEFAULT_WALLET_FILTERS,
+  fetchWalletData,
+  parseWalletDateBound,
+  walletCacheUrl,
+  WALLET_QUERY_ID,
+} from "./wallet";
+import type { WalletData } from "./types";
+
+function readFixture(queryId: string): unknown {
+  return JSON.parse(readFileSync(new URL(`../../mock/allium/fixtures/${queryId}.json`, import.meta.url), "utf8"));
+}
+
+const WALLET = "0xdbf5e9c5206d0db70a90108bf936da60221dc080";
+
+// Every Allium run answers with its recorded fixture
+vi.mock("./allium", () => ({
+  runQueryAndWait: vi.fn(async (queryId: string) => readFixture(queryId)),
+}));
+
+// Record what each route would write to the cache, without writing it, so
+// every route run starts from a miss
+const cachePuts = vi.hoisted(() => [] as { url: string; data: unknown }[]);
+vi.mock("./cache", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./cache")>();
+  return {
+    ...actual,
+    cfCachePut: async (url: string, data: unknown) => {
+      cachePuts.push({ url, data });
+    },
+  };
+});
+
+describe("normalizeWalletRows", () => {
+  it("normalizes the fixture's upper-cased columns", () => {
+    const { data: rows, rejected } = normalizeWalletRows(readFixture(WALLET_QUERY_ID));
+    expect(rejected).toBe(0);
+    expect(rows).toHaveLength(16);
+    expect(rows[0]).toEqual({
+      counterparty_address: "0x73581569969e58b081006f7e3dfc967a64cb1402",
+      direction: "sent",
+      token_symbol: "USDC",
+      tx_count: 57,
+      usd_value: 122550,
+      category: "cex",
+      project: "binance",
+      name: "Binance Hot Wallet",
+      first_seen: "2024-05-14T05:00:00.000Z",
+    });
+  });
+
+  it("drops rows without a counterparty address", () => {
+    const { data, rejected } = normalizeWalletRows({
+      data: [
+        { DIRECTION: "sent", TOKEN_SYMBOL: "USDC", USD_VALUE: "10", TX_COUNT: "3" },
+        { COUNTERPARTY_ADDRESS: "0xabc", TOKEN_SYMBOL: "USDC", USD_VALUE: "10", TX_COUNT: "3" },
+      ],
+    });
+    expect(rejected).toBe(1);
+    expect(data).toHaveLength(1);
+    expect(data[0].tx_count).toBe(3);
+  });
+
+  it("rejects rows from a query without USD_VALUE instead of reading it as zero", () => {
+    const fixture = readFixture(WALLET_QUERY_ID) as { data: Record<string, unknown>[] };
+    const withoutUsd = fixture.data.map(({ USD_VALUE: _, ...row }) => row);
+    const { data, rejected } = normalizeWalletRows({ data: withoutUsd });
+    expect(data).toHaveLength(0);
+    expect(rejected).toBe(withoutUsd.length);
+  });
+});
+
+describe("fetchWalletData", () => {
+  it("fails when the query's columns don't match", async () => {
+    const fixture = readFixture(WALLET_QUERY_ID) as { data: Record<string, unknown>[] };
+    vi.mocked(runQueryAndWait).mockResolvedValueOnce({
+      data: fixture.data.map(({ TOKEN_SYMBOL: _, ...row }) => row),
+    });
+    await expect(fetchWalletData(WALLET, "ethereum", "test", DEFAULT_WALLET_FILTERS)).rejects.toThrow(
+      /none with the expected columns/
+    );
+  });
+});
+
+describe("aggregateWalletRows", () => {
+  const { data: rows } = normalizeWalletRows(readFixture(WALLET_QUERY_ID));
+  const wallet = aggregateWalletRows(rows, WALLET, "ethereum");
+
+  it("merges rows per counterparty, busiest first", () => {
+    expect(wallet.counterparties).toHaveLength(12);
+    const counts = wallet.counterparties.map((cp) => cp.transferCount);
+    expect(counts).toEqual([...counts].sort((a, b) => b - a));
+  });
+
+  it("sums USD by direction and keeps a per-token breakdown", () => {
+    const rowsFor = (address: string) => rows.filter((r) => r.counterparty_address === address);
+    const coinbase = wallet.counterparties.find((cp) => cp.entity?.project === "coinbase")!;
+    const coinbaseRows = rowsFor(coinbase.address);
+    expect(coinbaseRows).toHaveLength(2);
+
+    const sent = coinbaseRows.filter((r) => r.direction === "sent");
+    const received = coinbaseRows.filter((r) => r.direction !== "sent");
+    expect(coinbase.totalSent).toBe(sent.reduce((s, r) => s + r.usd_value, 0));
+    expect(coinbase.totalReceived).toBe(received.reduce((s, r) => s + r.usd_value, 0));
+    expect(coinbase.transferCount).toBe(coinbaseRows.reduce((s, r) => s + r.tx_count, 0));
+    expect(coinbase.tokenBreakdown.map((t) => t.symbol).sort()).toEqual(["ETH", "USDT"]);
+    expect(coinbase.tokens[0]).toBe(coinbase.tokenBreakdown[0].symbol);
+  });
+
+  it("keeps the earliest first_seen and labels unlabeled counterparties unknown", () => {
+    const unlabeled = wallet.counterparties.find((cp) => !cp.entity?.project)!;
+    const seen = rows
+      .filter((r) => r.counterparty_address === unlabeled.address)
+      .map((r) => r.first_seen)
+      .sort();
+    expect(unlabeled.firstSeen).toBe(seen[0]);
+    expect(unlabeled.entity?.category).toBe("unknown");
+  });
+
+  it("skips rows pointing back at the wallet itself", () => {
+    const self = { ...rows[0], counterparty_address: WALLET.toUpperCase().replace("0X", "0x") };
+    const data = aggregateWalletRows([self, ...rows], WALLET, "ethereum");
+    expect(data.counterparties.some((cp) => cp.address === WALLET)).toBe(false);
+  });
+});
+
+describe("parseWalletDateBound", () => {
+  it("snaps the start down and the end up past its hour", () => {
+    expect(parseWalletDateBound("2024-05-01T10:30:00Z", "start")).toBe("2024-05-01 10:00:00");
+    expect(parseWalletDateBound("2024-05-01T10:30:00Z", "end")).toBe("2024-05-01 11:00:00");
+    expect(parseWalletDateBound("2024-05-01 10:00:00", "end")).toBe("2024-05-01 11:00:00");
+  });
+
+  it("takes in the whole of a bare end date", () => {
+    expect(parseWalletDateBound("2024-05-01", "start")).toBe("2024-05-01 00:00:00");
+    expect(parseWalletDateBound("2024-05-01", "end")).toBe("2024-05-02 00:00:00");
+  });
+});
+
+describe("/api/wallet and /api/prefetch", () => {
+  beforeEach(() => {
+    cachePuts.length = 0;
+    vi.stubEnv("ALLIUM_API_KEY", "test");
+  });
+
+  async function walletPut(run: () => Promise<Response>): Promise<{ url: string; data: WalletData }> {
+    const res = await run();
+    expect(res.ok).toBe(true);
+    const put = cachePuts.find((p) => p.url.includes("/api/wallet?"));
+    expect(put).toBeDefined();
+    return put as { url: string; data: WalletData };
+  }
+
+  it("cache the same WalletData under the same key", async () => {
+    const fromRoute = await walletPut(async () => {
+      const { GET } = await import("@/app/api/wallet/route");
+      return GET(new NextRequest(`http://localhost/api/wallet?address=${WALLET}&chain=ethereum`));
+    });
+
+    cachePuts.length = 0;
+    const fromPrefetch = await walletPut(async () => {
+      const { GET } = await import("@/app/api/prefetch/route");
+      return GET();
+    });
+
+    expect(fromRoute.url).toBe(walletCacheUrl(WALLET, "ethereum", DEFAULT_WALLET_FILTERS));
+    expect(fromPrefetch.url).toBe(fromRoute.url);
+    expect(fromPrefetch.data).toEqual(fromRoute.data);
+    expect(fromRoute.data.counterparties).toHaveLength(12);
+  });
+
+  it("looks up the whole day for a bare start_date and end_date", async () => {
+    const fixture = readFixture(WALLET_QUERY_ID) as { data: Record<string, unknown>[] };
+    const sameDay = fixture.data.filter((row) => String(row.FIRST_SEEN).startsWith("2024-01-01"));
+    vi.mocked(runQueryAndWait).mockResolvedValueOnce({ data: sameDay });
+
+    const { GET } = await import("@/app/api/wallet/route");
+    const res = await GET(
+      new NextRequest(`http://localhost/api/wallet?address=${WALLET}&chain=ethereum&start_date=2024-01-01&end_date=2024-01-01`)
+    );
+    expect(res.status).toBe(200);
+    expect(vi.mocked(runQueryAndWait)).toHaveBeenLastCalledWith(
+      WALLET_QUERY_ID,
+      "test",
+      expect.any(Number),
+      expect.objectContaining({ start_date: "2024-01-01 00:00:00", end_date: "2024-01-02 00:00:00" })
+    );
+    expect(((await res.json()) as WalletData).counterparties).toHaveLength(sameDay.length);
+  });
+
+  it("fails when the query ignores the requested window", async () => {
+    const { GET } = await import("@/app/api/wallet/route");
+    const res = await GET(
+      new NextRequest(`http://localhost/api/wallet?address=${WALLET}&chain=ethereum&start_date=2024-09-01`)
+    );
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: "Wallet query returned transfers outside the requested window" });
+    expect(cachePuts).toHaveLength(0);
+  });
+});
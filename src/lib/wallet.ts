@@ -0,0 +1,290 @@
+import { runQueryAndWait } from "./allium";
+import { cfCacheMatch, cfCachePut, dedup } from "./cache";
+import { ALL_EVM, EVM_CHAINS, normalizeAddress } from "./chains";
+import { normalizeWalletRows, ROWS_VERSION, toTimestamp } from "./rows";
+import { parseTxDateBound } from "./wallettx";
+import type {
+  EntityLabel,
+  EnrichedCounterparty,
+  TokenVolume,
+  WalletChainSummary,
+  WalletData,
+  WalletFilters,
+  WalletRow,
+} from "./types";
+
+// Pre-saved Allium query: joins wallet transfers with entity labels, one row
+// per counterparty, direction and token with its tx count and USD value
+// Parameters: {{wallet_address}}, {{chain}}, {{start_date}}, {{end_date}}, {{limit}}
+// Its columns and parameters are listed in the README ("Wallet Query")
+export const WALLET_QUERY_ID = "uOYFdeodat5P0qaLVW2t";
+
+export const WALLET_TTL_SEC = 3600;
+
+export const WALLET_DEFAULT_LIMIT = 50;
+export const WALLET_MAX_LIMIT = 500;
+
+export const DEFAULT_WALLET_FILTERS: WalletFilters = { startDate: null, endDate: null, limit: WALLET_DEFAULT_LIMIT };
+
+// The saved query takes both bounds; these stand in for "all time"
+const ALL_TIME_START = "2009-01-01 00:00:00";
+const ALL_TIME_END = "2100-01-01 00:00:00";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A start_date or end_date filter as "YYYY-MM-DD HH:00:00" UTC, for the saved
+ * query's [start_date, end_date) window. Both bounds are inclusive as given,
+ * read like /api/wallet/transactions' (a bare end date takes in that whole
+ * day): the start snaps down to its hour and the end up past its own, so the
+ * snapped window always covers the requested one. Throws on an unparseable
+ * value.
+ */
+export function parseWalletDateBound(value: string, bound: "start" | "end"): string {
+  const hour = Math.floor(Date.parse(parseTxDateBound(value, bound)) / HOUR_MS) + (bound === "end" ? 1 : 0);
+  return new Date(hour * HOUR_MS).toISOString().replace("T", " ").slice(0, 19);
+}
+
+// Addresses below are expected in normalizeAddress() form. Base58 and TON
+// addresses are case-sensitive, so nothing here folds case itself.
+
+/** Canonical cache URL for a wallet's processed WalletData. */
+export function walletCacheUrl(address: string, chain: string, filters: WalletFilters): string {
+  const range = `start_date=${filters.startDate ?? ""}&end_date=${filters.endDate ?? ""}`;
+  return `https://cache.internal/api/wallet?address=${encodeURIComponent(address)}&chain=${chain}&${range}&limit=${filters.limit}&rows=v${ROWS_VERSION}`;
+}
+
+/** Dedup key for producing a wallet's processed WalletData. */
+export function walletDataKey(address: string, chain: string, filters: WalletFilters): string {
+  return `wallet-data:${address}:${chain}:${filters.startDate ?? ""}:${filters.endDate ?? ""}:${filters.limit}`;
+}
+
+/** Run the labeled-counterparty query and aggregate its rows into WalletData. */
+export async function fetchWalletData(
+  address: string,
+  chain: string,
+  apiKey: string,
+  filters: WalletFilters
+): Promise<WalletData> {
+  console.log(`[wallet] Querying labeled counterparties for ${address} on ${chain}...`);
+  const result = await runQueryAndWait(WALLET_QUERY_ID, apiKey, 60000, {
+    wallet_address: address,
+    chain,
+    start_date: filters.startDate ?? ALL_TIME_START,
+    end_date: filters.endDate ?? ALL_TIME_END,
+    limit: String(filters.limit),
+  });
+
+  const { data: rows, rejected } = normalizeWalletRows(result);
+  console.log(`[wallet] Got ${rows.length} rows`);
+  // Every row rejected means the query's columns don't match WALLET_SCHEMA,
+  // not that the wallet has no counterparties
+  if (rows.length === 0 && rejected > 0) {
+    throw new Error(`Wallet query returned ${rejected} rows, none with the expected columns`);
+  }
+
+  // A saved query that doesn't declare the window or limit parameters runs
+  // without them, and its result would be cached under a window it never used
+  if (rows.length + rejected > filters.limit) {
+    throw new Error(`Wallet query returned ${rows.length + rejected} rows, ignoring limit ${filters.limit}`);
+  }
+  const start = filters.startDate && toTimestamp(filters.startDate);
+  const end = filters.endDate && toTimestamp(filters.endDate);
+  if (rows.some((r) => r.first_seen && ((start && r.first_seen < start) || (end && r.first_seen >= end)))) {
+    throw new Error("Wallet query returned transfers outside the requested window");
+  }
+  const data = aggregateWalletRows(rows, address, chain);
+  // Rows are per direction and token, so a row limit can still leave more counterparties
+  return { ...data, counterparties: data.counterparties.slice(0, filters.limit), rejected };
+}
+
+// ── All EVM chains ──
+
+/**
+ * One chain's WalletData for a multi-chain lookup, shared with single-chain
+ * lookups through the same cache entry and dedup key.
+ */
+async function chainWalletData(
+  address: string,
+  chain: string,
+  apiKey: string,
+  filters: WalletFilters
+): Promise<WalletData> {
+  const cacheUrl = walletCacheUrl(address, chain, filters);
+  const cached = await cfCacheMatch(cacheUrl);
+  if (cached) return cached as WalletData;
+
+  const data = await dedup(walletDataKey(address, chain, filters), () =>
+    fetchWalletData(address, chain, apiKey, filters)
+  );
+  if (data.counterparties.length > 0) await cfCachePut(cacheUrl, data, WALLET_TTL_SEC);
+  return data;
+}
+
+/**
+ * Look one address up on every EVM chain at once and merge the results.
+ * Counterparties keep their own chain, so the same address on two chains
+ * stays two entries. A chain whose query fails is listed in `failedChains`
+ * rather than failing the lookup, unless every chain fails.
+ */
+export async function fetchAllEvmWalletData(
+  address: string,
+  apiKey: string,
+  filters: WalletFilters
+): Promise<WalletData> {
+  console.log(`[wallet] Fanning out ${address} across ${EVM_CHAINS.length} EVM chains...`);
+  const results = await Promise.allSettled(
+    EVM_CHAINS.map((chain) => chainWalletData(address, chain, apiKey, filters))
+  );
+
+  const parts: WalletData[] = [];
+  const failedChains: string[] = [];
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      parts.push(result.value);
+    } else {
+      failedChains.push(EVM_CHAINS[i]);
+      console.error(`[wallet] ${EVM_CHAINS[i]} failed:`, result.reason instanceof Error ? result.reason.message : result.reason);
+    }
+  });
+  if (parts.length === 0) throw new Error("Wallet query failed on every EVM chain");
+
+  return mergeWalletData(address, parts, failedChains, filters.limit);
+}
+
+export function mergeWalletData(
+  address: string,
+  parts: WalletData[],
+  failedChains: string[],
+  limit: number
+): WalletData {
+  const chains: WalletChainSummary[] = parts
+    .filter((part) => part.counterparties.length > 0)
+    .map((part) => ({
+      chain: part.chain,
+      counterparties: part.counterparties.length,
+      transferCount: part.counterparties.reduce((sum, cp) => sum + cp.transferCount, 0),
+      totalSent: part.counterparties.reduce((sum, cp) => sum + cp.totalSent, 0),
+      totalReceived: part.counterparties.reduce((sum, cp) => sum + cp.totalReceived, 0),
+    }))
+    .sort((a, b) => b.transferCount - a.transferCount);
+
+  const rejected = parts.reduce((sum, part) => sum + (part.rejected ?? 0), 0);
+
+  return {
+    address,
+    chain: ALL_EVM,
+    transactions: [],
+    counterparties: parts
+      .flatMap((part) => part.counterparties)
+      .sort((a, b) => b.transferCount - a.transferCount)
+      .slice(0, limit),
+    rejected,
+    chains,
+    failedChains,
+  };
+}
+
+// ── Aggregation ──
+
+/**
+ * Aggregate wallet query rows (one per counterparty, direction and token)
+ * into WalletData. The same address may appear as both sent and received,
+ * and in several tokens; USD totals and per-token volumes are summed.
+ */
+export function aggregateWalletRows(
+  rows: WalletRow[],
+  address: string,
+  chain: string
+): WalletData {
+  if (rows.length === 0) {
+    return {
+      address,
+      chain,
+      transactions: [],
+      counterparties: [],
+    };
+  }
+
+  const cpMap = new Map<
+    string,
+    {
+      entity: EntityLabel;
+      sent: number;
+      received: number;
+      transfers: number;
+      tokens: Map<string, TokenVolume>;
+      firstSeen: string | undefined;
+    }
+  >();
+
+  for (const row of rows) {
+    const addr = normalizeAddress(chain, row.counterparty_address) ?? row.counterparty_address;
+    const direction = row.direction;
+    const txCount = row.tx_count;
+    const usd = row.usd_value;
+    const symbol = row.token_symbol;
+    const category = row.category || "unknown";
+    const { project, name } = row;
+    const firstSeen = row.first_seen || undefined;
+
+    // Skip self-references
+    if (addr === address) continue;
+
+    const existing = cpMap.get(addr) || {
+      entity: { chain, address: addr, category, project, name },
+      sent: 0,
+      received: 0,
+      transfers: 0,
+      tokens: new Map<string, TokenVolume>(),
+      firstSeen: undefined as string | undefined,
+    };
+
+    const token = existing.tokens.get(symbol) || { symbol, sentUsd: 0, receivedUsd: 0, transferCount: 0 };
+    if (direction === "sent") {
+      existing.sent += usd;
+      token.sentUsd += usd;
+    } else {
+      existing.received += usd;
+      token.receivedUsd += usd;
+    }
+    existing.transfers += txCount;
+    token.transferCount += txCount;
+    existing.tokens.set(symbol, token);
+
+    // Track earliest firstSeen across sent/received rows for the same address
+    if (firstSeen && (!existing.firstSeen || firstSeen < existing.firstSeen)) {
+      existing.firstSeen = firstSeen;
+    }
+
+    cpMap.set(addr, existing);
+  }
+
+  const counterparties: EnrichedCounterparty[] = Array.from(cpMap.entries())
+    .map(([addr, data]) => {
+      const tokenBreakdown = Array.from(data.tokens.values()).sort(
+        (a, b) => b.sentUsd + b.receivedUsd - (a.sentUsd + a.receivedUsd)
+      );
+      return {
+        address: addr,
+        chain,
+        entity: data.entity,
+        totalSent: data.sent,
+        totalReceived: data.received,
+        transferCount: data.transfers,
+        tokens: tokenBreakdown.map((t) => t.symbol),
+        tokenBreakdown,
+        firstSeen: data.firstSeen,
+      };
+    })
+    .sort((a, b) => b.transferCount - a.transferCount);
+
+  console.log(`[wallet] Returning ${counterparties.length} labeled counterparties`);
+
+  return {
+    address,
+    chain,
+    transactions: [],
+    counterparties,
+  };
+}
@@ -0,0 +1,270 @@
+import { CHAINS, shortAddress } from "./chains";
+import { resolveCounterpartyPosition } from "./entities";
+import { tokenColor } from "./tokens";
+import type { ArcData, EnrichedCounterparty, TokenVolume, WalletData } from "./types";
+
+// ── Multi-hop wallet graph ──
+//
+// The searched wallet is hop 0. Expanding any counterparty fetches its own
+// counterparty set and adds it as another hop; the graph is rebuilt from the
+// list of hops, so nodes reached from several wallets appear once and keep
+// the position (and depth) they were first placed at.
+//
+// Grouped by entity, every labeled address of one project (across hops, too)
+// is drawn as a single node for that project.
+
+export interface WalletHop {
+  data: WalletData;
+  depth: number; // 0 for the searched wallet
+  parent: string | null; // nodeKey() of the wallet this one was expanded from
+}
+
+export interface WalletGraphNode {
+  key: string;
+  address: string; // empty for an entity node
+  chain: string;
+  depth: number;
+  lat: number;
+  lng: number;
+  label: string;
+}
+
+// Arcs per hop; the searched wallet keeps its original allowance
+const ROOT_ARC_LIMIT = 150;
+const EXPANSION_ARC_LIMIT = 50;
+
+// Each hop out draws thinner so the searched wallet stays dominant
+const HOP_STROKE_FALLOFF = 0.7;
+
+export function nodeKey(address: string, chain: string): string {
+  return `${chain.toLowerCase()}:${address}`;
+}
+
+/** Node key shared by every address labeled with one project. */
+export function entityKey(project: string): string {
+  return `entity:${project.toLowerCase()}`;
+}
+
+/**
+ * Build the node set and arcs for a list of hops, in expansion order.
+ * Arcs come out hop by hop, each hop sorted by firstSeen, so a newly
+ * expanded wallet's arcs stream after everything already on the globe.
+ * An edge already drawn from the other end isn't drawn twice.
+ */
+export function buildWalletGraph(
+  hops: WalletHop[],
+  { byEntity = false }: { byEntity?: boolean } = {}
+): { nodes: Map<string, WalletGraphNode>; arcs: ArcData[] } {
+  const nodes = new Map<string, WalletGraphNode>();
+  const edges = new Set<string>();
+  const arcs: ArcData[] = [];
+  // Address node key → its entity node, so an expanded address of a grouped project hangs off that node
+  const aliases = new Map<string, string>();
+
+  for (const hop of hops) {
+    const { data } = hop;
+    const counterparties = byEntity ? groupByEntity(data.counterparties) : data.counterparties;
+
+    // The wallet sits at each chain's anchor it's active on: one hub for a
+    // single-chain lookup, one per chain for an "All EVM chains" lookup. An
+    // expanded counterparty is already a node, so its hub keeps that spot.
+    const hubFor = (chain: string): WalletGraphNode | null => {
+      const key = nodeKey(data.address, chain);
+      const existing = nodes.get(aliases.get(key) ?? key);
+      if (existing) return existing;
+      const chainInfo = CHAINS[chain.toLowerCase()];
+      if (!chainInfo) return null;
+      const hub: WalletGraphNode = {
+        key,
+        address: data.address,
+        chain,
+        depth: hop.depth,
+        lat: chainInfo.lat,
+        lng: chainInfo.lng,
+        label: chain === data.chain ? data.address.slice(0, 8) : `${data.address.slice(0, 8)} (${chainInfo.label})`,
+      };
+      nodes.set(key, hub);
+      return hub;
+    };
+
+    const maxTransfers = Math.max(...counterparties.map((c) => c.transferCount), 1);
+    const hopStroke = HOP_STROKE_FALLOFF ** hop.depth;
+
+    const hopArcs: ArcData[] = [];
+    for (const cp of counterparties) {
+      const hub = hubFor(cp.chain);
+      if (!hub) continue;
+      const project = byEntity ? cp.entity?.project?.toLowerCase() : undefined;
+      const key = project ? entityKey(project) : nodeKey(cp.address, cp.chain);
+      if (project) {
+        for (const member of cp.members ?? [cp]) aliases.set(nodeKey(member.address, member.chain), key);
+      }
+      let node = nodes.get(key);
+      if (!node) {
+        // An entity node hashes by project, so it lands in the same spot whichever address placed it
+        const pos = resolveCounterpartyPosition(project ?? cp.address, cp.chain, cp.entity);
+        node = {
+          key,
+          address: project ? "" : cp.address,
+          chain: cp.chain,
+          depth: hub.depth + 1,
+          lat: pos.lat,
+          lng: pos.lng,
+          label: pos.label,
+        };
+        nodes.set(key, node);
+      }
+
+      // Transfers among one project's own addresses collapse into its node
+      if (node === hub) continue;
+
+      const isSend = cp.totalSent > cp.totalReceived;
+      const from = isSend ? hub : node;
+      const to = isSend ? node : hub;
+      const edgeKey = [from.key, to.key].sort().join("|");
+      if (edges.has(edgeKey)) continue;
+      edges.add(edgeKey);
+
+      const tokenSymbol = cp.tokens[0] || CHAINS[cp.chain.toLowerCase()]?.nativeToken || "ETH";
+      const normalized = cp.transferCount / maxTransfers;
+      const entityName = cp.members
+        ? `${cp.entity?.name} (${cp.members.length} addresses)`
+        : cp.entity?.name || shortAddress(cp.address);
+      // The counterparty end names the address actually involved, none for a group
+      const cpAddress = cp.members ? undefined : cp.address;
+
+      hopArcs.push({
+        startLat: from.lat,
+        startLng: from.lng,
+        endLat: to.lat,
+        endLng: to.lng,
+        color: tokenColor(tokenSymbol),
+        stroke: (0.5 + normalized * 2.5) * hopStroke,
+        label: `${isSend ? "→" : "←"} ${entityName}: ${cp.transferCount} transfers (${cp.tokens.join(", ")})`,
+        totalUsd: cp.totalSent + cp.totalReceived,
+        tokenSymbol,
+        fromCountry: from.label,
+        toCountry: to.label,
+        transferCount: cp.transferCount,
+        dashOffset: Math.random(),
+        firstSeen: cp.firstSeen,
+        chain: cp.chain,
+        fromAddress: isSend ? data.address : cpAddress,
+        toAddress: isSend ? cpAddress : data.address,
+        hop: hop.depth + 1,
+      });
+    }
+
+    const limit = hop.depth === 0 ? ROOT_ARC_LIMIT : EXPANSION_ARC_LIMIT;
+    arcs.push(...sortByFirstSeen(hopArcs.slice(0, limit)));
+  }
+
+  return { nodes, arcs };
+}
+
+// ── Entity groups ──
+
+// "crypto_com" → "Crypto com"
+function projectName(project: string): string {
+  const name = project.replace(/_/g, " ");
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Merge counterparties labeled with the same project into one entry with
+ * summed volumes, keeping the merged addresses in `members`. The group takes
+ * its busiest member's chain and category; its `address` is the project's
+ * entityKey(), not an on-chain address. Unlabeled counterparties and
+ * projects with a single address pass through unchanged.
+ */
+export function groupByEntity(counterparties: EnrichedCounterparty[]): EnrichedCounterparty[] {
+  const byProject = new Map<string, EnrichedCounterparty[]>();
+  for (const cp of counterparties) {
+    const project = cp.entity?.project?.toLowerCase();
+    if (!project) continue;
+    const members = byProject.get(project) || [];
+    members.push(cp);
+    byProject.set(project, members);
+  }
+
+  const grouped: EnrichedCounterparty[] = [];
+  const emitted = new Set<string>();
+  for (const cp of counterparties) {
+    const project = cp.entity?.project?.toLowerCase();
+    const members = project ? byProject.get(project)! : [cp];
+    if (members.length === 1) {
+      grouped.push(cp);
+      continue;
+    }
+    if (emitted.has(project!)) continue;
+    emitted.add(project!);
+    grouped.push(mergeMembers(project!, members));
+  }
+  return grouped.sort((a, b) => b.transferCount - a.transferCount);
+}
+
+function mergeMembers(project: string, members: EnrichedCounterparty[]): EnrichedCounterparty {
+  const sorted = [...members].sort((a, b) => b.transferCount - a.transferCount);
+  const top = sorted[0];
+
+  const tokens = new Map<string, TokenVolume>();
+  for (const m of sorted) {
+    for (const t of m.tokenBreakdown) {
+      const existing = tokens.get(t.symbol) || { symbol: t.symbol, sentUsd: 0, receivedUsd: 0, transferCount: 0 };
+      existing.sentUsd += t.sentUsd;
+      existing.receivedUsd += t.receivedUsd;
+      existing.transferCount += t.transferCount;
+      tokens.set(t.symbol, existing);
+    }
+  }
+  const tokenBreakdown = Array.from(tokens.values())
+    .sort((a, b) => b.sentUsd + b.receivedUsd - (a.sentUsd + a.receivedUsd));
+
+  const firstSeen = sorted
+    .map((m) => m.firstSeen)
+    .filter((d): d is string => !!d)
+    .sort()[0];
+
+  return {
+    address: entityKey(project),
+    chain: top.chain,
+    entity: {
+      chain: top.chain,
+      address: "",
+      category: top.entity?.category ?? "",
+      project: top.entity?.project ?? project,
+      name: projectName(top.entity?.project ?? project),
+    },
+    totalSent: sorted.reduce((s, m) => s + m.totalSent, 0),
+    totalReceived: sorted.reduce((s, m) => s + m.totalReceived, 0),
+    transferCount: sorted.reduce((s, m) => s + m.transferCount, 0),
+    tokens: tokenBreakdown.map((t) => t.symbol),
+    tokenBreakdown,
+    firstSeen,
+    members: sorted,
+  };
+}
+
+// Sort by firstSeen ascending (undefined goes last)
+function sortByFirstSeen(arcs: ArcData[]): ArcData[] {
+  return arcs.sort((a, b) => {
+    if (!a.firstSeen && !b.firstSeen) return 0;
+    if (!a.firstSeen) return 1;
+    if (!b.firstSeen) return -1;
+    return a.firstSeen.localeCompare(b.firstSeen);
+  });
+}
+
+/** Drop a hop and every hop expanded through it. The searched wallet stays. */
+export function collapseHop(hops: WalletHop[], key: string): WalletHop[] {
+  const removed = new Set<string>([key]);
+  return hops.filter((hop, i) => {
+    if (i === 0) return true;
+    const hopKey = nodeKey(hop.data.address, hop.data.chain);
+    if (removed.has(hopKey) || (hop.parent && removed.has(hop.parent))) {
+      removed.add(hopKey);
+      return false;
+    }
+    return true;
+  });
+}
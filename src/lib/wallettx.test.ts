@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+import { fetchWalletTransactions, parseTxDateBound } from "./wallettx";
+
+const WALLET = "0xdbf5e9c5206d0db70a90108bf936da60221dc080";
+
+// One upstream page, newest first
+vi.mock("./allium", () => ({
+  getWalletTransactions: vi.fn(async () => ({
+    items: [
+      { hash: "0x4", block_timestamp: "2025-01-08 00:00:00", from_address: WALLET },
+      { hash: "0x3", block_timestamp: "2025-01-07 23:30:00", from_address: WALLET },
+      { hash: "0x2", block_timestamp: "2025-01-07 12:00:00", from_address: WALLET },
+      { hash: "0x1", block_timestamp: "2025-01-06 00:00:00", from_address: WALLET },
+    ],
+    cursor: null,
+  })),
+}));
+
+describe("parseTxDateBound", () => {
+  it("reads timestamps as UTC", () => {
+    expect(parseTxDateBound("2025-01-07 12:00:00", "start")).toBe("2025-01-07T12:00:00.000Z");
+    expect(parseTxDateBound("2025-01-07 12:00:00", "end")).toBe("2025-01-07T12:00:00.000Z");
+  });
+
+  it("takes in the whole day for a bare end date", () => {
+    expect(parseTxDateBound("2025-01-07", "start")).toBe("2025-01-07T00:00:00.000Z");
+    expect(parseTxDateBound("2025-01-07", "end")).toBe("2025-01-07T23:59:59.999Z");
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseTxDateBound("yesterday", "end")).toThrow();
+  });
+});
+
+describe("fetchWalletTransactions", () => {
+  const hashes = async (startDate: string, endDate: string) => {
+    const page = await fetchWalletTransactions(WALLET, "ethereum", "key", {
+      limit: 25,
+      cursor: null,
+      filters: { startDate, endDate },
+    });
+    return page.items.map((tx) => tx.hash);
+  };
+
+  it("includes transactions on both bounds", async () => {
+    expect(await hashes("2025-01-06T00:00:00.000Z", "2025-01-07T12:00:00.000Z")).toEqual(["0x2", "0x1"]);
+  });
+
+  it("includes the whole end day for a bare end date", async () => {
+    expect(
+      await hashes(parseTxDateBound("2025-01-07", "start"), parseTxDateBound("2025-01-07", "end"))
+    ).toEqual(["0x3", "0x2"]);
+  });
+});
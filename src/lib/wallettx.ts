@@ -0,0 +1,188 @@
+import { getWalletTransactions } from "./allium";
+import { normalizeAddress } from "./chains";
+import { toTimestamp } from "./rows";
+import type {
+  WalletAssetTransfer,
+  WalletTransaction,
+  WalletTransactionsPage,
+  WalletTxDirection,
+  WalletTxFilters,
+} from "./types";
+
+// ── Wallet transactions ──
+//
+// Individual transactions come from Allium's realtime Developer API rather
+// than a saved Explorer query: it pages with an opaque cursor and returns
+// each transaction's asset transfers already decoded. Filters are applied
+// here, scanning further upstream pages when a filter empties one.
+
+export const WALLET_TX_TTL_SEC = 300;
+export const WALLET_TX_PAGE_SIZE = 25;
+export const WALLET_TX_MAX_PAGE_SIZE = 100;
+
+// Upper bound on upstream pages read for one filtered page
+const MAX_SCAN_PAGES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Canonical cache URL for one page of a wallet's (filtered) transactions. */
+export function walletTxCacheUrl(
+  address: string,
+  chain: string,
+  limit: number,
+  cursor: string | null,
+  filters: WalletTxFilters
+): string {
+  const params = new URLSearchParams({ address, chain, limit: String(limit) });
+  if (cursor) params.set("cursor", cursor);
+  if (filters.token) params.set("token", filters.token.toUpperCase());
+  if (filters.direction) params.set("direction", filters.direction);
+  if (filters.startDate) params.set("start", filters.startDate);
+  if (filters.endDate) params.set("end", filters.endDate);
+  return `https://cache.internal/api/wallet/transactions?${params}`;
+}
+
+/**
+ * A `start` or `end` filter as ISO-8601 UTC. Both bounds are inclusive, as
+ * /api/wallet's start_date and end_date are; a bare date ("2025-01-07") as
+ * the end bound takes in that whole day. Throws on an unparseable value.
+ */
+export function parseTxDateBound(value: string, bound: "start" | "end"): string {
+  const iso = toTimestamp(value);
+  if (bound === "end" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return new Date(Date.parse(iso) + DAY_MS - 1).toISOString();
+  }
+  return iso;
+}
+
+function toIso(value: unknown): string | null {
+  try {
+    return toTimestamp(value);
+  } catch {
+    return null;
+  }
+}
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value : value == null ? "" : String(value);
+}
+
+function normalizeTransfer(raw: unknown, chain: string): WalletAssetTransfer | null {
+  if (!raw || typeof raw !== "object") return null;
+  const t = raw as Record<string, unknown>;
+  const asset = (t.asset ?? {}) as Record<string, unknown>;
+  const amount = (t.amount ?? {}) as Record<string, unknown>;
+  const from = str(t.from_address);
+  const to = str(t.to_address);
+  return {
+    transfer_type: str(t.transfer_type),
+    from_address: normalizeAddress(chain, from) ?? from,
+    to_address: normalizeAddress(chain, to) ?? to,
+    asset: {
+      type: str(asset.type),
+      symbol: str(asset.symbol),
+      name: str(asset.name),
+      decimals: Number(asset.decimals) || 0,
+    },
+    amount: {
+      amount: typeof amount.amount === "number" ? amount.amount : str(amount.amount),
+      amount_str: amount.amount_str === undefined ? undefined : str(amount.amount_str),
+      raw_amount: amount.raw_amount === undefined ? undefined : str(amount.raw_amount),
+    },
+  };
+}
+
+/**
+ * Shape one upstream item into a WalletTransaction, with addresses in
+ * normalizeAddress() form so they compare against the explored wallet.
+ * Items without a hash or a parseable timestamp are rejected.
+ */
+function normalizeTransaction(raw: unknown, chain: string): WalletTransaction | null {
+  if (!raw || typeof raw !== "object") return null;
+  const tx = raw as Record<string, unknown>;
+  const hash = str(tx.hash);
+  const timestamp = toIso(tx.block_timestamp);
+  if (!hash || !timestamp) return null;
+  const from = str(tx.from_address);
+  const to = str(tx.to_address);
+  return {
+    hash,
+    chain: str(tx.chain) || chain,
+    block_timestamp: timestamp,
+    from_address: normalizeAddress(chain, from) ?? from,
+    to_address: normalizeAddress(chain, to) ?? to,
+    labels: Array.isArray(tx.labels) ? tx.labels.map(str).filter(Boolean) : [],
+    asset_transfers: (Array.isArray(tx.asset_transfers) ? tx.asset_transfers : [])
+      .map((t) => normalizeTransfer(t, chain))
+      .filter((t): t is WalletAssetTransfer => t !== null),
+  };
+}
+
+/**
+ * Which ways value moved for the wallet in a transaction: by its asset
+ * transfers, or by the transaction's own sender and recipient when it
+ * moved no assets.
+ */
+export function transactionDirections(tx: WalletTransaction, address: string): Set<WalletTxDirection> {
+  const directions = new Set<WalletTxDirection>();
+  const legs = tx.asset_transfers.length > 0 ? tx.asset_transfers : [tx];
+  for (const leg of legs) {
+    if (leg.from_address === address) directions.add("sent");
+    if (leg.to_address === address) directions.add("received");
+  }
+  return directions;
+}
+
+function matchesFilters(tx: WalletTransaction, address: string, filters: WalletTxFilters): boolean {
+  if (filters.startDate && tx.block_timestamp < filters.startDate) return false;
+  if (filters.endDate && tx.block_timestamp > filters.endDate) return false;
+  if (filters.token) {
+    const token = filters.token.toUpperCase();
+    if (!tx.asset_transfers.some((t) => t.asset.symbol.toUpperCase() === token)) return false;
+  }
+  if (filters.direction && !transactionDirections(tx, address).has(filters.direction)) return false;
+  return true;
+}
+
+/**
+ * Read one page of matching transactions. Upstream pages are read until
+ * `limit` matches are collected, the history ends, it passes `startDate`
+ * (pages are newest first), or MAX_SCAN_PAGES is reached. Every match on the
+ * pages read is returned, so a page can hold more than `limit` items but
+ * none are skipped between cursors.
+ */
+export async function fetchWalletTransactions(
+  address: string,
+  chain: string,
+  apiKey: string,
+  opts: { limit: number; cursor: string | null; filters: WalletTxFilters }
+): Promise<WalletTransactionsPage> {
+  const { limit, filters } = opts;
+  const items: WalletTransaction[] = [];
+  let cursor = opts.cursor;
+  let rejected = 0;
+
+  for (let page = 0; page < MAX_SCAN_PAGES; page++) {
+    const upstream = await getWalletTransactions(chain, address, apiKey, { limit, cursor });
+    cursor = upstream.cursor;
+
+    let pastStart = false;
+    for (const raw of upstream.items) {
+      const tx = normalizeTransaction(raw, chain);
+      if (!tx) {
+        rejected++;
+        continue;
+      }
+      if (filters.startDate && tx.block_timestamp < filters.startDate) pastStart = true;
+      if (matchesFilters(tx, address, filters)) items.push(tx);
+    }
+
+    if (pastStart) cursor = null;
+    if (!cursor || items.length >= limit) break;
+  }
+
+  if (rejected > 0) {
+    console.warn(`[wallet-tx] ${address} on ${chain}: rejected ${rejected} items without a hash or timestamp`);
+  }
+  return { address, chain, items, cursor, rejected };
+}
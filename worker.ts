@@ -0,0 +1,29 @@
+// Custom Worker entry: serves the app through OpenNext's generated handler and
+// adds an hourly cron (see "triggers" in wrangler.jsonc) that warms the cache
+// for every Sidebar preset via /api/prefetch/presets.
+
+// Generated by `opennextjs-cloudflare build`; typed in open-next.d.ts
+import handler from "./.open-next/worker.js";
+
+interface WorkerEnv {
+  CRON_SECRET?: string;
+}
+
+interface WorkerContext {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+export default {
+  fetch: handler.fetch,
+
+  async scheduled(_controller: unknown, env: WorkerEnv, ctx: WorkerContext) {
+    const headers: Record<string, string> = {};
+    if (env.CRON_SECRET) headers.Authorization = `Bearer ${env.CRON_SECRET}`;
+    const request = new Request("https://cron.internal/api/prefetch/presets", { headers });
+    ctx.waitUntil(
+      handler.fetch(request, env, ctx).then(async (res: Response) => {
+        console.log(`[cron] Preset prefetch ${res.status}: ${await res.text()}`);
+      })
+    );
+  },
+};